@@ -11,7 +11,7 @@ async function main() {
     network: 'somnia',
   });
 
-  // Create payment-enabled agent
+  // Create payment-enabled agent (verifies and settles X-Payment automatically)
   const paymentAgent = new UACPAgent({
     agentCard: {
       id: 'did:somnia:payment-agent-001',
@@ -26,6 +26,7 @@ async function main() {
     port: 4002,
     logLevel: 'info',
     enablePayments: true,
+    paymentServer,
   });
 
   // Free service - no payment required
@@ -41,48 +42,34 @@ async function main() {
     };
   });
 
-  // Premium service - payment required
-  paymentAgent.onIntent('premium_service', async (task, context) => {
-    console.log('💎 Premium service requested from:', context.sender);
+  // Premium service - priced at registration, the agent answers 402 with
+  // payment requirements until a valid X-Payment header is provided
+  paymentAgent.onIntent(
+    'premium_service',
+    async (task, context) => {
+      console.log('💎 Premium service requested from:', context.sender);
+      console.log('💰 Paid by:', context.payment?.payer, 'amount:', context.payment?.amount);
 
-    // Check if payment was provided in the request
-    // In a real implementation, you'd check the X-Payment header
-    const paymentProvided = false; // Simplified for example
-
-    if (!paymentProvided) {
-      // Create payment requirements
-      const paymentRequirements = paymentServer.createPaymentRequirements({
+      return {
+        success: true,
+        data: {
+          message: 'Premium service delivered!',
+          features: ['advanced_analytics', 'priority_support', 'custom_reports'],
+          timestamp: Date.now(),
+        },
+      };
+    },
+    {
+      pricing: {
         amount: '1000000', // 1 USDC (6 decimals)
         asset: '0x...', // USDC contract address on Somnia
         payTo: '0x...', // Your wallet address
-        resource: '/premium_service',
-        description: 'Access to premium service',
         network: 'somnia',
         scheme: 'exact',
-      });
-
-      console.log('💰 Payment required:', {
-        amount: '1 USDC',
-        resource: paymentRequirements.resource,
-      });
-
-      return {
-        success: false,
-        requiresPayment: true,
-        paymentRequirements,
-      };
-    }
-
-    // Payment verified - provide premium service
-    return {
-      success: true,
-      data: {
-        message: 'Premium service delivered!',
-        features: ['advanced_analytics', 'priority_support', 'custom_reports'],
-        timestamp: Date.now(),
+        description: 'Access to premium service',
       },
-    };
-  });
+    }
+  );
 
   // Process payment intent
   paymentAgent.onIntent('process_payment', async (task, context) => {
@@ -117,6 +104,14 @@ async function main() {
     });
   });
 
+  paymentAgent.on(AgentEvent.PAYMENT_COMPLETED, (data) => {
+    console.log('✅ Payment settled:', {
+      payer: data.payer,
+      amount: data.amount,
+      transaction: data.transaction,
+    });
+  });
+
   paymentAgent.on(AgentEvent.MESSAGE_RECEIVED, (message) => {
     console.log('📨 Message received:', {
       id: message.id,
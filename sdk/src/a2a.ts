@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import { BaseWallet } from 'ethers';
 import {
   A2AMessage,
   A2AMessageSchema,
@@ -10,21 +11,65 @@ import {
 import { validate, validateDID } from './utils/validation.js';
 import { MessageValidationError } from './utils/errors.js';
 import { Logger } from './utils/logger.js';
+import { signA2AMessage, SignatureScheme } from './signing.js';
 
 const logger = new Logger({ level: 'info', prefix: 'A2A' });
 
+/**
+ * HTTP status codes for A2A error codes (anything else maps to 500)
+ */
+const ERROR_STATUS_CODES: Record<string, number> = {
+  PAYMENT_REQUIRED: 402,
+  UNAUTHORIZED: 401,
+  INVALID_SIGNATURE: 401,
+  FORBIDDEN: 403,
+  INVALID_DELEGATION: 403,
+  DELEGATION_SPEND_EXCEEDED: 403,
+  CLOCK_SKEW: 400,
+  MESSAGE_VALIDATION_ERROR: 400,
+  MESSAGE_EXPIRED: 408,
+  DEADLINE_EXCEEDED: 408,
+  TOPIC_NOT_FOUND: 404,
+  INTENT_BUSY: 429,
+  RATE_LIMITED: 429,
+  AGENT_BUSY: 503,
+  EVENT_NOT_HANDLED: 503,
+};
+
 /**
  * A2A Protocol implementation
  * Handles message creation, validation, and formatting
  */
 export class A2AProtocol {
   private senderId: string;
+  private wallet?: BaseWallet;
+  private signatureScheme: SignatureScheme;
 
-  constructor(senderId: string) {
+  constructor(
+    senderId: string,
+    signer?: { wallet: BaseWallet; scheme?: SignatureScheme }
+  ) {
     if (!validateDID(senderId)) {
       throw new MessageValidationError(`Invalid sender DID: ${senderId}`);
     }
     this.senderId = senderId;
+    this.wallet = signer?.wallet;
+    this.signatureScheme = signer?.scheme || 'eip191';
+  }
+
+  /**
+   * Sign a message with the configured wallet (no-op without a wallet)
+   */
+  signMessage(message: A2AMessage): A2AMessage {
+    if (!this.wallet) return message;
+    return signA2AMessage(message, this.wallet, this.signatureScheme);
+  }
+
+  /**
+   * Address used to sign outgoing messages, if any
+   */
+  getSignerAddress(): string | undefined {
+    return this.wallet?.address;
   }
 
   /**
@@ -44,7 +89,7 @@ export class A2AProtocol {
       recipient: params.recipient,
       intent: params.intent,
       task: params.task,
-      type: MessageType.REQUEST,
+      type: params.type ?? MessageType.REQUEST,
       priority,
       ...(params.context && { context: params.context }),
       ...(params.ttl && { ttl: params.ttl }),
@@ -52,7 +97,7 @@ export class A2AProtocol {
       ...(params.metadata && { metadata: params.metadata }),
     };
 
-    return this.validateMessage(message);
+    return this.signMessage(this.validateMessage(message));
   }
 
   /**
@@ -76,7 +121,7 @@ export class A2AProtocol {
       ...(originalMessage.context && { context: originalMessage.context }),
     };
 
-    return this.validateMessage(response as A2AMessage);
+    return this.signMessage(this.validateMessage(response as A2AMessage));
   }
 
   /**
@@ -100,7 +145,7 @@ export class A2AProtocol {
       ...(originalMessage.context && { context: originalMessage.context }),
     };
 
-    return this.validateMessage(response as A2AMessage);
+    return this.signMessage(this.validateMessage(response as A2AMessage));
   }
 
   /**
@@ -156,7 +201,7 @@ export class A2AProtocol {
   ): A2AResponse {
     return {
       messageId,
-      status: success ? 200 : error?.code === 'PAYMENT_REQUIRED' ? 402 : 500,
+      status: success ? 200 : (error && ERROR_STATUS_CODES[error.code]) || 500,
       success,
       data,
       error,
@@ -169,7 +214,8 @@ export class A2AProtocol {
    */
   static createPaymentRequiredResponse(
     messageId: string,
-    paymentRequirements: unknown
+    paymentRequirements: unknown,
+    error?: { message: string; details?: unknown }
   ): A2AResponse {
     return {
       messageId,
@@ -179,7 +225,8 @@ export class A2AProtocol {
       paymentRequirements: paymentRequirements as any,
       error: {
         code: 'PAYMENT_REQUIRED',
-        message: 'Payment is required to access this resource',
+        message: error?.message || 'Payment is required to access this resource',
+        ...(error?.details !== undefined && { details: error.details }),
       },
       timestamp: Date.now(),
     };
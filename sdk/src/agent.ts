@@ -1,23 +1,168 @@
-import express, { Express, Request, Response } from 'express';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 import EventEmitter from 'eventemitter3';
+import { WebSocketServer } from 'ws';
+import { Wallet } from 'ethers';
+import { z } from 'zod';
 import {
   AgentConfig,
   AgentCard,
   AgentEvent,
   AgentStatus,
+  AuthPrincipal,
   IntentHandler,
+  IntentOptions,
+  IntentPricing,
   IntentResponse,
+  MessageContext,
+  StreamIntentHandler,
+  StreamIntentOptions,
+  TopicHandler,
+  TopicOptions,
+  VerifiedPayment,
 } from './types/agent.js';
-import { A2AMessage, CreateMessageParams, A2AResponse } from './types/message.js';
+import {
+  A2AMessage,
+  CreateMessageParams,
+  A2AResponse,
+  MessageType,
+  SendMessageOptions,
+  StreamMessageOptions,
+} from './types/message.js';
+import { AgentTask, AgentTaskSchema } from './types/task.js';
 import { A2AProtocol } from './a2a.js';
 import { AgentRegistry } from './registry.js';
 import { MessageRouter } from './router.js';
+import { createInboundAuthenticator, InboundAuthenticator } from './auth.js';
+import { createRegistrySignerResolver, MessageVerifier } from './signing.js';
+import { ReplayGuard } from './dedup.js';
+import { getSubscriptionPeriod } from './schemes.js';
+import { MemorySubscriptionStore, Subscription, SubscriptionStore } from './subscriptions.js';
+import { PaymentContext, PaymentLedger } from './ledger.js';
+import { TaskManager, isTerminalTaskState } from './tasks.js';
+import { InboundQueue, QueueStats } from './queue.js';
+import { RateLimiter, RateLimitStatus } from './ratelimit.js';
+import { PolicyAuditEntry, PolicyEngine } from './policy.js';
+import {
+  CapabilityToken,
+  DELEGATION_METADATA_KEY,
+  DelegationParams,
+  DelegationVerifier,
+  issueCapabilityToken,
+  VerifiedDelegation,
+} from './delegation.js';
+import { Outbox } from './outbox.js';
+import { createDeadlineSignal, getMessageDeadline, runWithDeadline } from './deadline.js';
+import {
+  InboundContext,
+  InboundMiddleware,
+  OutboundMiddleware,
+  runMiddleware,
+} from './middleware.js';
+import { PublishResult, SUBSCRIBE_INTENT, TopicPublisher, UNSUBSCRIBE_INTENT } from './pubsub.js';
+import {
+  EventStreamFrame,
+  createFrame,
+  openEventStream,
+  writeComment,
+  writeEvent,
+  writeFrame,
+} from './streaming.js';
+import { InboundHeaders, StreamResult, TransportHandler, TransportServer } from './transport.js';
+import { WebSocketLink } from './websocket.js';
+import { hashResult, signPaymentReceipt } from './receipts.js';
+import {
+  UACPPaymentServer,
+  decodePaymentHeader,
+  PaymentPayload,
+  PaymentRequirements,
+} from './x402.js';
+import { PaymentReceipt, RefundResponse } from './types/payment.js';
 import { Logger } from './utils/logger.js';
-import { AgentInitializationError, IntentHandlerError } from './utils/errors.js';
-import { validateDID } from './utils/validation.js';
+import {
+  AgentBusyError,
+  AgentInitializationError,
+  AuthenticationError,
+  DelegationError,
+  IntentHandlerError,
+  MessageValidationError,
+  PolicyDeniedError,
+  RateLimitedError,
+  ReplayError,
+  SignatureVerificationError,
+  TimeoutError,
+  UACPError,
+} from './utils/errors.js';
+import { safeValidate, toJSONSchema, validate, validateDID } from './utils/validation.js';
 
 const logger = new Logger({ level: 'info', prefix: 'Agent' });
 
+/**
+ * Payment verified for a priced intent, pending settlement
+ */
+interface PendingPayment {
+  verified: VerifiedPayment;
+  payload: PaymentPayload;
+  requirements: PaymentRequirements;
+  delegation?: VerifiedDelegation; // Capability token the payment is counted against
+}
+
+/**
+ * Payment settled for a priced intent, refundable until the response is sent
+ */
+interface SettledPayment {
+  amount: string;
+  transaction?: string;
+}
+
+/**
+ * Details of an inbound message from the transport it arrived on
+ */
+interface InboundDetails {
+  principal?: AuthPrincipal;
+  signer?: string;
+  paymentHeader?: string;
+  deadline?: number; // From the X-Deadline header and the message's ttl
+  signal?: AbortSignal; // Aborted when the caller disconnects
+}
+
+/**
+ * A stream that passed its checks and holds a queue slot until closed
+ */
+interface OpenedStream {
+  frames: AsyncGenerator<EventStreamFrame>;
+  close: () => void;
+}
+
+/**
+ * A message that passed validation and payment checks, ready for its handler
+ */
+interface IntentExecution {
+  task: Record<string, unknown>;
+  options?: IntentOptions;
+  pricing?: IntentPricing;
+  payment?: PendingPayment;
+  subscription?: Subscription;
+  settled?: SettledPayment;
+  inbound: InboundDetails;
+  context: MessageContext; // Built for middleware; completed for the handler
+}
+
+/**
+ * Hooks added to the message context of a handler running as a task
+ */
+type TaskHooks = Pick<MessageContext, 'taskId' | 'signal' | 'reportProgress'>;
+
+/**
+ * Message accepted by receiveMessage
+ */
+interface ReceivedMessage {
+  message: A2AMessage;
+  principal?: AuthPrincipal;
+  signer?: string;
+}
+
 /**
  * UACPAgent - Core agent implementation
  */
@@ -27,10 +172,31 @@ export class UACPAgent {
   private protocol: A2AProtocol;
   private registry: AgentRegistry;
   private router: MessageRouter;
+  private authenticator?: InboundAuthenticator;
+  private verifier: MessageVerifier;
+  private replayGuard?: ReplayGuard;
   private eventEmitter: EventEmitter;
   private intentHandlers: Map<string, IntentHandler> = new Map();
+  private streamHandlers: Map<string, StreamIntentHandler> = new Map();
+  private intentOptions: Map<string, IntentOptions> = new Map();
+  private middleware: InboundMiddleware[] = [];
+  private paymentServer?: UACPPaymentServer;
+  private paymentLedger: PaymentLedger;
+  private wallet?: Wallet;
+  private paymentRequirements: Map<string, PaymentRequirements> = new Map();
+  private subscriptions: SubscriptionStore;
+  private tasks: TaskManager;
+  private inboundQueue: InboundQueue;
+  private rateLimiter?: RateLimiter;
+  private policy?: PolicyEngine;
+  private delegations: DelegationVerifier;
+  private topicPublisher: TopicPublisher;
+  private topicSchemas: Map<string, z.ZodTypeAny> = new Map();
+  private topicHandlers: Map<string, TopicHandler> = new Map(); // Keyed by publisher:topic
   private app: Express;
-  private server: any;
+  private servers: TransportServer[] = [];
+  private webSocketServer?: WebSocketServer;
+  private webSocketPath?: string;
   private isInitialized = false;
 
   constructor(config: AgentConfig) {
@@ -50,13 +216,107 @@ export class UACPAgent {
       throw new AgentInitializationError(`Invalid agent DID: ${this.agentCard.id}`);
     }
 
+    // Advertise the WebSocket endpoint next to the HTTP one
+    if (config.websocket) {
+      this.webSocketPath = (config.websocket !== true && config.websocket.path) || '/ws';
+      const url = new URL(this.webSocketPath, this.agentCard.endpoint);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      this.agentCard.endpoints = [...(this.agentCard.endpoints || []), url.toString()];
+    }
+    for (const endpoint of config.listen || []) {
+      if (!this.agentCard.endpoints?.includes(endpoint)) {
+        this.agentCard.endpoints = [...(this.agentCard.endpoints || []), endpoint];
+      }
+    }
+
+    // Set up message signing wallet and publish its address on the card
+    const wallet = config.walletPrivateKey ? new Wallet(config.walletPrivateKey) : undefined;
+    this.wallet = wallet;
+    if (wallet) {
+      this.agentCard.metadata = { ...this.agentCard.metadata, signerAddress: wallet.address };
+    }
+
     // Initialize components
-    this.protocol = new A2AProtocol(this.agentCard.id);
+    this.protocol = new A2AProtocol(
+      this.agentCard.id,
+      wallet && { wallet, scheme: config.messageSigning?.scheme }
+    );
     this.registry = config.registry || new AgentRegistry({
       type: 'memory',
       url: config.registryUrl,
     });
     this.router = new MessageRouter(this.registry);
+    for (const transport of config.transports || []) {
+      this.router.registerTransport(transport);
+    }
+    this.router
+      .getWebSocketTransport()
+      .setMessageHandler((body, headers, link) => this.handleInboundMessage(body, headers, link));
+    if (wallet) {
+      this.router.setMessageSigner((message) => this.protocol.signMessage(message));
+    }
+    this.verifier = new MessageVerifier(
+      config.messageSigning?.resolver || createRegistrySignerResolver(this.registry)
+    );
+    this.paymentLedger = config.paymentLedger || config.x402?.ledger || new PaymentLedger();
+    if (config.paymentServer || config.enablePayments) {
+      this.paymentServer = config.paymentServer || new UACPPaymentServer(config.x402);
+      this.paymentServer.setLedger(this.paymentLedger);
+    }
+    this.subscriptions = config.subscriptionStore || new MemorySubscriptionStore();
+    this.tasks = new TaskManager(config.tasks);
+    this.inboundQueue = new InboundQueue(config.queue, (saturated) => this.setBusy(saturated));
+    if (config.rateLimit) {
+      this.rateLimiter = new RateLimiter(config.rateLimit);
+    }
+    if (config.policy) {
+      this.policy = new PolicyEngine(config.policy);
+    }
+    this.delegations = new DelegationVerifier(
+      this.agentCard.id,
+      (did) => this.verifier.resolveSigners(did),
+      config.delegation
+    );
+    this.topicPublisher = new TopicPublisher(
+      (message) => this.router.sendMessage(message, { retries: 0, outbox: false }),
+      (topic, message, error) =>
+        this.emit(AgentEvent.TOPIC_DELIVERY_FAILED, {
+          topic,
+          subscriber: message.recipient,
+          messageId: message.id,
+          error,
+        }),
+      config.pubsub
+    );
+    if (config.outbox) {
+      this.router.setOutbox(
+        new Outbox(config.outbox, {
+          onDelivered: (entry, response) =>
+            this.emit(AgentEvent.MESSAGE_REDELIVERED, { entry, response }),
+          onDeadLetter: (entry) => this.emit(AgentEvent.MESSAGE_DEAD_LETTERED, entry),
+        })
+      );
+    }
+    if (config.paymentClient) {
+      this.router.setPaymentClient(config.paymentClient, {
+        policy: config.spendingPolicy,
+        ledger: this.paymentLedger,
+      });
+    }
+    if (config.replayProtection !== false) {
+      this.replayGuard = new ReplayGuard(config.replayProtection);
+    }
+    if (config.outboundAuth) {
+      this.router.setCredentials(config.outboundAuth);
+    }
+
+    try {
+      this.authenticator = createInboundAuthenticator(this.agentCard, config.inboundAuth);
+    } catch (error) {
+      throw new AgentInitializationError(
+        `Invalid auth configuration: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
 
     // Initialize Express app
     this.app = express();
@@ -112,27 +372,48 @@ export class UACPAgent {
   }
 
   /**
-   * Start listening for incoming messages
+   * Start listening for incoming messages over HTTP on the port, and on each
+   * endpoint in `config.listen`
    */
   async listen(port?: number): Promise<void> {
     const listenPort = port || this.config.port || 3000;
+    const endpoints = [`http://localhost:${listenPort}`, ...(this.config.listen || [])];
 
-    return new Promise((resolve, reject) => {
-      try {
-        this.server = this.app.listen(listenPort, () => {
-          logger.info(`Agent listening on port ${listenPort}`);
-          logger.info(`A2A endpoint: http://localhost:${listenPort}/a2a`);
-          resolve();
-        });
-
-        this.server.on('error', (error: Error) => {
-          logger.error('Server error', error);
-          reject(error);
-        });
-      } catch (error) {
-        reject(error);
+    try {
+      for (const endpoint of endpoints) {
+        await this.listenOn(endpoint);
       }
-    });
+    } catch (error) {
+      logger.error('Server error', error);
+      await this.closeServers();
+      throw error;
+    }
+
+    logger.info(`Agent listening on port ${listenPort}`);
+    logger.info(`A2A endpoint: http://localhost:${listenPort}/a2a`);
+    if (this.webSocketPath) {
+      logger.info(`WebSocket endpoint: ws://localhost:${listenPort}${this.webSocketPath}`);
+    }
+  }
+
+  /**
+   * Start listening on a single endpoint only, e.g. `inproc://` in tests
+   */
+  async listenOn(endpoint: string): Promise<void> {
+    const transport = this.router.getTransport(endpoint);
+    if (!transport?.listen) {
+      throw new AgentInitializationError(`No transport can listen on ${endpoint}`);
+    }
+
+    const handler: TransportHandler = {
+      handleMessage: (body, headers) => this.handleInboundMessage(body, headers),
+      handleStream: (body, headers, signal) => this.handleInboundStream(body, headers, signal),
+      handleRequest: this.app,
+      handleUpgrade: (req, socket, head) => void this.handleUpgrade(req, socket, head),
+      webSocketPath: this.webSocketPath,
+    };
+    this.servers.push(await transport.listen(endpoint, handler));
+    logger.info(`Listening on ${endpoint}`);
   }
 
   /**
@@ -142,34 +423,29 @@ export class UACPAgent {
     // A2A message endpoint
     this.app.post('/a2a', async (req: Request, res: Response): Promise<void> => {
       try {
-        const message = req.body as A2AMessage;
+        const received = await this.receiveMessage(req.body, req.headers);
+        if ('rejected' in received) {
+          this.sendResponse(res, received.rejected);
+          return;
+        }
 
-        logger.debug('Received A2A message', {
-          messageId: message.id,
-          sender: message.sender,
-          intent: message.intent,
+        const disconnected = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            disconnected.abort(new UACPError('Caller disconnected', 'CALLER_DISCONNECTED'));
+          }
         });
 
-        this.emit(AgentEvent.MESSAGE_RECEIVED, message);
-
-        // Validate message
-        this.protocol.validateMessage(message);
-
-        // Check if message is expired
-        if (this.protocol.isMessageExpired(message)) {
-          res.status(408).json(
-            A2AProtocol.createA2AResponse(message.id, false, undefined, {
-              code: 'MESSAGE_EXPIRED',
-              message: 'Message has expired',
-            })
-          );
-          return;
+        const { response, duplicate } = await this.dispatchMessage(
+          received,
+          req.headers,
+          disconnected.signal
+        );
+        if (duplicate) {
+          res.set('X-Idempotent-Replay', 'true');
         }
 
-        // Handle the message
-        const response = await this.handleMessage(message);
-
-        res.status(response.status).json(response);
+        this.sendResponse(res, response);
       } catch (error) {
         logger.error('Error handling A2A message', error);
         res.status(500).json(
@@ -186,6 +462,63 @@ export class UACPAgent {
       }
     });
 
+    // Streaming A2A endpoint (Server-Sent Events)
+    this.app.post('/a2a/stream', async (req: Request, res: Response): Promise<void> => {
+      try {
+        const received = await this.receiveMessage(req.body, req.headers);
+        if ('rejected' in received) {
+          this.sendResponse(res, received.rejected);
+          return;
+        }
+
+        const disconnected = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            disconnected.abort(new UACPError('Caller disconnected', 'CALLER_DISCONNECTED'));
+          }
+        });
+
+        const opened = await this.handleStream(
+          received.message,
+          this.getStreamDetails(received, req.headers, disconnected.signal)
+        );
+        if ('response' in opened) {
+          this.sendResponse(res, opened.response);
+          return;
+        }
+        if (opened.rateLimit) {
+          this.setRateLimitHeaders(res, opened.rateLimit);
+        }
+
+        openEventStream(res);
+        const heartbeat = setInterval(() => writeComment(res, 'heartbeat'), 15000);
+        try {
+          for await (const frame of opened.frames) {
+            writeFrame(res, frame);
+          }
+        } finally {
+          clearInterval(heartbeat);
+          res.end();
+        }
+      } catch (error) {
+        logger.error('Error handling A2A stream', error);
+        const failure = {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        };
+        if (res.headersSent) {
+          writeEvent(res, 'error', failure);
+          res.end();
+        } else {
+          res
+            .status(500)
+            .json(
+              A2AProtocol.createA2AResponse(req.body?.id || 'unknown', false, undefined, failure)
+            );
+        }
+      }
+    });
+
     // Health check endpoint
     this.app.get('/health', (_req: Request, res: Response) => {
       res.json({
@@ -200,164 +533,2066 @@ export class UACPAgent {
     this.app.get('/card', (_req: Request, res: Response) => {
       res.json(this.agentCard);
     });
-  }
-
-  /**
-   * Handle incoming message
-   */
-  private async handleMessage(message: A2AMessage): Promise<A2AResponse> {
-    const handler = this.intentHandlers.get(message.intent);
-
-    if (!handler) {
-      logger.warn(`No handler found for intent: ${message.intent}`);
-      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
-        code: 'INTENT_NOT_FOUND',
-        message: `No handler registered for intent: ${message.intent}`,
-      });
-    }
-
-    try {
-      const context = {
-        messageId: message.id,
-        sender: message.sender,
-        recipient: message.recipient,
-        timestamp: message.timestamp,
-        correlationId: message.correlationId,
-      };
 
-      const result: IntentResponse = await handler(message.task, context);
+    // Asynchronous task endpoints
+    const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+      if (!this.authenticator) return next();
+      try {
+        await this.authenticator.authenticate({ agentId: this.agentCard.id, headers: req.headers });
+        next();
+      } catch (error) {
+        res
+          .status(401)
+          .set('WWW-Authenticate', `Bearer realm="${this.agentCard.id}"`)
+          .json({
+            error: {
+              code: 'UNAUTHORIZED',
+              message: error instanceof AuthenticationError ? error.message : 'Unauthorized',
+            },
+          });
+      }
+    };
 
-      // Handle payment required
-      if (result.requiresPayment && result.paymentRequirements) {
-        this.emit(AgentEvent.PAYMENT_REQUIRED, {
-          messageId: message.id,
-          paymentRequirements: result.paymentRequirements,
+    this.app.get('/tasks/:id', authenticate, (req: Request, res: Response) => {
+      const task = this.tasks.get(req.params.id);
+      if (!task) {
+        res.status(404).json({
+          error: { code: 'TASK_NOT_FOUND', message: `Task not found: ${req.params.id}` },
         });
-
-        return A2AProtocol.createPaymentRequiredResponse(
-          message.id,
-          result.paymentRequirements
-        );
+        return;
       }
+      res.json(task);
+    });
 
-      // Handle error
-      if (!result.success) {
-        return A2AProtocol.createA2AResponse(message.id, false, undefined, {
-          code: 'HANDLER_ERROR',
-          message: result.error || 'Handler execution failed',
+    this.app.post('/tasks/:id/cancel', authenticate, (req: Request, res: Response) => {
+      const task = this.tasks.get(req.params.id);
+      if (!task) {
+        res.status(404).json({
+          error: { code: 'TASK_NOT_FOUND', message: `Task not found: ${req.params.id}` },
         });
+        return;
       }
 
-      // Success response
-      return A2AProtocol.createA2AResponse(message.id, true, result.data);
-    } catch (error) {
-      logger.error(`Error executing handler for intent: ${message.intent}`, error);
-      this.emit(AgentEvent.ERROR, { error, messageId: message.id });
+      const canceled = this.tasks.cancel(task.id);
+      if (!canceled) {
+        // Already final
+        res.status(409).json(task);
+        return;
+      }
 
-      throw new IntentHandlerError(
-        message.intent,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-    }
+      logger.info(`Task canceled: ${task.id}`, { intent: task.intent });
+      this.emit(AgentEvent.TASK_UPDATED, canceled);
+      res.json(canceled);
+    });
   }
 
   /**
-   * Register an intent handler
+   * Authenticate, validate and verify an inbound message received over any
+   * transport. Returns the error response when the message is rejected.
    */
-  onIntent(intent: string, handler: IntentHandler): void {
-    this.intentHandlers.set(intent, handler);
-    logger.debug(`Intent handler registered: ${intent}`);
-  }
+  private async receiveMessage(
+    body: unknown,
+    headers: InboundHeaders
+  ): Promise<ReceivedMessage | { rejected: A2AResponse }> {
+    const messageId = (body as { id?: string } | undefined)?.id || 'unknown';
 
-  /**
-   * Send a message to another agent
-   */
-  async sendMessage(params: CreateMessageParams): Promise<A2AResponse> {
-    const message = this.protocol.createMessage(params);
+    let principal: AuthPrincipal | undefined;
+    if (this.authenticator) {
+      try {
+        principal = await this.authenticator.authenticate({
+          agentId: this.agentCard.id,
+          headers,
+        });
+      } catch (error) {
+        const message =
+          error instanceof AuthenticationError ? error.message : 'Authentication failed';
+        logger.warn('Rejected unauthenticated A2A message', { reason: message });
+        return {
+          rejected: A2AProtocol.createA2AResponse(messageId, false, undefined, {
+            code: 'UNAUTHORIZED',
+            message,
+          }),
+        };
+      }
+    }
 
-    logger.debug('Sending message', {
+    const message = body as A2AMessage;
+
+    logger.debug('Received A2A message', {
       messageId: message.id,
-      recipient: message.recipient,
+      sender: message.sender,
       intent: message.intent,
     });
 
-    this.emit(AgentEvent.MESSAGE_SENT, message);
+    this.emit(AgentEvent.MESSAGE_RECEIVED, message);
 
-    const response = await this.router.sendMessage(message);
+    // Validate message
+    this.protocol.validateMessage(message);
 
-    return response;
+    // Verify sender signature
+    let signer: string | undefined;
+    try {
+      const senderHeader = headers['x-sender-id'];
+      signer = await this.verifySender(
+        message,
+        Array.isArray(senderHeader) ? senderHeader[0] : senderHeader
+      );
+    } catch (error) {
+      if (!(error instanceof SignatureVerificationError)) throw error;
+      logger.warn('Rejected message with invalid signature', {
+        messageId: message.id,
+        reason: error.message,
+      });
+      return {
+        rejected: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: error.code,
+          message: error.message,
+        }),
+      };
+    }
+
+    // Check if message is expired
+    if (this.protocol.isMessageExpired(message)) {
+      return {
+        rejected: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: 'MESSAGE_EXPIRED',
+          message: 'Message has expired',
+        }),
+      };
+    }
+
+    // Reject replays outside the accepted time window
+    if (this.replayGuard) {
+      try {
+        this.replayGuard.checkTimestamp(message);
+      } catch (error) {
+        if (!(error instanceof ReplayError)) throw error;
+        return {
+          rejected: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          }),
+        };
+      }
+    }
+
+    return { message, principal, signer };
   }
 
   /**
-   * Shutdown the agent
+   * Handle an accepted message, at most once per message id
    */
-  async shutdown(): Promise<void> {
-    logger.info('Shutting down agent...');
-
-    // Update status
-    this.agentCard.status = AgentStatus.OFFLINE;
+  private async dispatchMessage(
+    received: ReceivedMessage,
+    headers: InboundHeaders,
+    signal?: AbortSignal
+  ): Promise<{ response: A2AResponse; duplicate: boolean }> {
+    const { message, principal, signer } = received;
+    const paymentHeader = headers['x-payment'];
 
-    // Close server
-    if (this.server) {
-      await new Promise<void>((resolve) => {
-        this.server.close(() => {
-          logger.info('Server closed');
-          resolve();
-        });
+    const handle = () =>
+      this.handleMessage(message, {
+        principal,
+        signer,
+        paymentHeader: Array.isArray(paymentHeader) ? paymentHeader[0] : paymentHeader,
+        deadline: getMessageDeadline(message, headers),
+        signal,
       });
-    }
+    const outcome = this.replayGuard
+      ? await this.replayGuard.execute(message, handle, signer)
+      : { response: await handle(), duplicate: false };
 
-    // Unregister from registry
-    try {
-      await this.registry.unregisterAgent(this.agentCard.id);
-    } catch (error) {
-      logger.warn('Failed to unregister agent', error);
+    if (outcome.duplicate) {
+      this.emit(AgentEvent.MESSAGE_DUPLICATE, message);
     }
 
-    this.emit(AgentEvent.SHUTDOWN, { agentId: this.agentCard.id });
-    logger.info('Agent shutdown complete');
+    return outcome;
   }
 
   /**
-   * Event emitter methods
+   * Send a response over HTTP, with the headers its error calls for
    */
-  on(event: string, handler: (...args: any[]) => void): void {
-    this.eventEmitter.on(event, handler);
+  private sendResponse(res: Response, response: A2AResponse): void {
+    if (response.error?.code === 'UNAUTHORIZED') {
+      res.set('WWW-Authenticate', `Bearer realm="${this.agentCard.id}"`);
+    }
+    const details = response.error?.details as { retryAfter?: number } | undefined;
+    if (details?.retryAfter !== undefined) {
+      res.set('Retry-After', String(details.retryAfter));
+    }
+    if (response.rateLimit) {
+      this.setRateLimitHeaders(res, response.rateLimit);
+    }
+    res.status(response.status).json(response);
   }
 
-  once(event: string, handler: (...args: any[]) => void): void {
-    this.eventEmitter.once(event, handler);
+  private setRateLimitHeaders(res: Response, status: RateLimitStatus): void {
+    res.set({
+      'RateLimit-Limit': String(status.limit),
+      'RateLimit-Remaining': String(status.remaining),
+      'RateLimit-Reset': String(status.reset),
+    });
   }
 
-  off(event: string, handler: (...args: any[]) => void): void {
-    this.eventEmitter.off(event, handler);
+  /**
+   * Handle a message received over a WebSocket link
+   */
+  private async handleInboundMessage(
+    body: unknown,
+    headers: InboundHeaders,
+    link?: WebSocketLink
+  ): Promise<A2AResponse> {
+    try {
+      const received = await this.receiveMessage(body, headers);
+      if ('rejected' in received) {
+        return received.rejected;
+      }
+
+      // Accepted links can carry messages back to the sender
+      if (link) {
+        this.router.getWebSocketTransport().identify(link, received.message.sender);
+      }
+
+      return (await this.dispatchMessage(received, headers, link?.signal)).response;
+    } catch (error) {
+      logger.error('Error handling message', error);
+      return A2AProtocol.createA2AResponse(
+        (body as { id?: string } | undefined)?.id || 'unknown',
+        false,
+        undefined,
+        {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }
+      );
+    }
   }
 
-  emit(event: string, data?: any): void {
-    this.eventEmitter.emit(event, data);
+  /**
+   * Open a stream requested over a transport other than HTTP
+   */
+  private async handleInboundStream(
+    body: unknown,
+    headers: InboundHeaders,
+    signal: AbortSignal
+  ): Promise<StreamResult> {
+    try {
+      const received = await this.receiveMessage(body, headers);
+      if ('rejected' in received) {
+        return { response: received.rejected };
+      }
+      return await this.handleStream(
+        received.message,
+        this.getStreamDetails(received, headers, signal)
+      );
+    } catch (error) {
+      logger.error('Error handling stream', error);
+      return {
+        response: A2AProtocol.createA2AResponse(
+          (body as { id?: string } | undefined)?.id || 'unknown',
+          false,
+          undefined,
+          {
+            code: 'INTERNAL_ERROR',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          }
+        ),
+      };
+    }
+  }
+
+  private getStreamDetails(
+    received: ReceivedMessage,
+    headers: InboundHeaders,
+    signal: AbortSignal
+  ): InboundDetails {
+    return {
+      principal: received.principal,
+      signer: received.signer,
+      deadline: getMessageDeadline(received.message, headers),
+      signal,
+    };
   }
 
   /**
-   * Get agent card
+   * Accept a WebSocket connection, authenticated like /a2a
    */
-  getAgentCard(): AgentCard {
-    return { ...this.agentCard };
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    if (this.authenticator) {
+      try {
+        await this.authenticator.authenticate({ agentId: this.agentCard.id, headers: req.headers });
+      } catch (error) {
+        logger.warn('Rejected unauthenticated WebSocket connection', {
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+    }
+
+    this.webSocketServer ??= new WebSocketServer({ noServer: true });
+    this.webSocketServer.handleUpgrade(req, socket, head, (ws) => {
+      this.router.getWebSocketTransport().accept(ws, req.headers);
+    });
   }
 
   /**
-   * Get registry instance
+   * Verify the message signature against the sender DID.
+   * In strict mode unsigned messages, signatures that fail verification and
+   * X-Sender-ID mismatches are rejected; otherwise such messages are accepted
+   * without a verified signer.
    */
-  getRegistry(): AgentRegistry {
-    return this.registry;
+  private async verifySender(
+    message: A2AMessage,
+    senderHeader?: string
+  ): Promise<string | undefined> {
+    const strict = this.config.messageSigning?.strict ?? false;
+
+    if (strict && senderHeader && senderHeader !== message.sender) {
+      throw new SignatureVerificationError('X-Sender-ID does not match message sender', {
+        header: senderHeader,
+        sender: message.sender,
+      });
+    }
+
+    if (!message.signature) {
+      if (strict) {
+        throw new SignatureVerificationError('Unsigned messages are not accepted');
+      }
+      return undefined;
+    }
+
+    try {
+      return await this.verifier.verify(message);
+    } catch (error) {
+      if (strict || !(error instanceof SignatureVerificationError)) throw error;
+      // Peers may be unregistered or publish no signer address; that is only an error when strict
+      logger.warn(`Treating message from ${message.sender} as unsigned: ${error.message}`, {
+        messageId: message.id,
+      });
+      return undefined;
+    }
   }
 
   /**
-   * Get router instance
+   * Handle incoming message, through the agent's middleware and then the intent's
+   */
+  private async handleMessage(
+    message: A2AMessage,
+    inbound: InboundDetails = {}
+  ): Promise<A2AResponse> {
+    const options = this.intentOptions.get(message.intent);
+    const limited = await this.limitRate(message, options, inbound.signer);
+    if ('response' in limited) {
+      return limited.response;
+    }
+    const delegated = await this.verifyDelegation(message, inbound.signer);
+    if ('response' in delegated) {
+      return delegated.response;
+    }
+
+    // Handlers answering a request stop at the caller's deadline or when it disconnects
+    const stop = createDeadlineSignal(inbound.deadline, [inbound.signal]);
+    const ctx = this.createInboundContext(message, inbound, stop.signal, delegated.delegation);
+    const middleware = [...this.middleware, ...(options?.middleware || [])];
+
+    try {
+      const response = await runMiddleware(middleware, ctx, () =>
+        this.processMessage(message, inbound, ctx.context)
+      );
+      return limited.status ? { ...response, rateLimit: limited.status } : response;
+    } finally {
+      stop.dispose();
+    }
+  }
+
+  /**
+   * Context for the middleware and handler of an inbound message
+   */
+  private createInboundContext(
+    message: A2AMessage,
+    inbound: InboundDetails,
+    signal: AbortSignal,
+    delegation?: VerifiedDelegation
+  ): InboundContext {
+    const state: Record<string, unknown> = {};
+    return {
+      message,
+      context: {
+        messageId: message.id,
+        sender: message.sender,
+        recipient: message.recipient,
+        timestamp: message.timestamp,
+        correlationId: message.correlationId,
+        principal: inbound.principal,
+        signer: inbound.signer,
+        delegation,
+        deadline: inbound.deadline,
+        signal,
+        state,
+      },
+      state,
+    };
+  }
+
+  /**
+   * Route a message to its handler, after validation, queueing and payment
+   */
+  private async processMessage(
+    message: A2AMessage,
+    inbound: InboundDetails,
+    context: MessageContext
+  ): Promise<A2AResponse> {
+    // Results pushed back for tasks this agent submitted
+    if (message.type === MessageType.RESPONSE && message.correlationId) {
+      const pushed = AgentTaskSchema.safeParse(message.task);
+      if (pushed.success) {
+        return this.handleTaskResult(message, pushed.data);
+      }
+    }
+
+    // Events from topics this agent subscribed to, once their signature proves the publisher
+    const topicHandler =
+      message.type === MessageType.EVENT
+        ? this.topicHandlers.get(`${message.sender}:${message.intent}`)
+        : undefined;
+    if (topicHandler) {
+      const refused =
+        this.requireSigner(message, inbound.signer, 'Topic events') ??
+        (await this.authorize(message, false, context.delegation));
+      if (refused) {
+        return refused;
+      }
+      this.emit(AgentEvent.EVENT_RECEIVED, message);
+      return this.handleTopicEvent(message, topicHandler);
+    }
+
+    // The access policy runs before payment is asked for, so it sees whether the
+    // intent is priced rather than whether this message has paid.
+    const options = this.intentOptions.get(message.intent);
+    const denied = await this.authorize(message, Boolean(options?.pricing), context.delegation);
+    if (denied) {
+      return denied;
+    }
+
+    // Events are fire-and-forget unless an intent handler is registered for them
+    if (message.type === MessageType.EVENT) {
+      this.emit(AgentEvent.EVENT_RECEIVED, message);
+      if (!this.intentHandlers.has(message.intent)) {
+        return A2AProtocol.createA2AResponse(message.id, true);
+      }
+    }
+
+    // Reserved intents, not published on the card
+    if (message.intent === SUBSCRIBE_INTENT || message.intent === UNSUBSCRIBE_INTENT) {
+      return (
+        this.requireSigner(message, inbound.signer, 'Subscription requests') ??
+        this.handleSubscription(message)
+      );
+    }
+
+    const handler = this.intentHandlers.get(message.intent);
+
+    if (!handler) {
+      logger.warn(`No handler found for intent: ${message.intent}`);
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: 'INTENT_NOT_FOUND',
+        message: `No handler registered for intent: ${message.intent}`,
+      });
+    }
+
+    // Reject tasks that do not match the intent's input schema before asking for payment
+    let task = message.task;
+    if (options?.inputSchema) {
+      const parsed = safeValidate<Record<string, unknown>>(options.inputSchema, message.task);
+      if (!parsed.success) {
+        const error = new MessageValidationError(
+          `Invalid task for intent: ${message.intent}`,
+          parsed.errors
+        );
+        return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+      task = parsed.data;
+    }
+
+    // Wait for a slot before asking for payment, so busy responses never charge
+    const admitted = await this.admit(message, options);
+    if ('response' in admitted) {
+      return admitted.response;
+    }
+
+    // The deadline may have passed while the message waited for a slot
+    if (inbound.deadline !== undefined && Date.now() >= inbound.deadline) {
+      admitted.release();
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: 'DEADLINE_EXCEEDED',
+        message: 'Deadline exceeded before the message was handled',
+      });
+    }
+
+    let started = false;
+    try {
+      // Priced intents require a verified X-Payment (or an active subscription)
+      const pricing = options?.pricing;
+      let payment: PendingPayment | undefined;
+      let subscription: Subscription | undefined;
+      if (pricing) {
+        // Sender DIDs can be spoofed, so only a verified signer may use the sender's entitlement
+        if (pricing.scheme === 'subscription' && inbound.signer) {
+          subscription = await this.subscriptions.get(
+            message.sender,
+            this.getSubscriptionScope(message.intent, pricing)
+          );
+        }
+
+        if (!subscription) {
+          const outcome = await this.verifyIntentPayment(message, pricing, inbound.paymentHeader);
+          if ('response' in outcome) {
+            return outcome.response;
+          }
+          payment = outcome;
+        }
+      }
+
+      // Payments under a capability token count against its spend limits until
+      // they turn out not to be charged
+      if (payment && context.delegation) {
+        if (!this.delegations.spend(context.delegation, payment.verified.amount)) {
+          return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+            code: 'DELEGATION_SPEND_EXCEEDED',
+            message: 'Payment exceeds the spend allowed by the capability token',
+            details: { maxSpend: context.delegation.maxSpend },
+          });
+        }
+        payment.delegation = context.delegation;
+      }
+
+      // Upfront settlement charges before the handler runs and refunds if it fails
+      let settled: SettledPayment | undefined;
+      if (payment && pricing!.settlement === 'upfront') {
+        const outcome = await this.settleIntentPayment(
+          message,
+          pricing!,
+          payment,
+          payment.verified.amount
+        );
+        if ('response' in outcome) {
+          this.releaseSpend(payment, payment.verified.amount);
+          return outcome.response;
+        }
+        settled = outcome;
+      }
+
+      const execution: IntentExecution = {
+        task,
+        options,
+        pricing,
+        payment,
+        subscription,
+        settled,
+        inbound,
+        context,
+      };
+
+      if (options?.async) {
+        // The task holds its slot until it finishes
+        started = true;
+        return this.startTask(message, handler, execution, admitted.release);
+      }
+
+      return await this.executeIntent(message, handler, execution);
+    } finally {
+      if (!started) {
+        admitted.release();
+      }
+    }
+  }
+
+  /**
+   * Check a message against the access policy. Returns the refusal when the
+   * sender may not use the intent; denials are audited. Under a capability
+   * token the policy applies to the token's root issuer.
+   */
+  private async authorize(
+    message: A2AMessage,
+    priced: boolean,
+    delegation?: VerifiedDelegation
+  ): Promise<A2AResponse | undefined> {
+    if (!this.policy) {
+      return undefined;
+    }
+
+    // Owner and capability rules need the sender's card; unregistered senders match neither
+    const principal = delegation?.issuer ?? message.sender;
+    const card = this.policy.needsCard
+      ? await this.registry.getAgent(principal).catch(() => undefined)
+      : undefined;
+    const decision = this.policy.evaluate({
+      sender: principal,
+      intent: message.intent,
+      priced,
+      card,
+    });
+    if (decision.allowed) {
+      return undefined;
+    }
+
+    const entry: PolicyAuditEntry = {
+      timestamp: Date.now(),
+      messageId: message.id,
+      sender: message.sender,
+      intent: message.intent,
+      rule: decision.rule,
+      description: decision.description,
+    };
+    logger.warn(`Access denied to ${message.intent} for ${message.sender}`, entry);
+    try {
+      await this.policy.audit.record(entry);
+    } catch (error) {
+      logger.error('Failed to record policy denial', error);
+    }
+    this.emit(AgentEvent.ACCESS_DENIED, entry);
+
+    const error = new PolicyDeniedError(`Access denied to intent: ${message.intent}`, {
+      intent: message.intent,
+    });
+    return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    });
+  }
+
+  /**
+   * Verify the capability token a message carries, if any. Returns the refusal
+   * when the token is invalid or does not grant the message.
+   */
+  private async verifyDelegation(
+    message: A2AMessage,
+    signer?: string
+  ): Promise<{ delegation?: VerifiedDelegation } | { response: A2AResponse }> {
+    const token = message.metadata?.[DELEGATION_METADATA_KEY];
+    if (token === undefined) {
+      return {};
+    }
+
+    try {
+      // Tokens name their audience, so only a signed message proves the sender holds it
+      if (!signer) {
+        throw new DelegationError('Messages carrying a capability token must be signed');
+      }
+      return { delegation: await this.delegations.verify(token, message) };
+    } catch (error) {
+      if (!(error instanceof DelegationError)) throw error;
+      logger.warn(`Rejected capability token from ${message.sender}: ${error.message}`, {
+        messageId: message.id,
+        intent: message.intent,
+      });
+      return {
+        response: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        }),
+      };
+    }
+  }
+
+  /**
+   * Take a message from its sender's rate limits. Returns the refusal when a
+   * limit is used up, otherwise the quota left (if any limit applies).
+   */
+  private async limitRate(
+    message: A2AMessage,
+    options?: IntentOptions,
+    signer?: string
+  ): Promise<{ status?: RateLimitStatus } | { response: A2AResponse }> {
+    if (!this.rateLimiter) {
+      return {};
+    }
+
+    // Senders paying for a subscription get the higher quota, once their signature proves the DID
+    const subscriber =
+      this.rateLimiter.hasSubscriberTier &&
+      signer !== undefined &&
+      (await this.subscriptions.list(message.sender)).length > 0;
+    // A verified signer cannot be rotated or impersonated like a sender DID can
+    const result = await this.rateLimiter.check(signer ?? message.sender, message.intent, {
+      intentLimit: options?.rateLimit,
+      subscriber,
+    });
+    if (!result) {
+      return {};
+    }
+
+    const status = { limit: result.limit, remaining: result.remaining, reset: result.reset };
+    if (result.allowed) {
+      return { status };
+    }
+
+    const error = new RateLimitedError(
+      `Rate limit exceeded for ${result.scope}`,
+      result.retryAfter ?? 1,
+      { scope: result.scope }
+    );
+    logger.warn(`Rate limited ${message.sender}: ${message.intent}`, {
+      messageId: message.id,
+      scope: result.scope,
+      retryAfter: error.retryAfter,
+    });
+    return {
+      response: {
+        ...A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        }),
+        rateLimit: status,
+      },
+    };
+  }
+
+  /**
+   * Wait for an inbound queue slot for a message. Returns the busy response
+   * when the queue has no room for it.
+   */
+  private async admit(
+    message: A2AMessage,
+    options?: IntentOptions
+  ): Promise<{ release: () => void } | { response: A2AResponse }> {
+    try {
+      const release = await this.inboundQueue.acquire(message.intent, message.priority, options);
+      return { release };
+    } catch (error) {
+      if (!(error instanceof AgentBusyError)) throw error;
+      logger.warn(`Rejected message while busy: ${message.intent}`, {
+        messageId: message.id,
+        code: error.code,
+        retryAfter: error.retryAfter,
+      });
+      return {
+        response: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        }),
+      };
+    }
+  }
+
+  /**
+   * Run the handler for a message, then settle (or refund) its payment
+   */
+  private async executeIntent(
+    message: A2AMessage,
+    handler: IntentHandler,
+    execution: IntentExecution,
+    hooks: TaskHooks = {}
+  ): Promise<A2AResponse> {
+    const { task, options, pricing, payment, subscription } = execution;
+    let settled = execution.settled;
+
+    // Tasks outlive the request, so they have no deadline and stop only when canceled
+    const deadline = hooks.taskId ? undefined : execution.context.deadline;
+    const signal = hooks.taskId ? hooks.signal : execution.context.signal;
+
+    // Stopped handlers are not charged, whatever they returned
+    const stopped = async (): Promise<A2AResponse> => {
+      const reason: unknown = signal!.reason;
+      const failure =
+        reason instanceof UACPError
+          ? { code: reason.code, message: reason.message }
+          : {
+              code: 'TASK_CANCELED',
+              message: typeof reason === 'string' ? reason : 'Task was canceled',
+            };
+      const refund =
+        settled &&
+        (await this.refundIntentPayment(message, pricing!, payment!, settled, failure.message));
+
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        ...failure,
+        ...(refund && { details: { refund } }),
+      });
+    };
+
+    try {
+      // Completes the context middleware saw, so it can read the payment afterwards
+      const context = Object.assign(execution.context, {
+        payment: payment?.verified ?? (subscription && {
+          payer: subscription.payer,
+          amount: subscription.amount,
+          asset: subscription.asset,
+          network: subscription.network,
+          scheme: 'subscription',
+          expiresAt: subscription.expiresAt,
+        }),
+        deadline,
+        ...hooks,
+        signal,
+      });
+
+      // Messages sent by the handler inherit its deadline
+      const result: IntentResponse = await runWithDeadline(deadline, () => handler(task, context));
+
+      if (signal?.aborted) {
+        return await stopped();
+      }
+
+      // Handle payment required
+      if (result.requiresPayment && result.paymentRequirements) {
+        this.emit(AgentEvent.PAYMENT_REQUIRED, {
+          messageId: message.id,
+          paymentRequirements: result.paymentRequirements,
+        });
+
+        const refund =
+          settled &&
+          (await this.refundIntentPayment(
+            message,
+            pricing!,
+            payment!,
+            settled,
+            'Handler requested payment'
+          ));
+
+        return A2AProtocol.createPaymentRequiredResponse(
+          message.id,
+          result.paymentRequirements,
+          refund && { message: 'Payment is required to access this resource', details: { refund } }
+        );
+      }
+
+      // Handle error, including response data that does not match the output schema
+      const output =
+        result.success && options?.outputSchema
+          ? safeValidate(options.outputSchema, result.data)
+          : undefined;
+      if (!result.success || (output && !output.success)) {
+        const failure = result.success
+          ? {
+              code: 'OUTPUT_VALIDATION_ERROR',
+              message: `Handler output does not match the schema for intent: ${message.intent}`,
+              errors: output && !output.success ? output.errors : undefined,
+            }
+          : { code: 'HANDLER_ERROR', message: result.error || 'Handler execution failed' };
+
+        if (failure.code === 'OUTPUT_VALIDATION_ERROR') {
+          logger.error(failure.message, { messageId: message.id, errors: failure.errors });
+        }
+
+        const refund =
+          settled &&
+          (await this.refundIntentPayment(message, pricing!, payment!, settled, failure.message));
+
+        const details = {
+          ...(failure.errors && { errors: failure.errors }),
+          ...(refund && { refund }),
+        };
+
+        return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: failure.code,
+          message: failure.message,
+          ...(Object.keys(details).length > 0 && { details }),
+        });
+      }
+
+      // Settle the verified payment now that the handler has succeeded
+      let receipt: PaymentReceipt | undefined;
+      if (payment) {
+        const charge = this.getChargeAmount(message, pricing!, payment, result);
+
+        if (!settled && BigInt(charge) === 0n) {
+          // Nothing was used, so the authorization is left unsettled
+          this.releaseSpend(payment, payment.verified.amount);
+          settled = { amount: '0' };
+        } else if (!settled) {
+          const outcome = await this.settleIntentPayment(message, pricing!, payment, charge);
+          if ('response' in outcome) {
+            return outcome.response;
+          }
+          settled = outcome;
+        } else if (BigInt(charge) < BigInt(settled.amount)) {
+          // Compensate upfront range payments for unused authorization
+          const unused = (BigInt(settled.amount) - BigInt(charge)).toString();
+          const refund = await this.refundIntentPayment(
+            message,
+            pricing!,
+            payment,
+            { ...settled, amount: unused },
+            'Unused range authorization'
+          );
+          if (refund.success) {
+            settled = { ...settled, amount: charge };
+          }
+        }
+
+        receipt = this.issueReceipt(message, payment, settled, result.data);
+      }
+
+      // Success response
+      const response = A2AProtocol.createA2AResponse(message.id, true, result.data);
+      return receipt ? { ...response, receipt } : response;
+    } catch (error) {
+      // Handlers commonly throw when their signal aborts
+      if (signal?.aborted) {
+        return await stopped();
+      }
+
+      logger.error(`Error executing handler for intent: ${message.intent}`, error);
+      this.emit(AgentEvent.ERROR, { error, messageId: message.id });
+
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+
+      // A settled payment is refunded and reported instead of surfacing a bare 500
+      if (settled) {
+        const refund = await this.refundIntentPayment(message, pricing!, payment!, settled, reason);
+        return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: 'HANDLER_ERROR',
+          message: reason,
+          details: { intent: message.intent, refund },
+        });
+      }
+
+      throw new IntentHandlerError(message.intent, reason);
+    } finally {
+      // A payment that was never settled charged nothing
+      if (payment && !settled) {
+        this.releaseSpend(payment, payment.verified.amount);
+      }
+    }
+  }
+
+  /**
+   * Create a task for a message to an async intent, run the handler in the
+   * background and respond 202 with the submitted task
+   */
+  private startTask(
+    message: A2AMessage,
+    handler: IntentHandler,
+    execution: IntentExecution,
+    release: () => void
+  ): A2AResponse {
+    const task = this.tasks.create(message);
+    this.emit(AgentEvent.TASK_UPDATED, task);
+
+    const hooks: TaskHooks = {
+      taskId: task.id,
+      signal: this.tasks.getSignal(task.id),
+      reportProgress: (progress) => {
+        const updated = this.tasks.progress(task.id, progress);
+        if (updated) {
+          this.emit(AgentEvent.TASK_UPDATED, updated);
+        }
+      },
+    };
+
+    void this.runTask(message, handler, execution, hooks, release);
+
+    return { ...A2AProtocol.createA2AResponse(message.id, true, task), status: 202 };
+  }
+
+  /**
+   * Run a task to completion and push its result to the sender
+   */
+  private async runTask(
+    message: A2AMessage,
+    handler: IntentHandler,
+    execution: IntentExecution,
+    hooks: TaskHooks,
+    release: () => void
+  ): Promise<void> {
+    const taskId = hooks.taskId!;
+    const working = this.tasks.start(taskId);
+    if (working) {
+      this.emit(AgentEvent.TASK_UPDATED, working);
+    }
+
+    let response: A2AResponse;
+    try {
+      response = await this.executeIntent(message, handler, execution, hooks);
+    } catch (error) {
+      response = A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: error instanceof UACPError ? error.code : 'HANDLER_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      release();
+    }
+
+    // Undefined when the task was canceled while running
+    const task = this.tasks.finish(taskId, response);
+    if (!task) return;
+
+    logger.debug(`Task ${task.state}: ${task.id}`, { intent: task.intent });
+    this.emit(AgentEvent.TASK_UPDATED, task);
+    await this.pushTaskResult(message, task);
+  }
+
+  /**
+   * Send a finished task back to the sender's /a2a as a RESPONSE message
+   */
+  private async pushTaskResult(message: A2AMessage, task: AgentTask): Promise<void> {
+    try {
+      await this.sendMessage({
+        recipient: message.sender,
+        intent: message.intent,
+        task,
+        correlationId: message.id,
+        type: MessageType.RESPONSE,
+      });
+    } catch (error) {
+      logger.warn(`Failed to push result of task ${task.id} to ${message.sender}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Accept a task result pushed by the agent that ran the task
+   */
+  private handleTaskResult(message: A2AMessage, task: AgentTask): A2AResponse {
+    if (
+      task.sender !== this.agentCard.id ||
+      task.recipient !== message.sender ||
+      task.messageId !== message.correlationId
+    ) {
+      const error = new MessageValidationError('Task result does not match its message');
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: error.code,
+        message: error.message,
+      });
+    }
+
+    logger.debug(`Task result received: ${task.id}`, { state: task.state });
+    this.emit(AgentEvent.TASK_RESULT, task);
+    return A2AProtocol.createA2AResponse(message.id, true);
+  }
+
+  /**
+   * Open a stream for a streaming intent, through the same rate limits,
+   * capability tokens and middleware as messages. Middleware sees the response
+   * accepting the stream and may answer in its place.
+   */
+  private async handleStream(
+    message: A2AMessage,
+    inbound: InboundDetails
+  ): Promise<
+    | { response: A2AResponse }
+    | { frames: AsyncIterable<EventStreamFrame>; rateLimit?: RateLimitStatus }
+  > {
+    const options = this.intentOptions.get(message.intent);
+    const limited = await this.limitRate(message, options, inbound.signer);
+    if ('response' in limited) {
+      return { response: limited.response };
+    }
+    const delegated = await this.verifyDelegation(message, inbound.signer);
+    if ('response' in delegated) {
+      return { response: delegated.response };
+    }
+
+    // Streams stop at the caller's deadline or when it disconnects
+    const stop = createDeadlineSignal(inbound.deadline, [inbound.signal]);
+    const ctx = this.createInboundContext(message, inbound, stop.signal, delegated.delegation);
+    const middleware = [...this.middleware, ...(options?.middleware || [])];
+
+    const accepted = A2AProtocol.createA2AResponse(message.id, true);
+    const opening: { stream?: OpenedStream } = {};
+    let response: A2AResponse;
+    try {
+      response = await runMiddleware(middleware, ctx, async () => {
+        const opened = await this.openStream(message, ctx.context, stop.dispose);
+        if ('response' in opened) {
+          return opened.response;
+        }
+        opening.stream = opened;
+        return accepted;
+      });
+    } catch (error) {
+      opening.stream?.close();
+      stop.dispose();
+      throw error;
+    }
+
+    if (!opening.stream || response !== accepted) {
+      opening.stream?.close();
+      stop.dispose();
+      return { response: limited.status ? { ...response, rateLimit: limited.status } : response };
+    }
+    return { frames: opening.stream.frames, rateLimit: limited.status };
+  }
+
+  /**
+   * Check a stream request against the access policy and input schema, then
+   * take a queue slot and claim the message id. The slot is held until the
+   * stream ends or is closed.
+   */
+  private async openStream(
+    message: A2AMessage,
+    context: MessageContext,
+    dispose: () => void
+  ): Promise<{ response: A2AResponse } | OpenedStream> {
+    // Streams are never priced
+    const denied = await this.authorize(message, false, context.delegation);
+    if (denied) {
+      return { response: denied };
+    }
+
+    const handler = this.streamHandlers.get(message.intent);
+    if (!handler) {
+      logger.warn(`No stream handler found for intent: ${message.intent}`);
+      return {
+        response: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: 'INTENT_NOT_FOUND',
+          message: `No stream handler registered for intent: ${message.intent}`,
+        }),
+      };
+    }
+
+    const options = this.intentOptions.get(message.intent);
+    let task = message.task;
+    if (options?.inputSchema) {
+      const parsed = safeValidate<Record<string, unknown>>(options.inputSchema, message.task);
+      if (!parsed.success) {
+        const error = new MessageValidationError(
+          `Invalid task for intent: ${message.intent}`,
+          parsed.errors
+        );
+        return {
+          response: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          }),
+        };
+      }
+      task = parsed.data;
+    }
+
+    const admitted = await this.admit(message, options);
+    if ('response' in admitted) {
+      return admitted;
+    }
+
+    // The deadline may have passed while the stream waited for a slot
+    if (context.deadline !== undefined && Date.now() >= context.deadline) {
+      admitted.release();
+      return {
+        response: A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: 'DEADLINE_EXCEEDED',
+          message: 'Deadline exceeded before the stream started',
+        }),
+      };
+    }
+
+    // Streams cannot be replayed from cache, so duplicates are refused
+    if (this.replayGuard && !(await this.replayGuard.claim(message, context.signer))) {
+      admitted.release();
+      const response = A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: 'DUPLICATE_MESSAGE',
+        message: 'Message was already handled',
+      });
+      return { response: { ...response, status: 409 } };
+    }
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      admitted.release();
+      dispose();
+    };
+    return { frames: this.runStream(message, handler, task, context, close), close };
+  }
+
+  /**
+   * Run a streaming handler as frames: one per chunk it yields, then `done`, or
+   * an `error`. Stops at the deadline or when the caller disconnects, returning
+   * the handler's generator so its cleanup runs.
+   */
+  private async *runStream(
+    message: A2AMessage,
+    handler: StreamIntentHandler,
+    task: Record<string, unknown>,
+    context: MessageContext,
+    close: () => void
+  ): AsyncGenerator<EventStreamFrame> {
+    const signal = context.signal!;
+    const iterator = handler(task, context)[Symbol.asyncIterator]();
+    const stopped = () => {
+      const reason: unknown = signal.reason;
+      return createFrame('error', {
+        code: reason instanceof UACPError ? reason.code : 'STREAM_CANCELED',
+        message: reason instanceof Error ? reason.message : 'Stream was canceled',
+      });
+    };
+
+    let finished = false;
+    let chunks = 0;
+    try {
+      while (!signal.aborted) {
+        // Messages the handler sends share the stream's deadline
+        const step = await runWithDeadline(context.deadline, () => iterator.next());
+        if (step.done) {
+          finished = true;
+          break;
+        }
+        if (signal.aborted) break;
+        yield createFrame('chunk', step.value, chunks++);
+      }
+
+      // Handlers that return once stopped still ended early
+      yield finished && !signal.aborted
+        ? createFrame('done', { messageId: message.id, chunks })
+        : stopped();
+    } catch (error) {
+      // A handler that threw has already finished
+      finished = true;
+      if (signal.aborted) {
+        yield stopped();
+      } else {
+        logger.error(`Error streaming intent: ${message.intent}`, error);
+        this.emit(AgentEvent.ERROR, { error, messageId: message.id });
+        yield createFrame('error', {
+          code: error instanceof UACPError ? error.code : 'HANDLER_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          details: error instanceof UACPError ? error.details : undefined,
+        });
+      }
+    } finally {
+      if (!finished) {
+        await iterator.return?.(undefined).catch((error: unknown) => {
+          logger.warn(`Error closing stream handler: ${message.intent}`, error);
+        });
+      }
+      close();
+    }
+  }
+
+  /**
+   * Verify the X-Payment header against the intent's price.
+   * Returns a 402 response when payment is missing or invalid.
+   */
+  private async verifyIntentPayment(
+    message: A2AMessage,
+    pricing: IntentPricing,
+    paymentHeader?: string
+  ): Promise<{ response: A2AResponse } | PendingPayment> {
+    const requirements = await this.getPaymentRequirements(message.intent, pricing);
+    const context = this.getPaymentContext(message);
+
+    if (!paymentHeader) {
+      this.paymentServer!.recordRequirements(requirements, context);
+      this.emit(AgentEvent.PAYMENT_REQUIRED, {
+        messageId: message.id,
+        paymentRequirements: requirements,
+      });
+      return {
+        response: A2AProtocol.createPaymentRequiredResponse(message.id, requirements),
+      };
+    }
+
+    let payload: PaymentPayload;
+    try {
+      payload = decodePaymentHeader(paymentHeader);
+    } catch (error) {
+      return {
+        response: A2AProtocol.createPaymentRequiredResponse(message.id, requirements, {
+          message: error instanceof Error ? error.message : 'Malformed X-Payment header',
+          details: error instanceof UACPError ? error.details : undefined,
+        }),
+      };
+    }
+
+    const verification = await this.paymentServer!.verifyPayment(payload, requirements, context);
+    if (!verification.isValid) {
+      logger.warn(`Payment rejected for intent: ${message.intent}`, {
+        messageId: message.id,
+        reason: verification.invalidReason,
+      });
+      return {
+        response: A2AProtocol.createPaymentRequiredResponse(message.id, requirements, {
+          message: 'Payment verification failed',
+          details: { reason: verification.invalidReason },
+        }),
+      };
+    }
+
+    return {
+      payload,
+      requirements,
+      verified: {
+        payer: verification.payer || payload.payload.authorization.from,
+        amount: payload.payload.authorization.value,
+        asset: requirements.asset,
+        network: requirements.network,
+        scheme: requirements.scheme,
+      },
+    };
+  }
+
+  /**
+   * Amount to charge for a handled message. Range payments charge the handler's
+   * reported usage, capped at the authorized amount.
+   */
+  private getChargeAmount(
+    message: A2AMessage,
+    pricing: IntentPricing,
+    payment: PendingPayment,
+    result: IntentResponse
+  ): string {
+    const authorized = payment.verified.amount;
+    if (pricing.scheme !== 'range' || result.chargeAmount === undefined) {
+      return authorized;
+    }
+
+    if (BigInt(result.chargeAmount) > BigInt(authorized)) {
+      logger.warn(`Charge exceeds authorized amount for intent: ${message.intent}`, {
+        charge: result.chargeAmount,
+        authorized,
+      });
+      return authorized;
+    }
+
+    return result.chargeAmount;
+  }
+
+  /**
+   * Settle a verified payment. Subscription payments grant an entitlement.
+   * Returns an error response when settlement fails.
+   */
+  private async settleIntentPayment(
+    message: A2AMessage,
+    pricing: IntentPricing,
+    payment: PendingPayment,
+    amount: string
+  ): Promise<{ response: A2AResponse } | SettledPayment> {
+    const settlement = await this.paymentServer!.settlePayment(
+      payment.payload,
+      payment.requirements,
+      { amount },
+      this.getPaymentContext(message)
+    );
+
+    if (!settlement.success) {
+      logger.warn(`Payment settlement failed for intent: ${message.intent}`, settlement);
+      return {
+        response: A2AProtocol.createPaymentRequiredResponse(message.id, payment.requirements, {
+          message: 'Payment settlement failed',
+          details: { reason: settlement.errorReason },
+        }),
+      };
+    }
+
+    if (pricing.scheme === 'subscription') {
+      const now = Date.now();
+      await this.subscriptions.put({
+        subscriber: message.sender,
+        scope: this.getSubscriptionScope(message.intent, pricing),
+        payer: payment.verified.payer,
+        amount,
+        asset: payment.verified.asset,
+        network: payment.verified.network,
+        startedAt: now,
+        expiresAt: now + getSubscriptionPeriod(payment.requirements) * 1000,
+        transaction: settlement.transaction,
+      });
+    }
+
+    const settled = { amount: settlement.amount ?? amount, transaction: settlement.transaction };
+    this.releaseSpend(payment, BigInt(payment.verified.amount) - BigInt(settled.amount));
+
+    this.emit(AgentEvent.PAYMENT_COMPLETED, {
+      messageId: message.id,
+      intent: message.intent,
+      payer: payment.verified.payer,
+      amount: settled.amount,
+      asset: payment.verified.asset,
+      network: payment.verified.network,
+      scheme: payment.verified.scheme,
+      transaction: settled.transaction,
+    });
+
+    return settled;
+  }
+
+  /**
+   * Give back to the capability token a payment counts against the part of it
+   * that was not charged
+   */
+  private releaseSpend(payment: PendingPayment, amount: bigint | string): void {
+    if (payment.delegation && BigInt(amount) > 0n) {
+      this.delegations.release(payment.delegation, amount.toString());
+    }
+  }
+
+  /**
+   * Send a settled payment (or part of it) back to the payer. A refunded
+   * subscription payment also revokes its entitlement.
+   */
+  private async refundIntentPayment(
+    message: A2AMessage,
+    pricing: IntentPricing,
+    payment: PendingPayment,
+    settled: SettledPayment,
+    reason = 'Handler execution failed'
+  ): Promise<RefundResponse> {
+    const refund = await this.paymentServer!.refundPayment(
+      {
+        payer: payment.verified.payer,
+        payTo: payment.requirements.payTo,
+        amount: settled.amount,
+        asset: payment.verified.asset,
+        network: payment.verified.network,
+        transaction: settled.transaction,
+        reason,
+      },
+      this.getPaymentContext(message)
+    );
+
+    if (!refund.success) {
+      logger.error(`Refund failed for intent: ${message.intent}`, {
+        messageId: message.id,
+        payer: payment.verified.payer,
+        reason: refund.errorReason,
+      });
+      return refund;
+    }
+
+    this.releaseSpend(payment, refund.amount);
+
+    if (pricing.scheme === 'subscription') {
+      await this.subscriptions.delete(
+        message.sender,
+        this.getSubscriptionScope(message.intent, pricing)
+      );
+    }
+
+    this.emit(AgentEvent.PAYMENT_REFUNDED, {
+      messageId: message.id,
+      intent: message.intent,
+      payer: payment.verified.payer,
+      amount: refund.amount,
+      asset: payment.verified.asset,
+      network: payment.verified.network,
+      transaction: refund.transaction,
+      reason,
+    });
+
+    return refund;
+  }
+
+  /**
+   * Sign a receipt for a settled payment (requires the agent wallet)
+   */
+  private issueReceipt(
+    message: A2AMessage,
+    payment: PendingPayment,
+    settled: SettledPayment,
+    data: unknown
+  ): PaymentReceipt | undefined {
+    if (!this.wallet) {
+      return undefined;
+    }
+
+    const receipt = signPaymentReceipt(
+      {
+        messageId: message.id,
+        intent: message.intent,
+        payer: payment.verified.payer,
+        payee: this.agentCard.id,
+        payTo: payment.requirements.payTo,
+        amount: settled.amount,
+        asset: payment.verified.asset,
+        network: payment.verified.network,
+        scheme: payment.verified.scheme,
+        transaction: settled.transaction,
+        resultHash: hashResult(data),
+      },
+      this.wallet
+    );
+
+    const entry = this.paymentLedger.latest({
+      direction: 'inbound',
+      messageId: message.id,
+      status: 'settled',
+    });
+    if (entry) {
+      this.paymentLedger.update(entry.id, { receipt });
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Ledger context of an inbound paid message
+   */
+  private getPaymentContext(message: A2AMessage): PaymentContext {
+    return {
+      messageId: message.id,
+      intent: message.intent,
+      sender: message.sender,
+      recipient: this.agentCard.id,
+    };
+  }
+
+  /**
+   * Subscription scope of an intent (intents sharing a scope share entitlements)
+   */
+  private getSubscriptionScope(intent: string, pricing: IntentPricing): string {
+    return pricing.scope || intent;
+  }
+
+  /**
+   * Payment requirements for a priced intent (created once per intent)
+   */
+  private async getPaymentRequirements(
+    intent: string,
+    pricing: IntentPricing
+  ): Promise<PaymentRequirements> {
+    let requirements = this.paymentRequirements.get(intent);
+    if (!requirements) {
+      requirements = await this.paymentServer!.createPaymentRequirements({
+        amount: pricing.amount,
+        minAmount: pricing.scheme === 'range' ? pricing.minAmount : undefined,
+        scheme: pricing.scheme,
+        network: pricing.network,
+        asset: pricing.asset,
+        payTo: pricing.payTo,
+        resource: `${this.agentCard.endpoint}/a2a/${intent}`,
+        description: pricing.description || `Payment for ${intent}`,
+        extra: {
+          ...pricing.extra,
+          ...(pricing.scheme === 'subscription' && {
+            period: pricing.period,
+            scope: this.getSubscriptionScope(intent, pricing),
+          }),
+        },
+      });
+      this.paymentRequirements.set(intent, requirements);
+    }
+    return requirements;
+  }
+
+  /**
+   * Add middleware around the handling of every inbound message. Middleware
+   * runs in the order added, before the middleware of the message's intent.
+   */
+  use(middleware: InboundMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Add middleware around every message this agent sends
+   */
+  useOutbound(middleware: OutboundMiddleware): void {
+    this.router.use(middleware);
+  }
+
+  /**
+   * Register an intent handler. With an input schema the handler receives the
+   * parsed (typed) task; schemas are published on the agent card as JSON Schema.
+   */
+  onIntent<TInput extends z.ZodTypeAny = z.ZodType<Record<string, unknown>>>(
+    intent: string,
+    handler: IntentHandler<z.infer<TInput>>,
+    options: IntentOptions<TInput> = {}
+  ): void {
+    if (options.pricing?.scheme === 'subscription' && !options.pricing.period) {
+      throw new AgentInitializationError(`Subscription pricing for ${intent} requires a period`);
+    }
+
+    this.intentHandlers.set(intent, handler as IntentHandler);
+    this.streamHandlers.delete(intent);
+    this.intentOptions.set(intent, options);
+    this.paymentRequirements.delete(intent);
+    this.publishIntent(intent, options);
+
+    if (options.pricing && !this.paymentServer) {
+      this.paymentServer = new UACPPaymentServer(this.config.x402);
+      this.paymentServer.setLedger(this.paymentLedger);
+    }
+
+    logger.debug(`Intent handler registered: ${intent}`, options.pricing && {
+      price: options.pricing.amount,
+    });
+  }
+
+  /**
+   * Register a streaming intent handler, served from `/a2a/stream`. Each value
+   * the handler yields is sent to the client as a chunk.
+   */
+  onIntentStream<
+    TInput extends z.ZodTypeAny = z.ZodType<Record<string, unknown>>,
+    TChunk = unknown,
+  >(
+    intent: string,
+    handler: StreamIntentHandler<z.infer<TInput>, TChunk>,
+    options: StreamIntentOptions<TInput> = {}
+  ): void {
+    this.streamHandlers.set(intent, handler as StreamIntentHandler);
+    this.intentHandlers.delete(intent);
+    this.intentOptions.set(intent, options);
+    this.paymentRequirements.delete(intent);
+    this.publishIntent(intent, options, true);
+
+    logger.debug(`Stream handler registered: ${intent}`);
+  }
+
+  /**
+   * Describe an intent on the agent card (only when it streams or declares a
+   * description or schemas)
+   */
+  private publishIntent(intent: string, options: IntentOptions, streaming = false): void {
+    const intents = { ...this.agentCard.intents };
+    delete intents[intent];
+
+    if (streaming || options.description || options.inputSchema || options.outputSchema) {
+      intents[intent] = {
+        description: options.description,
+        inputSchema: options.inputSchema && toJSONSchema(options.inputSchema),
+        outputSchema: options.outputSchema && toJSONSchema(options.outputSchema),
+        ...(streaming && { streaming }),
+      };
+    }
+
+    this.agentCard.intents = Object.keys(intents).length > 0 ? intents : undefined;
+    this.agentCard.updatedAt = Date.now();
+  }
+
+  /**
+   * Send a message to another agent
+   */
+  async sendMessage(
+    params: CreateMessageParams,
+    options?: SendMessageOptions
+  ): Promise<A2AResponse> {
+    const message = this.protocol.createMessage(params);
+
+    logger.debug('Sending message', {
+      messageId: message.id,
+      recipient: message.recipient,
+      intent: message.intent,
+    });
+
+    this.emit(AgentEvent.MESSAGE_SENT, message);
+
+    const response = await this.router.sendMessage(message, options);
+
+    return response;
+  }
+
+  /**
+   * Send an EVENT message, over an open WebSocket link when there is one
+   */
+  async sendEvent(
+    recipient: string,
+    intent: string,
+    data: Record<string, unknown>,
+    options?: SendMessageOptions
+  ): Promise<A2AResponse> {
+    return this.sendMessage({ recipient, intent, task: data, type: MessageType.EVENT }, options);
+  }
+
+  /**
+   * Declare a topic other agents can subscribe to, published on the card
+   */
+  defineTopic<TData extends z.ZodTypeAny = z.ZodType<Record<string, unknown>>>(
+    topic: string,
+    options: TopicOptions<TData> = {}
+  ): void {
+    if (options.schema) {
+      this.topicSchemas.set(topic, options.schema);
+    } else {
+      this.topicSchemas.delete(topic);
+    }
+
+    this.agentCard.topics = {
+      ...this.agentCard.topics,
+      [topic]: {
+        description: options.description,
+        schema: options.schema && toJSONSchema(options.schema),
+      },
+    };
+    this.agentCard.updatedAt = Date.now();
+  }
+
+  /**
+   * Send an event to every subscriber of a topic. Deliveries that fail are
+   * retried in the background.
+   */
+  async publish(topic: string, data: Record<string, unknown>): Promise<PublishResult> {
+    if (!this.agentCard.topics?.[topic]) {
+      throw new UACPError(`Topic not defined: ${topic}`, 'TOPIC_NOT_FOUND', { topic });
+    }
+
+    const schema = this.topicSchemas.get(topic);
+    const task = schema ? validate<Record<string, unknown>>(schema, data) : data;
+
+    const result = await this.topicPublisher.publish(topic, (subscriber) =>
+      this.protocol.createMessage({
+        recipient: subscriber,
+        intent: topic,
+        task,
+        type: MessageType.EVENT,
+      })
+    );
+    logger.debug(`Published ${topic}`, result);
+    return result;
+  }
+
+  /**
+   * Subscribe to a topic of another agent. Subscriptions are kept by the
+   * publisher; call again after a restart to reattach the handler.
+   */
+  async subscribe<TData = Record<string, unknown>>(
+    agentId: string,
+    topic: string,
+    handler: TopicHandler<TData>
+  ): Promise<void> {
+    const publisher = await this.registry.getAgent(agentId);
+    if (!publisher.topics?.[topic]) {
+      throw new UACPError(`${agentId} does not publish topic: ${topic}`, 'TOPIC_NOT_FOUND', {
+        agentId,
+        topic,
+      });
+    }
+
+    // Attach first, so events sent right after the subscription is accepted are handled
+    const key = `${agentId}:${topic}`;
+    this.topicHandlers.set(key, handler as TopicHandler);
+
+    const response = await this.sendMessage({
+      recipient: agentId,
+      intent: SUBSCRIBE_INTENT,
+      task: { topic },
+    });
+    if (!response.success) {
+      this.topicHandlers.delete(key);
+      throw new UACPError(
+        response.error?.message || `Subscription to ${topic} was rejected`,
+        response.error?.code || 'SUBSCRIPTION_REJECTED',
+        response.error?.details
+      );
+    }
+  }
+
+  /**
+   * Unsubscribe from a topic of another agent
+   */
+  async unsubscribe(agentId: string, topic: string): Promise<void> {
+    this.topicHandlers.delete(`${agentId}:${topic}`);
+    await this.sendMessage({ recipient: agentId, intent: UNSUBSCRIBE_INTENT, task: { topic } });
+  }
+
+  /**
+   * Agents subscribed to one of this agent's topics
+   */
+  getSubscribers(topic: string): Promise<string[]> {
+    return this.topicPublisher.subscribers(topic);
+  }
+
+  /**
+   * Outbox of messages that failed to send, when `config.outbox` is set
+   */
+  getOutbox(): Outbox | undefined {
+    return this.router.getOutbox();
+  }
+
+  /**
+   * Access policy, if one is configured: replace its rules or read its audit log
+   */
+  getPolicy(): PolicyEngine | undefined {
+    return this.policy;
+  }
+
+  /**
+   * Issue a capability token letting `audience` call intents on `resource` on
+   * this agent's behalf, or pass on a narrower part of a received token (`proof`).
+   * Senders attach it to messages as `metadata.delegation`.
+   */
+  delegate(params: DelegationParams): CapabilityToken {
+    if (!this.wallet) {
+      throw new UACPError('Issuing capability tokens requires walletPrivateKey', 'NO_WALLET');
+    }
+    return issueCapabilityToken(this.wallet, this.agentCard.id, params);
+  }
+
+  /**
+   * Revoke a capability token accepted by this agent, along with every token
+   * delegated from it
+   */
+  async revokeDelegation(id: string): Promise<void> {
+    await this.delegations.revocations.revoke(id);
+    logger.info(`Revoked capability token: ${id}`);
+  }
+
+  /**
+   * Load of the inbound queue
+   */
+  getQueueStats(): QueueStats {
+    return this.inboundQueue.stats();
+  }
+
+  /**
+   * Switch the card status to BUSY while every inbound slot is taken, and back
+   * to ONLINE once one frees up
+   */
+  private setBusy(busy: boolean): void {
+    const status = busy ? AgentStatus.BUSY : AgentStatus.ONLINE;
+    if (this.agentCard.status !== (busy ? AgentStatus.ONLINE : AgentStatus.BUSY)) return;
+
+    this.agentCard.status = status;
+    this.agentCard.updatedAt = Date.now();
+    logger.debug(`Agent status: ${status}`);
+    this.registry.updateAgentStatus(this.agentCard.id, status).catch((error: unknown) => {
+      logger.debug('Failed to update agent status in registry', error);
+    });
+    this.emit(AgentEvent.STATUS_CHANGED, { agentId: this.agentCard.id, status });
+  }
+
+  /**
+   * Refuse a message that acts as its sender DID without a verified signature,
+   * since sender DIDs alone can be spoofed
+   */
+  private requireSigner(
+    message: A2AMessage,
+    signer: string | undefined,
+    kind: string
+  ): A2AResponse | undefined {
+    if (signer) {
+      return undefined;
+    }
+
+    const error = new SignatureVerificationError(`${kind} must be signed by the sender`);
+    logger.warn(`Rejected unsigned ${message.intent} from ${message.sender}`, {
+      messageId: message.id,
+    });
+    return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+      code: error.code,
+      message: error.message,
+    });
+  }
+
+  /**
+   * Add or remove the sender's subscription to one of this agent's topics
+   */
+  private async handleSubscription(message: A2AMessage): Promise<A2AResponse> {
+    const parsed = safeValidate(z.object({ topic: z.string() }), message.task);
+    if (!parsed.success) {
+      const error = new MessageValidationError('Invalid subscription request', parsed.errors);
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+      });
+    }
+
+    const { topic } = parsed.data;
+    if (!this.agentCard.topics?.[topic]) {
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: 'TOPIC_NOT_FOUND',
+        message: `Topic not found: ${topic}`,
+      });
+    }
+
+    const subscribed = message.intent === SUBSCRIBE_INTENT;
+    if (subscribed) {
+      await this.topicPublisher.subscribe(message.sender, topic);
+    } else {
+      await this.topicPublisher.unsubscribe(message.sender, topic);
+    }
+    return A2AProtocol.createA2AResponse(message.id, true, { topic, subscribed });
+  }
+
+  /**
+   * Run the handler of a subscribed topic. Failures ask the publisher to
+   * deliver the event again, so they are not kept by replay protection.
+   */
+  private async handleTopicEvent(message: A2AMessage, handler: TopicHandler): Promise<A2AResponse> {
+    try {
+      await handler(message.task, message);
+      return A2AProtocol.createA2AResponse(message.id, true);
+    } catch (error) {
+      logger.error(`Topic handler failed for ${message.intent}`, error);
+      return A2AProtocol.createA2AResponse(message.id, false, undefined, {
+        code: 'EVENT_NOT_HANDLED',
+        message: error instanceof Error ? error.message : 'Topic handler failed',
+      });
+    }
+  }
+
+  /**
+   * Send a message to a streaming intent of another agent and iterate over its chunks
+   */
+  streamMessage<T = unknown>(
+    params: CreateMessageParams,
+    options?: StreamMessageOptions
+  ): AsyncGenerator<T> {
+    const message = this.protocol.createMessage(params);
+
+    logger.debug('Streaming message', {
+      messageId: message.id,
+      recipient: message.recipient,
+      intent: message.intent,
+    });
+
+    this.emit(AgentEvent.MESSAGE_SENT, message);
+
+    return this.router.streamMessage<T>(message, options);
+  }
+
+  /**
+   * Get the state of a task running on another agent
+   */
+  async getTask(agentId: string, taskId: string): Promise<AgentTask> {
+    return this.router.getTask(agentId, taskId, this.agentCard.id);
+  }
+
+  /**
+   * Cancel a task running on another agent
+   */
+  async cancelTask(agentId: string, taskId: string): Promise<AgentTask> {
+    const task = await this.router.cancelTask(agentId, taskId, this.agentCard.id);
+    this.emit(AgentEvent.TASK_RESULT, task);
+    return task;
+  }
+
+  /**
+   * Wait for a task on another agent to finish, using the pushed result or
+   * polling `GET /tasks/:id` as a fallback
+   */
+  async waitForTask(
+    agentId: string,
+    taskId: string,
+    options: { timeout?: number; pollInterval?: number } = {}
+  ): Promise<AgentTask> {
+    const { timeout = 5 * 60 * 1000, pollInterval = 5000 } = options;
+
+    return new Promise((resolve, reject) => {
+      const finish = (task?: AgentTask, error?: Error) => {
+        clearTimeout(timer);
+        clearInterval(poller);
+        this.off(AgentEvent.TASK_RESULT, onResult);
+        if (task) resolve(task);
+        else reject(error);
+      };
+
+      const onResult = (task: AgentTask) => {
+        if (task.id === taskId && isTerminalTaskState(task.state)) {
+          finish(task);
+        }
+      };
+
+      const poll = async () => {
+        try {
+          onResult(await this.getTask(agentId, taskId));
+        } catch (error) {
+          logger.debug(`Failed to poll task ${taskId}`, error);
+        }
+      };
+
+      this.on(AgentEvent.TASK_RESULT, onResult);
+      const poller = setInterval(poll, pollInterval);
+      const timer = setTimeout(
+        () => finish(undefined, new TimeoutError(`Task ${taskId} did not finish`, timeout)),
+        timeout
+      );
+      void poll();
+    });
+  }
+
+  private async closeServers(): Promise<void> {
+    const servers = this.servers.splice(0);
+    await Promise.all(servers.map((server) => server.close()));
+    if (servers.length > 0) {
+      logger.info('Server closed');
+    }
+  }
+
+  /**
+   * Shutdown the agent
+   */
+  async shutdown(): Promise<void> {
+    logger.info('Shutting down agent...');
+
+    // Update status
+    this.agentCard.status = AgentStatus.OFFLINE;
+
+    // Stop retrying topic deliveries, turn away queued messages and close
+    // WebSocket links, which would otherwise keep the server open
+    this.topicPublisher.close();
+    this.inboundQueue.close();
+    this.policy?.close();
+    this.router.close();
+    this.webSocketServer?.close();
+
+    // Close servers
+    await this.closeServers();
+
+    // Unregister from registry
+    try {
+      await this.registry.unregisterAgent(this.agentCard.id);
+    } catch (error) {
+      logger.warn('Failed to unregister agent', error);
+    }
+
+    this.emit(AgentEvent.SHUTDOWN, { agentId: this.agentCard.id });
+    logger.info('Agent shutdown complete');
+  }
+
+  /**
+   * Event emitter methods
+   */
+  on(event: string, handler: (...args: any[]) => void): void {
+    this.eventEmitter.on(event, handler);
+  }
+
+  once(event: string, handler: (...args: any[]) => void): void {
+    this.eventEmitter.once(event, handler);
+  }
+
+  off(event: string, handler: (...args: any[]) => void): void {
+    this.eventEmitter.off(event, handler);
+  }
+
+  emit(event: string, data?: any): void {
+    this.eventEmitter.emit(event, data);
+  }
+
+  /**
+   * Get agent card
+   */
+  getAgentCard(): AgentCard {
+    return { ...this.agentCard };
+  }
+
+  /**
+   * Get registry instance
+   */
+  getRegistry(): AgentRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get router instance
    */
   getRouter(): MessageRouter {
     return this.router;
   }
 
+  /**
+   * Get the ledger of payments received and made by this agent
+   */
+  getPaymentLedger(): PaymentLedger {
+    return this.paymentLedger;
+  }
+
   /**
    * Check if agent is initialized
    */
@@ -0,0 +1,386 @@
+import { createHmac, createSign, createVerify, timingSafeEqual } from 'crypto';
+import { AgentCard, AuthPrincipal } from './types/agent.js';
+import { AuthenticationError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Auth' });
+
+/**
+ * Supported JWT signing algorithms
+ */
+export type JWTAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'ES256' | 'ES384';
+
+/**
+ * Inbound request data available to authenticators
+ */
+export interface AuthRequest {
+  agentId: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Pluggable inbound authenticator
+ */
+export interface InboundAuthenticator {
+  authenticate(request: AuthRequest): Promise<AuthPrincipal>;
+}
+
+/**
+ * JWT verification options
+ */
+export interface JWTVerifyOptions {
+  secret?: string;
+  publicKey?: string;
+  algorithms?: JWTAlgorithm[];
+  issuer?: string;
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Inbound authentication configuration for an agent
+ */
+export interface InboundAuthConfig {
+  authenticator?: InboundAuthenticator;
+  bearerTokens?: string[] | Record<string, string>; // Accepted tokens, or tokens mapped to their subject
+  jwt?: JWTVerifyOptions;
+  introspect?: (token: string) => Promise<AuthPrincipal | null>;
+}
+
+/**
+ * Outbound credentials used by the router, selected by the recipient's auth type
+ */
+export interface OutboundCredentials {
+  bearerTokens?: Record<string, string>;
+  defaultBearerToken?: string;
+  jwt?: {
+    algorithm: JWTAlgorithm;
+    secret?: string;
+    privateKey?: string;
+    expiresIn?: number; // Seconds
+  };
+  oauthTokenProvider?: (recipient: AgentCard) => Promise<string>;
+}
+
+const HMAC_ALGORITHMS: Record<string, string> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+};
+
+const EC_ALGORITHMS: Record<string, string> = {
+  ES256: 'sha256',
+  ES384: 'sha384',
+};
+
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function base64UrlDecode(input: string): Buffer {
+  return Buffer.from(input, 'base64url');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export function extractBearerToken(
+  headers: Record<string, string | string[] | undefined>
+): string | undefined {
+  const header = headers['authorization'];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
+
+  const match = /^Bearer\s+(.+)$/i.exec(value.trim());
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Sign a JWT with an HMAC secret or an EC private key
+ */
+export function signJWT(
+  claims: Record<string, unknown>,
+  options: { algorithm: JWTAlgorithm; secret?: string; privateKey?: string }
+): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: options.algorithm, typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signingInput = `${header}.${payload}`;
+
+  let signature: Buffer;
+  if (HMAC_ALGORITHMS[options.algorithm]) {
+    if (!options.secret) {
+      throw new AuthenticationError(`Secret required for ${options.algorithm}`);
+    }
+    signature = createHmac(HMAC_ALGORITHMS[options.algorithm], options.secret)
+      .update(signingInput)
+      .digest();
+  } else {
+    if (!options.privateKey) {
+      throw new AuthenticationError(`Private key required for ${options.algorithm}`);
+    }
+    signature = createSign(EC_ALGORITHMS[options.algorithm])
+      .update(signingInput)
+      .sign({ key: options.privateKey, dsaEncoding: 'ieee-p1363' });
+  }
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Verify a JWT and return its claims
+ */
+export function verifyJWT(
+  token: string,
+  options: JWTVerifyOptions & { audience?: string }
+): Record<string, unknown> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthenticationError('Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  let header: { alg?: string };
+  let claims: Record<string, unknown>;
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8'));
+    claims = JSON.parse(base64UrlDecode(encodedPayload).toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Malformed JWT');
+  }
+  if (!isObject(header) || !isObject(claims)) {
+    throw new AuthenticationError('Malformed JWT');
+  }
+
+  const algorithm = header.alg as JWTAlgorithm;
+  const allowed = options.algorithms || (options.secret ? ['HS256'] : ['ES256']);
+  if (!algorithm || !allowed.includes(algorithm)) {
+    throw new AuthenticationError(`JWT algorithm not allowed: ${header.alg}`);
+  }
+
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = base64UrlDecode(encodedSignature);
+
+  let valid = false;
+  if (HMAC_ALGORITHMS[algorithm]) {
+    if (!options.secret) {
+      throw new AuthenticationError(`No secret configured for ${algorithm}`);
+    }
+    const expected = createHmac(HMAC_ALGORITHMS[algorithm], options.secret)
+      .update(signingInput)
+      .digest();
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+  } else if (EC_ALGORITHMS[algorithm]) {
+    if (!options.publicKey) {
+      throw new AuthenticationError(`No public key configured for ${algorithm}`);
+    }
+    valid = createVerify(EC_ALGORITHMS[algorithm])
+      .update(signingInput)
+      .verify({ key: options.publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+  }
+
+  if (!valid) {
+    throw new AuthenticationError('Invalid JWT signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 30;
+
+  if (typeof claims.exp !== 'number') {
+    throw new AuthenticationError('JWT is missing exp claim');
+  }
+  if (now - tolerance >= claims.exp) {
+    throw new AuthenticationError('JWT has expired');
+  }
+  if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+    throw new AuthenticationError('JWT is not yet valid');
+  }
+
+  if (options.audience) {
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audience.includes(options.audience)) {
+      throw new AuthenticationError(`JWT audience mismatch: expected ${options.audience}`);
+    }
+  }
+
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthenticationError(`JWT issuer mismatch: expected ${options.issuer}`);
+  }
+
+  return claims;
+}
+
+/**
+ * Accepts a fixed set of bearer tokens. A token only identifies a subject when
+ * it is mapped to one; headers sent with it are not trusted to.
+ */
+export class BearerTokenAuthenticator implements InboundAuthenticator {
+  private tokens: Array<{ token: Buffer; subject?: string }>;
+
+  constructor(tokens: string[] | Record<string, string>) {
+    const entries = Array.isArray(tokens)
+      ? tokens.map((token) => ({ token: Buffer.from(token) }))
+      : Object.entries(tokens).map(([token, subject]) => ({ token: Buffer.from(token), subject }));
+    if (entries.length === 0) {
+      throw new AuthenticationError('At least one bearer token is required');
+    }
+    this.tokens = entries;
+  }
+
+  async authenticate(request: AuthRequest): Promise<AuthPrincipal> {
+    const token = extractBearerToken(request.headers);
+    if (!token) {
+      throw new AuthenticationError('Missing bearer token');
+    }
+
+    const candidate = Buffer.from(token);
+    const match = this.tokens.find(
+      ({ token: expected }) =>
+        expected.length === candidate.length && timingSafeEqual(expected, candidate)
+    );
+    if (!match) {
+      throw new AuthenticationError('Invalid bearer token');
+    }
+
+    return { type: 'bearer', subject: match.subject };
+  }
+}
+
+/**
+ * Verifies JWTs whose audience is the receiving agent's DID
+ */
+export class JWTAuthenticator implements InboundAuthenticator {
+  constructor(private options: JWTVerifyOptions) {
+    if (!options.secret && !options.publicKey) {
+      throw new AuthenticationError('JWT authentication requires a secret or public key');
+    }
+  }
+
+  async authenticate(request: AuthRequest): Promise<AuthPrincipal> {
+    const token = extractBearerToken(request.headers);
+    if (!token) {
+      throw new AuthenticationError('Missing JWT');
+    }
+
+    const claims = verifyJWT(token, { ...this.options, audience: request.agentId });
+
+    return {
+      type: 'jwt',
+      subject: typeof claims.sub === 'string' ? claims.sub : String(claims.iss ?? 'anonymous'),
+      claims,
+      scopes: typeof claims.scope === 'string' ? claims.scope.split(' ') : undefined,
+    };
+  }
+}
+
+/**
+ * Validates OAuth access tokens through an introspection callback
+ */
+export class OAuthAuthenticator implements InboundAuthenticator {
+  constructor(private introspect: (token: string) => Promise<AuthPrincipal | null>) {}
+
+  async authenticate(request: AuthRequest): Promise<AuthPrincipal> {
+    const token = extractBearerToken(request.headers);
+    if (!token) {
+      throw new AuthenticationError('Missing access token');
+    }
+
+    const principal = await this.introspect(token);
+    if (!principal) {
+      throw new AuthenticationError('Invalid or inactive access token');
+    }
+
+    return { ...principal, type: 'oauth' };
+  }
+}
+
+/**
+ * Build the inbound authenticator matching an agent card's auth type
+ */
+export function createInboundAuthenticator(
+  card: Pick<AgentCard, 'id' | 'auth'>,
+  config: InboundAuthConfig = {}
+): InboundAuthenticator | undefined {
+  if (config.authenticator) {
+    return config.authenticator;
+  }
+
+  switch (card.auth.type) {
+    case 'none':
+      return undefined;
+    case 'bearer':
+      return new BearerTokenAuthenticator(config.bearerTokens || []);
+    case 'jwt':
+      if (!config.jwt) {
+        throw new AuthenticationError(`Agent ${card.id} uses jwt auth but no JWT keys configured`);
+      }
+      return new JWTAuthenticator(config.jwt);
+    case 'oauth':
+      if (config.introspect) {
+        return new OAuthAuthenticator(config.introspect);
+      }
+      if (config.jwt) {
+        return new JWTAuthenticator(config.jwt);
+      }
+      throw new AuthenticationError(
+        `Agent ${card.id} uses oauth auth but no introspection or JWT keys configured`
+      );
+  }
+}
+
+/**
+ * Build outbound auth headers for a recipient based on its advertised auth type
+ */
+export async function createOutboundAuthHeaders(
+  recipient: AgentCard,
+  senderId: string,
+  credentials?: OutboundCredentials
+): Promise<Record<string, string>> {
+  if (recipient.auth.type === 'none') {
+    return {};
+  }
+
+  if (!credentials) {
+    logger.warn(`No outbound credentials configured for ${recipient.auth.type} auth`, {
+      recipient: recipient.id,
+    });
+    return {};
+  }
+
+  let token: string | undefined;
+
+  switch (recipient.auth.type) {
+    case 'bearer':
+      token = credentials.bearerTokens?.[recipient.id] ?? credentials.defaultBearerToken;
+      break;
+    case 'jwt':
+      if (credentials.jwt) {
+        const now = Math.floor(Date.now() / 1000);
+        token = signJWT(
+          {
+            iss: senderId,
+            sub: senderId,
+            aud: recipient.id,
+            iat: now,
+            exp: now + (credentials.jwt.expiresIn ?? 300),
+          },
+          credentials.jwt
+        );
+      }
+      break;
+    case 'oauth':
+      if (credentials.oauthTokenProvider) {
+        token = await credentials.oauthTokenProvider(recipient);
+      }
+      break;
+  }
+
+  if (!token) {
+    logger.warn(`No ${recipient.auth.type} credential available for ${recipient.id}`);
+    return {};
+  }
+
+  return { Authorization: `Bearer ${token}` };
+}
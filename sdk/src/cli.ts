@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { codegen } from './codegen.js';
+
+const USAGE = `Usage: uacp codegen <endpoint-url | agent-did> [options]
+
+Options:
+  --registry <url>   HTTP registry used to resolve an agent DID
+  --out <file>       Write the client to a file instead of stdout
+  --class <name>     Name of the generated class
+  --sdk <module>     Module the generated code imports from (default: @uacp/somnia-sdk)`;
+
+function parseArgs(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, flags };
+}
+
+async function main(): Promise<void> {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const [command, source] = positional;
+
+  if (command !== 'codegen' || !source) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const code = await codegen(source, {
+    registry: flags.registry,
+    className: flags.class,
+    sdkImport: flags.sdk,
+  });
+
+  if (flags.out) {
+    await fs.writeFile(flags.out, code);
+    console.error(`Wrote ${flags.out}`);
+  } else {
+    process.stdout.write(code);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,298 @@
+import axios from 'axios';
+import { A2AProtocol } from './a2a.js';
+import { HTTPRegistryClient } from './registry-http.js';
+import { MessageRouter } from './router.js';
+import { AgentCard, AgentCardSchema } from './types/agent.js';
+import { A2AResponse, CreateMessageParams, SendMessageOptions } from './types/message.js';
+import { NetworkError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+import { validate } from './utils/validation.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Codegen' });
+
+type JSONSchema = Record<string, unknown>;
+
+/**
+ * Anything that can send a message - UACPAgent, or a router wrapped with
+ * createRouterSender
+ */
+export interface MessageSender {
+  sendMessage(params: CreateMessageParams, options?: SendMessageOptions): Promise<A2AResponse>;
+}
+
+/**
+ * Where to fetch an agent card from
+ */
+export interface FetchAgentCardOptions {
+  registry?: string | { getAgent(id: string): Promise<AgentCard> }; // Required for DIDs
+  timeout?: number;
+}
+
+/**
+ * Client generation options
+ */
+export interface GenerateClientOptions {
+  className?: string; // Defaults to `<AgentName>Client`
+  sdkImport?: string; // Module the generated code imports from
+}
+
+/**
+ * Wrap a router and protocol so generated clients send through
+ * MessageRouter.sendMessage
+ */
+export function createRouterSender(router: MessageRouter, protocol: A2AProtocol): MessageSender {
+  return {
+    sendMessage: (params, options) => router.sendMessage(protocol.createMessage(params), options),
+  };
+}
+
+/**
+ * Fetch an agent card from an endpoint URL (`GET <endpoint>/card`) or, for an
+ * agent DID, from a registry
+ */
+export async function fetchAgentCard(
+  source: string,
+  options: FetchAgentCardOptions = {}
+): Promise<AgentCard> {
+  const { registry, timeout = 5000 } = options;
+
+  if (/^https?:\/\//.test(source)) {
+    const url = `${source.replace(/\/$/, '')}/card`;
+    try {
+      const response = await axios.get(url, { timeout });
+      return validate(AgentCardSchema, response.data);
+    } catch (error) {
+      logger.error(`Failed to fetch agent card: ${url}`, error);
+      throw new NetworkError(
+        `Failed to fetch agent card: ${error instanceof Error ? error.message : String(error)}`,
+        { url }
+      );
+    }
+  }
+
+  if (!registry) {
+    throw new NetworkError(`A registry is required to resolve ${source}`, { agentId: source });
+  }
+
+  const client = typeof registry === 'string' ? new HTTPRegistryClient(registry) : registry;
+  return client.getAgent(source);
+}
+
+/**
+ * Generate the source of a TypeScript client with one typed method per intent
+ * published on the card
+ */
+export function generateClient(card: AgentCard, options: GenerateClientOptions = {}): string {
+  const { sdkImport = '@uacp/somnia-sdk' } = options;
+  const className = options.className || `${toPascalCase(card.name)}Client`;
+  const intents = card.intents || {};
+
+  const declarations: string[] = [];
+  const methods: string[] = [];
+  const methodNames = new Set<string>();
+
+  for (const [intent, descriptor] of Object.entries(intents)) {
+    // Streaming intents are consumed with streamMessage rather than request/response
+    if (descriptor.streaming) continue;
+
+    const typeName = toPascalCase(intent);
+    let methodName = toCamelCase(intent);
+    while (methodNames.has(methodName) || methodName === 'constructor') {
+      methodName = `${methodName}_`;
+    }
+    methodNames.add(methodName);
+
+    const inputType = `${typeName}Input`;
+    const outputType = `${typeName}Output`;
+    const input = descriptor.inputSchema as JSONSchema | undefined;
+    const output = descriptor.outputSchema as JSONSchema | undefined;
+
+    declarations.push(
+      `export type ${inputType} = ${input ? schemaToType(input, 0) : 'Record<string, unknown>'};`,
+      `export type ${outputType} = ${output ? schemaToType(output, 0) : 'unknown'};`
+    );
+
+    const doc = descriptor.description || `Send a \`${intent}\` message`;
+    methods.push(
+      [
+        `  /** ${escapeComment(doc)} */`,
+        `  ${methodName}(`,
+        `    task: ${inputType},`,
+        `    options?: SendMessageOptions`,
+        `  ): Promise<TypedA2AResponse<${outputType}>> {`,
+        `    return this.send(${JSON.stringify(intent)}, task, options);`,
+        `  }`,
+      ].join('\n')
+    );
+  }
+
+  if (methods.length === 0) {
+    logger.warn(`Agent ${card.id} publishes no intent descriptors`);
+  }
+
+  return [
+    `// Generated by uacp codegen from ${card.id} (${escapeComment(card.name)}). Do not edit.`,
+    '',
+    'import type {',
+    '  A2AResponse,',
+    '  CreateMessageParams,',
+    '  SendMessageOptions,',
+    '  TypedA2AResponse,',
+    `} from '${sdkImport}';`,
+    '',
+    'export interface MessageSender {',
+    '  sendMessage(',
+    '    params: CreateMessageParams,',
+    '    options?: SendMessageOptions',
+    '  ): Promise<A2AResponse>;',
+    '}',
+    '',
+    ...declarations.flatMap((declaration) => [declaration, '']),
+    `/** Client for ${escapeComment(card.name)} */`,
+    `export class ${className} {`,
+    `  static readonly agentId = ${JSON.stringify(card.id)};`,
+    '',
+    '  constructor(',
+    '    private sender: MessageSender,',
+    `    private agentId: string = ${className}.agentId`,
+    '  ) {}',
+    '',
+    ...methods.flatMap((method) => [method, '']),
+    '  private async send<T>(',
+    '    intent: string,',
+    '    task: unknown,',
+    '    options?: SendMessageOptions',
+    '  ): Promise<TypedA2AResponse<T>> {',
+    '    const response = await this.sender.sendMessage(',
+    '      { recipient: this.agentId, intent, task: task as Record<string, unknown> },',
+    '      options',
+    '    );',
+    '    return response as TypedA2AResponse<T>;',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Fetch a card and generate its client
+ */
+export async function codegen(
+  source: string,
+  options: FetchAgentCardOptions & GenerateClientOptions = {}
+): Promise<string> {
+  const card = await fetchAgentCard(source, options);
+  return generateClient(card, options);
+}
+
+/**
+ * Convert a JSON Schema (as produced by toJSONSchema) to a TypeScript type
+ */
+export function schemaToType(schema: JSONSchema | boolean, depth = 0): string {
+  if (schema === true) return 'unknown';
+  if (schema === false) return 'never';
+
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+
+  const union = (schema.anyOf || schema.oneOf) as JSONSchema[] | undefined;
+  if (Array.isArray(union)) {
+    return union.map((member) => wrapUnion(schemaToType(member, depth))).join(' | ');
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JSONSchema[])
+      .map((member) => wrapUnion(schemaToType(member, depth)))
+      .join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return (schema.type as string[])
+      .map((type) => schemaToType({ ...schema, type }, depth))
+      .join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return arrayToType(schema, depth);
+    case 'object':
+      return objectToType(schema, depth);
+    default:
+      return schema.properties ? objectToType(schema, depth) : 'unknown';
+  }
+}
+
+function arrayToType(schema: JSONSchema, depth: number): string {
+  if (Array.isArray(schema.items)) {
+    const items = (schema.items as JSONSchema[]).map((item) => schemaToType(item, depth));
+    return `[${items.join(', ')}]`;
+  }
+  const items = schema.items as JSONSchema | undefined;
+  return `Array<${items ? schemaToType(items, depth) : 'unknown'}>`;
+}
+
+function objectToType(schema: JSONSchema, depth: number): string {
+  const properties = (schema.properties || {}) as Record<string, JSONSchema>;
+  const required = new Set((schema.required || []) as string[]);
+  const additional = schema.additionalProperties as JSONSchema | boolean | undefined;
+  const indent = '  '.repeat(depth + 1);
+
+  const lines: string[] = [];
+  for (const [key, property] of Object.entries(properties)) {
+    if (typeof property.description === 'string') {
+      lines.push(`${indent}/** ${escapeComment(property.description)} */`);
+    }
+    const optional = required.has(key) ? '' : '?';
+    lines.push(`${indent}${formatKey(key)}${optional}: ${schemaToType(property, depth + 1)};`);
+  }
+
+  if (additional !== undefined && additional !== false) {
+    lines.push(`${indent}[key: string]: ${schemaToType(additional, depth + 1)};`);
+  }
+
+  if (lines.length === 0) {
+    return additional === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+  return `{\n${lines.join('\n')}\n${'  '.repeat(depth)}}`;
+}
+
+function wrapUnion(type: string): string {
+  return /^[^{]*[|&]/.test(type) ? `(${type})` : type;
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ');
+}
+
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean);
+}
+
+function toPascalCase(text: string): string {
+  const name = words(text)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^\d/.test(name) || !name ? `_${name}` : name;
+}
+
+function toCamelCase(text: string): string {
+  const name = toPascalCase(text);
+  return name.startsWith('_') ? name : name[0].toLowerCase() + name.slice(1);
+}
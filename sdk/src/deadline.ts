@@ -0,0 +1,92 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { InboundHeaders } from './transport.js';
+import { A2AMessage } from './types/message.js';
+import { DeadlineExceededError } from './utils/errors.js';
+
+/**
+ * Header carrying the time by which the caller expects a response, in epoch ms
+ */
+export const DEADLINE_HEADER = 'X-Deadline';
+
+const deadlineScope = new AsyncLocalStorage<number>();
+
+/**
+ * Deadline of the handler the current code runs in, if any
+ */
+export function getInheritedDeadline(): number | undefined {
+  return deadlineScope.getStore();
+}
+
+/**
+ * Run a function under a deadline that messages it sends inherit
+ */
+export function runWithDeadline<T>(deadline: number | undefined, fn: () => T): T {
+  return deadline === undefined ? fn() : deadlineScope.run(deadline, fn);
+}
+
+/**
+ * Earliest of the given deadlines
+ */
+export function earliestDeadline(...deadlines: Array<number | undefined>): number | undefined {
+  const defined = deadlines.filter((deadline): deadline is number => deadline !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
+
+/**
+ * Expiry of a message from its ttl
+ */
+export function getExpiry(message: A2AMessage): number | undefined {
+  return message.ttl ? message.timestamp + message.ttl * 1000 : undefined;
+}
+
+/**
+ * Deadline of an inbound message: the earlier of its X-Deadline header and its expiry
+ */
+export function getMessageDeadline(
+  message: A2AMessage,
+  headers: InboundHeaders
+): number | undefined {
+  const header = headers[DEADLINE_HEADER.toLowerCase()];
+  const value = Number(Array.isArray(header) ? header[0] : header);
+  return earliestDeadline(
+    Number.isFinite(value) && value > 0 ? value : undefined,
+    getExpiry(message)
+  );
+}
+
+/**
+ * Signal aborted when the deadline passes or any of the given signals aborts.
+ * Call `dispose` when done with it to clear its timer and listeners.
+ */
+export function createDeadlineSignal(
+  deadline: number | undefined,
+  signals: Array<AbortSignal | undefined> = []
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const cleanup: Array<() => void> = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const abort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', abort, { once: true });
+    cleanup.push(() => signal.removeEventListener('abort', abort));
+  }
+
+  if (deadline !== undefined && !controller.signal.aborted) {
+    const timer = setTimeout(
+      () => controller.abort(new DeadlineExceededError(deadline)),
+      Math.max(0, deadline - Date.now())
+    );
+    timer.unref();
+    cleanup.push(() => clearTimeout(timer));
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => cleanup.forEach((fn) => fn()),
+  };
+}
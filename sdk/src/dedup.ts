@@ -0,0 +1,273 @@
+import { promises as fs, readFileSync } from 'fs';
+import { A2AProtocol } from './a2a.js';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import { ReplayError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Dedup' });
+
+/**
+ * Storage backend for responses to already-processed messages
+ */
+export interface MessageDedupStore {
+  get(key: string): Promise<A2AResponse | undefined>;
+  set(key: string, response: A2AResponse, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Replay protection configuration
+ */
+export interface ReplayProtectionConfig {
+  store?: MessageDedupStore;
+  window?: number; // How long responses are remembered, in ms (default 10 minutes)
+  maxClockSkew?: number; // Allowed drift of message.timestamp into the future, in ms (default 60s)
+}
+
+interface DedupEntry {
+  response: A2AResponse;
+  expiresAt: number;
+}
+
+/**
+ * In-memory dedup store
+ */
+export class MemoryDedupStore implements MessageDedupStore {
+  protected entries: Map<string, DedupEntry> = new Map();
+  private writesSincePrune = 0;
+
+  async get(key: string): Promise<A2AResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.response;
+  }
+
+  async set(key: string, response: A2AResponse, ttl: number): Promise<void> {
+    this.entries.set(key, { response, expiresAt: Date.now() + ttl });
+
+    // Sweep expired entries periodically instead of on a timer
+    if (++this.writesSincePrune >= 100) {
+      this.writesSincePrune = 0;
+      this.prune();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  protected prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed dedup store - survives restarts, suitable for a single agent process
+ */
+export class FileDedupStore extends MemoryDedupStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  async set(key: string, response: A2AResponse, ttl: number): Promise<void> {
+    await super.set(key, response, ttl);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    await super.delete(key);
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    await this.persist();
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as Record<string, DedupEntry>;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(data)) {
+        if (entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      logger.debug(`Loaded ${this.entries.size} dedup entries from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load dedup store: ${this.filePath}`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent sets never interleave on disk
+    this.writeQueue = this.writeQueue.then(async () => {
+      this.prune();
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Guards message handling against replays and duplicate deliveries
+ */
+export class ReplayGuard {
+  private store: MessageDedupStore;
+  private window: number;
+  private maxClockSkew: number;
+  private inFlight: Map<string, Promise<A2AResponse>> = new Map();
+
+  constructor(config: ReplayProtectionConfig = {}) {
+    this.store = config.store || new MemoryDedupStore();
+    this.window = config.window ?? 10 * 60 * 1000;
+    this.maxClockSkew = config.maxClockSkew ?? 60 * 1000;
+  }
+
+  /**
+   * Reject messages from the future or older than the dedup window
+   */
+  checkTimestamp(message: A2AMessage): void {
+    const now = Date.now();
+
+    if (message.timestamp > now + this.maxClockSkew) {
+      throw new ReplayError('Message timestamp is too far in the future', {
+        timestamp: message.timestamp,
+        now,
+        maxClockSkew: this.maxClockSkew,
+      });
+    }
+
+    if (message.timestamp < now - this.window) {
+      throw new ReplayError('Message timestamp is outside the replay window', {
+        timestamp: message.timestamp,
+        now,
+        window: this.window,
+      });
+    }
+  }
+
+  /**
+   * Run the handler once per message; duplicates get the cached response.
+   * Messages are told apart by their verified signer when they have one, as
+   * sender DIDs can be spoofed.
+   */
+  async execute(
+    message: A2AMessage,
+    handler: () => Promise<A2AResponse>,
+    signer?: string
+  ): Promise<{ response: A2AResponse; duplicate: boolean }> {
+    const key = this.getKey(message, signer);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      logger.debug(`Duplicate of in-flight message: ${message.id}`);
+      return { response: await pending, duplicate: true };
+    }
+
+    // Registered before the store lookup, so a concurrent copy waits for this one
+    let duplicate = false;
+    const promise = (async () => {
+      const cached = await this.store.get(key);
+      if (cached) {
+        logger.debug(`Duplicate message served from cache: ${message.id}`);
+        duplicate = true;
+        return cached;
+      }
+
+      let response: A2AResponse;
+      try {
+        response = await handler();
+      } catch (error) {
+        // The handler may have acted before throwing, so a retry must not run it again
+        const failure = A2AProtocol.createA2AResponse(message.id, false, undefined, {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        await this.store.set(key, failure, this.window);
+        throw error;
+      }
+
+      if (this.isCacheable(response)) {
+        await this.store.set(key, response, this.window);
+      }
+      return response;
+    })();
+    this.inFlight.set(key, promise);
+
+    try {
+      return { response: await promise, duplicate };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Mark a message whose response cannot be served from cache (e.g. a stream)
+   * as handled. Returns false if it was already seen.
+   */
+  async claim(message: A2AMessage, signer?: string): Promise<boolean> {
+    const key = this.getKey(message, signer);
+    if (this.inFlight.has(key)) {
+      return false;
+    }
+
+    const placeholder: A2AResponse = {
+      messageId: message.id,
+      status: 200,
+      success: true,
+      timestamp: Date.now(),
+    };
+    this.inFlight.set(key, Promise.resolve(placeholder));
+
+    try {
+      if (await this.store.get(key)) {
+        logger.debug(`Duplicate message rejected: ${message.id}`);
+        return false;
+      }
+      await this.store.set(key, placeholder, this.window);
+      return true;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private getKey(message: A2AMessage, signer?: string): string {
+    return `${signer ?? message.sender}:${message.id}`;
+  }
+
+  /**
+   * Every final response is kept, failures included, since the handler may have
+   * acted. Only refusals made before the handler ran are left out, as senders
+   * retry them with the same id: payment challenges (402), rate limits and full
+   * queues (429, 503).
+   */
+  private isCacheable(response: A2AResponse): boolean {
+    return response.status !== 402 && response.status !== 429 && response.status !== 503;
+  }
+}
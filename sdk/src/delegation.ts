@@ -0,0 +1,350 @@
+import { BaseWallet, verifyMessage } from 'ethers';
+import { promises as fs, readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { canonicalize, SignerResolver } from './signing.js';
+import { A2AMessage } from './types/message.js';
+import { DelegationError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Delegation' });
+
+/**
+ * Message metadata key carrying a capability token
+ */
+export const DELEGATION_METADATA_KEY = 'delegation';
+
+/**
+ * Signed grant letting `audience` call `intents` on `resource` on the
+ * issuer's behalf. A token issued under a received one carries it as `proof`
+ * and may only narrow it.
+ */
+export interface CapabilityToken {
+  id: string;
+  issuer: string;
+  audience: string;
+  resource: string; // Agent whose intents are granted
+  intents: string[]; // '*' grants every intent
+  expiresAt: number; // Epoch ms
+  maxSpend?: string; // Payments allowed under the token, in atomic units
+  proof?: CapabilityToken; // Token the issuer holds, when it delegates further
+  signature: string;
+}
+
+export const CapabilityTokenSchema: z.ZodType<CapabilityToken> = z.lazy(() =>
+  z.object({
+    id: z.string(),
+    issuer: z.string(),
+    audience: z.string(),
+    resource: z.string(),
+    intents: z.array(z.string()).min(1),
+    expiresAt: z.number(),
+    maxSpend: z.string().regex(/^\d+$/).optional(),
+    proof: CapabilityTokenSchema.optional(),
+    signature: z.string(),
+  })
+);
+
+/**
+ * What a new capability token grants
+ */
+export interface DelegationParams {
+  audience: string;
+  resource: string;
+  intents: string[];
+  expiresAt: number;
+  maxSpend?: string;
+  proof?: CapabilityToken; // Received token to delegate from
+}
+
+/**
+ * A capability token that passed verification
+ */
+export interface VerifiedDelegation {
+  token: CapabilityToken; // As presented, to delegate from further
+  issuer: string; // Root issuer the authority comes from
+  chain: string[]; // Issuers from the root to the presenter's
+  intents: string[];
+  expiresAt: number;
+  maxSpend?: string;
+}
+
+/**
+ * Revoked capability token ids. Revoking a token also revokes every token
+ * delegated from it.
+ */
+export interface RevocationList {
+  isRevoked(id: string): Promise<boolean>;
+  revoke(id: string): Promise<void>;
+  list(): Promise<string[]>;
+}
+
+/**
+ * Delegation configuration
+ */
+export interface DelegationConfig {
+  revocations?: RevocationList; // In-memory by default
+  trustedIssuers?: string[]; // Root issuers accepted besides the agent itself
+  maxDepth?: number; // Longest delegation chain accepted (default 5)
+}
+
+/**
+ * Sign a capability token. Tokens delegated from a received one are checked
+ * to only narrow it.
+ */
+export function issueCapabilityToken(
+  wallet: BaseWallet,
+  issuer: string,
+  params: DelegationParams
+): CapabilityToken {
+  const token = { id: uuidv4(), issuer, ...params };
+  if (token.proof) {
+    checkAttenuation(token, token.proof);
+  }
+  return { ...token, signature: wallet.signMessageSync(canonicalize(token)) };
+}
+
+/**
+ * Whether a token grants an intent
+ */
+export function grantsIntent(token: Pick<CapabilityToken, 'intents'>, intent: string): boolean {
+  return token.intents.includes('*') || token.intents.includes(intent);
+}
+
+function checkAttenuation(token: Omit<CapabilityToken, 'signature'>, parent: CapabilityToken) {
+  if (parent.audience !== token.issuer) {
+    throw new DelegationError(`${token.issuer} does not hold the token it delegates from`);
+  }
+  if (parent.resource !== token.resource) {
+    throw new DelegationError('Delegated token is for a different agent than its proof');
+  }
+  if (!token.intents.every((intent) => grantsIntent(parent, intent))) {
+    throw new DelegationError('Delegated token grants intents its proof does not');
+  }
+  if (token.expiresAt > parent.expiresAt) {
+    throw new DelegationError('Delegated token outlives its proof');
+  }
+  if (
+    parent.maxSpend !== undefined &&
+    (token.maxSpend === undefined || BigInt(token.maxSpend) > BigInt(parent.maxSpend))
+  ) {
+    throw new DelegationError('Delegated token allows more spend than its proof');
+  }
+}
+
+/**
+ * In-memory revocation list
+ */
+export class MemoryRevocationList implements RevocationList {
+  protected ids: Set<string> = new Set();
+
+  async isRevoked(id: string): Promise<boolean> {
+    return this.ids.has(id);
+  }
+
+  async revoke(id: string): Promise<void> {
+    this.ids.add(id);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.ids);
+  }
+}
+
+/**
+ * File-backed revocation list - survives restarts of a single agent process
+ */
+export class FileRevocationList extends MemoryRevocationList {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  async revoke(id: string): Promise<void> {
+    await super.revoke(id);
+    await this.persist();
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as string[];
+      for (const id of data) {
+        this.ids.add(id);
+      }
+      logger.debug(`Loaded ${this.ids.size} revoked tokens from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load revocation list: ${this.filePath}`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent changes never interleave on disk
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.ids)));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Verifies capability tokens presented to an agent and tracks what was spent
+ * under them
+ */
+export class DelegationVerifier {
+  readonly revocations: RevocationList;
+  private maxDepth: number;
+  private spent: Map<string, { amount: bigint; expiresAt: number }> = new Map();
+
+  constructor(
+    private agentId: string,
+    private resolveSigners: SignerResolver,
+    private config: DelegationConfig = {}
+  ) {
+    this.revocations = config.revocations || new MemoryRevocationList();
+    this.maxDepth = config.maxDepth ?? 5;
+  }
+
+  /**
+   * Verify the token a message carries: every link must be signed by its
+   * issuer, unexpired, unrevoked and no broader than the one before it, and
+   * the last must be issued to the sender for this agent and intent
+   */
+  async verify(value: unknown, message: A2AMessage): Promise<VerifiedDelegation> {
+    const parsed = CapabilityTokenSchema.safeParse(value);
+    if (!parsed.success) {
+      throw new DelegationError('Malformed capability token', parsed.error.errors);
+    }
+
+    const token = parsed.data;
+    if (token.audience !== message.sender) {
+      throw new DelegationError(`Capability token was not issued to ${message.sender}`);
+    }
+    if (token.resource !== this.agentId) {
+      throw new DelegationError(`Capability token is not for ${this.agentId}`);
+    }
+    if (!grantsIntent(token, message.intent)) {
+      throw new DelegationError(`Capability token does not grant intent: ${message.intent}`);
+    }
+
+    // Root first
+    const chain: CapabilityToken[] = [];
+    for (let link: CapabilityToken | undefined = token; link; link = link.proof) {
+      chain.unshift(link);
+      if (chain.length > this.maxDepth) {
+        throw new DelegationError(`Delegation chain is longer than ${this.maxDepth}`);
+      }
+    }
+
+    const now = Date.now();
+    for (const [index, link] of chain.entries()) {
+      if (link.expiresAt <= now) {
+        throw new DelegationError('Capability token has expired', { id: link.id });
+      }
+      if (await this.revocations.isRevoked(link.id)) {
+        throw new DelegationError('Capability token has been revoked', { id: link.id });
+      }
+      if (index > 0) {
+        checkAttenuation(link, chain[index - 1]);
+      }
+      await this.verifySignature(link);
+    }
+
+    const root = chain[0].issuer;
+    const trusted = this.config.trustedIssuers ?? [];
+    if (root !== this.agentId && !trusted.includes(root)) {
+      throw new DelegationError(`Untrusted delegation issuer: ${root}`);
+    }
+
+    return {
+      token,
+      issuer: root,
+      chain: chain.map((link) => link.issuer),
+      intents: token.intents,
+      expiresAt: token.expiresAt,
+      maxSpend: token.maxSpend,
+    };
+  }
+
+  /**
+   * Count a payment against every token in the chain. Returns false, counting
+   * nothing, when it would pass any token's maxSpend.
+   */
+  spend(delegation: VerifiedDelegation, amount: string): boolean {
+    const now = Date.now();
+    for (const [id, entry] of this.spent) {
+      if (entry.expiresAt <= now) this.spent.delete(id);
+    }
+
+    const links: CapabilityToken[] = [];
+    for (let link: CapabilityToken | undefined = delegation.token; link; link = link.proof) {
+      links.push(link);
+    }
+
+    const charge = BigInt(amount);
+    const limited = links.filter((link) => link.maxSpend !== undefined);
+    const exceeded = limited.some(
+      (link) => (this.spent.get(link.id)?.amount ?? 0n) + charge > BigInt(link.maxSpend!)
+    );
+    if (exceeded) {
+      return false;
+    }
+
+    for (const link of limited) {
+      const amountSpent = (this.spent.get(link.id)?.amount ?? 0n) + charge;
+      this.spent.set(link.id, { amount: amountSpent, expiresAt: link.expiresAt });
+    }
+    return true;
+  }
+
+  /**
+   * Give back spend counted for a payment that was not charged, such as a
+   * failed settlement or a refund
+   */
+  release(delegation: VerifiedDelegation, amount: string): void {
+    const refund = BigInt(amount);
+    for (let link: CapabilityToken | undefined = delegation.token; link; link = link.proof) {
+      const entry = this.spent.get(link.id);
+      if (!entry) continue;
+
+      const remaining = entry.amount - refund;
+      if (remaining > 0n) {
+        this.spent.set(link.id, { ...entry, amount: remaining });
+      } else {
+        this.spent.delete(link.id);
+      }
+    }
+  }
+
+  private async verifySignature(token: CapabilityToken): Promise<void> {
+    let signer: string;
+    try {
+      signer = verifyMessage(canonicalize({ ...token, signature: undefined }), token.signature);
+    } catch {
+      throw new DelegationError('Malformed capability token signature', { id: token.id });
+    }
+
+    let allowed: string[];
+    try {
+      allowed = await this.resolveSigners(token.issuer);
+    } catch (error) {
+      throw new DelegationError(`Unable to resolve signers for ${token.issuer}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (!allowed.includes(signer)) {
+      throw new DelegationError(
+        `Capability token signature does not match any signer registered for ${token.issuer}`,
+        { id: token.id }
+      );
+    }
+  }
+}
@@ -0,0 +1,539 @@
+import express, { Express, Request, Response } from 'express';
+import axios from 'axios';
+import {
+  Contract,
+  JsonRpcProvider,
+  Signature,
+  Wallet,
+  getAddress,
+  hexlify,
+  randomBytes,
+} from 'ethers';
+import { z } from 'zod';
+import { PaymentFacilitator, RefundRequest, SettleOptions } from './x402.js';
+import { verifyPaymentAuthorization } from './schemes.js';
+import { BearerTokenAuthenticator } from './auth.js';
+import {
+  PaymentPayload,
+  PaymentPayloadSchema,
+  PaymentRequirements,
+  PaymentRequirementsSchema,
+  RefundResponse,
+  RefundResponseSchema,
+  SettleResponse,
+  SettleResponseSchema,
+  VerifyResponse,
+  VerifyResponseSchema,
+  X402_VERSION,
+} from './types/payment.js';
+import { safeValidate, validate } from './utils/validation.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'LocalFacilitator' });
+
+/**
+ * Minimal EIP-3009 token interface used on a local node
+ */
+const EIP3009_TOKEN_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function transfer(address to, uint256 value) returns (bool)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+];
+
+/**
+ * Local facilitator configuration
+ */
+export interface LocalFacilitatorConfig {
+  balances?: Record<string, Record<string, string>>; // payer -> asset -> amount
+  enforceBalances?: boolean; // Reject payers without enough simulated balance (default false)
+  rpcUrl?: string; // Settle against a local Hardhat node instead of simulating
+  relayerPrivateKey?: string; // Submits transferWithAuthorization on the local node
+}
+
+/**
+ * Options for serving a facilitator over HTTP
+ */
+export interface FacilitatorAppOptions {
+  refundTokens?: string[]; // Bearer tokens allowed to call /refund; not served without any
+}
+
+/**
+ * Refund request body accepted over HTTP
+ */
+const RefundRequestSchema = z.object({
+  payer: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  payTo: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  amount: z.string().regex(/^\d+$/),
+  asset: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  network: z.string(),
+  transaction: z.string(),
+  reason: z.string().optional(),
+});
+
+/**
+ * Settled amount accepted by /settle, in atomic units
+ */
+const SettleAmountSchema = z.string().regex(/^\d+$/).optional();
+
+/**
+ * A settled payment that may be refunded
+ */
+interface Settlement {
+  payer: string;
+  payTo: string;
+  asset: string;
+  amount: bigint;
+  refunded: bigint;
+}
+
+/**
+ * Local facilitator stand-in - verifies EIP-3009 authorizations offline, tracks
+ * used nonces and balances in memory (or on a local Hardhat node) and simulates
+ * settlement with fake transaction hashes
+ */
+export class LocalFacilitator implements PaymentFacilitator {
+  private balances: Map<string, bigint> = new Map();
+  private usedNonces: Set<string> = new Set();
+  private settlements: Map<string, Settlement> = new Map(); // Keyed by transaction
+  private enforceBalances: boolean;
+  private provider?: JsonRpcProvider;
+  private relayer?: Wallet;
+
+  constructor(config: LocalFacilitatorConfig = {}) {
+    this.enforceBalances = config.enforceBalances ?? false;
+
+    for (const [payer, assets] of Object.entries(config.balances || {})) {
+      for (const [asset, amount] of Object.entries(assets)) {
+        this.fund(payer, asset, amount);
+      }
+    }
+
+    if (config.rpcUrl) {
+      this.provider = new JsonRpcProvider(config.rpcUrl);
+      if (config.relayerPrivateKey) {
+        this.relayer = new Wallet(config.relayerPrivateKey, this.provider);
+      }
+    }
+
+    logger.info('Local facilitator initialized', {
+      mode: this.provider ? 'local-node' : 'memory',
+      enforceBalances: this.enforceBalances,
+    });
+  }
+
+  /**
+   * Credit a simulated balance
+   */
+  fund(payer: string, asset: string, amount: string): void {
+    const key = this.balanceKey(payer, asset);
+    this.balances.set(key, (this.balances.get(key) ?? 0n) + BigInt(amount));
+  }
+
+  /**
+   * Simulated balance (or on-chain balance when connected to a local node)
+   */
+  async getBalance(address: string, asset: string): Promise<string> {
+    if (this.provider) {
+      const token = new Contract(asset, EIP3009_TOKEN_ABI, this.provider);
+      return (await token.balanceOf(address)).toString();
+    }
+    return (this.balances.get(this.balanceKey(address, asset)) ?? 0n).toString();
+  }
+
+  /**
+   * Verify a payment authorization without contacting a remote facilitator
+   */
+  async verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    const result = verifyPaymentAuthorization(payload, requirements);
+    if (!result.isValid) {
+      return result;
+    }
+
+    const { authorization } = payload.payload;
+
+    if (await this.isNonceUsed(requirements.asset, authorization.from, authorization.nonce)) {
+      return {
+        isValid: false,
+        payer: result.payer,
+        invalidReason: 'Authorization nonce already used',
+      };
+    }
+
+    if (this.enforceBalances || this.provider) {
+      const balance = BigInt(await this.getBalance(authorization.from, requirements.asset));
+      if (balance < BigInt(authorization.value)) {
+        return { isValid: false, payer: result.payer, invalidReason: 'Insufficient funds' };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle a payment. Range payments settle `options.amount` (actual usage)
+   * up to the authorized value; other schemes settle the authorized value.
+   */
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    options: SettleOptions = {}
+  ): Promise<SettleResponse> {
+    const verification = await this.verify(payload, requirements);
+    const fail = (errorReason?: string): SettleResponse => ({
+      success: false,
+      network: requirements.network,
+      payer: verification.payer,
+      errorReason,
+    });
+
+    if (!verification.isValid) {
+      return fail(verification.invalidReason);
+    }
+
+    if (options.amount !== undefined && !/^\d+$/.test(options.amount)) {
+      return fail(`Invalid settlement amount: ${options.amount}`);
+    }
+
+    const { authorization } = payload.payload;
+    const authorized = BigInt(authorization.value);
+    const amount = BigInt(options.amount ?? authorization.value);
+
+    if (amount <= 0n) {
+      return fail('Settlement amount must be positive');
+    }
+    if (amount > authorized || (requirements.scheme !== 'range' && amount !== authorized)) {
+      return fail(
+        `Cannot settle ${amount.toString()} against authorization of ${authorized.toString()}`
+      );
+    }
+
+    if (this.provider) {
+      if (amount !== authorized) {
+        return fail('Partial settlement is not supported on a local node');
+      }
+      if (!this.relayer) {
+        return fail('Relayer private key required to settle on a local node');
+      }
+    }
+
+    // Reserve the nonce and the payer's funds before any further await, so
+    // concurrent settles can neither reuse an authorization nor overdraw
+    const nonceKey = this.nonceKey(requirements.asset, authorization.from, authorization.nonce);
+    if (this.usedNonces.has(nonceKey)) {
+      return fail('Authorization nonce already used');
+    }
+
+    let transaction: string;
+    if (this.provider) {
+      this.usedNonces.add(nonceKey);
+      try {
+        transaction = await this.submitAuthorization(payload, requirements);
+      } catch (error) {
+        this.usedNonces.delete(nonceKey);
+        throw error;
+      }
+    } else {
+      const from = this.balanceKey(authorization.from, requirements.asset);
+      const to = this.balanceKey(authorization.to, requirements.asset);
+      const available = this.balances.get(from) ?? 0n;
+      if (this.enforceBalances && available < amount) {
+        return fail('Insufficient funds');
+      }
+      this.usedNonces.add(nonceKey);
+      this.balances.set(from, available - amount);
+      this.balances.set(to, (this.balances.get(to) ?? 0n) + amount);
+      transaction = hexlify(randomBytes(32));
+    }
+
+    this.settlements.set(transaction, {
+      payer: getAddress(authorization.from),
+      payTo: getAddress(authorization.to),
+      asset: getAddress(requirements.asset),
+      amount,
+      refunded: 0n,
+    });
+    logger.debug('Settled payment', { transaction, amount: amount.toString() });
+
+    return {
+      success: true,
+      transaction,
+      network: requirements.network,
+      payer: verification.payer,
+      amount: amount.toString(),
+    };
+  }
+
+  /**
+   * Refund a payment this facilitator settled, back to its payer. Refunds of a
+   * settlement never add up to more than it settled. On a local node the
+   * relayer must be the payee.
+   */
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    const fail = (errorReason: string): RefundResponse => ({
+      success: false,
+      network: request.network,
+      amount: request.amount,
+      errorReason,
+    });
+
+    const settlement = request.transaction && this.settlements.get(request.transaction);
+    if (
+      !settlement ||
+      settlement.payer !== getAddress(request.payer) ||
+      settlement.payTo !== getAddress(request.payTo) ||
+      settlement.asset !== getAddress(request.asset)
+    ) {
+      return fail('No matching settlement to refund');
+    }
+
+    const amount = BigInt(request.amount);
+    if (settlement.refunded >= settlement.amount) {
+      return fail('Settlement already refunded');
+    }
+    if (amount <= 0n || settlement.refunded + amount > settlement.amount) {
+      return fail('Refund exceeds the settled amount');
+    }
+
+    // Reserved before any await, so concurrent refunds cannot both pass the cap
+    settlement.refunded += amount;
+    let transaction: string;
+
+    try {
+      if (this.provider) {
+        if (!this.relayer || this.relayer.address !== settlement.payTo) {
+          settlement.refunded -= amount;
+          return fail('Refunds on a local node require the payee as relayer');
+        }
+        const token = new Contract(settlement.asset, EIP3009_TOKEN_ABI, this.relayer);
+        const tx = await token.transfer(settlement.payer, amount);
+        transaction = (await tx.wait()).hash;
+      } else {
+        const from = this.balanceKey(settlement.payTo, settlement.asset);
+        const to = this.balanceKey(settlement.payer, settlement.asset);
+        const available = this.balances.get(from) ?? 0n;
+        if (this.enforceBalances && available < amount) {
+          settlement.refunded -= amount;
+          return fail('Insufficient payee funds for refund');
+        }
+        this.balances.set(from, available - amount);
+        this.balances.set(to, (this.balances.get(to) ?? 0n) + amount);
+        transaction = hexlify(randomBytes(32));
+      }
+    } catch (error) {
+      settlement.refunded -= amount;
+      throw error;
+    }
+
+    logger.debug('Refunded payment', { transaction, amount: request.amount });
+    return { success: true, transaction, network: request.network, amount: request.amount };
+  }
+
+  /**
+   * Clear nonces and simulated balances
+   */
+  reset(): void {
+    this.balances.clear();
+    this.usedNonces.clear();
+    this.settlements.clear();
+  }
+
+  private async submitAuthorization(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<string> {
+    const { authorization, signature } = payload.payload;
+    const { v, r, s } = Signature.from(signature);
+    const token = new Contract(requirements.asset, EIP3009_TOKEN_ABI, this.relayer);
+
+    const tx = await token.transferWithAuthorization(
+      authorization.from,
+      authorization.to,
+      authorization.value,
+      authorization.validAfter,
+      authorization.validBefore,
+      authorization.nonce,
+      v,
+      r,
+      s
+    );
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  private async isNonceUsed(asset: string, from: string, nonce: string): Promise<boolean> {
+    if (this.usedNonces.has(this.nonceKey(asset, from, nonce))) {
+      return true;
+    }
+    if (this.provider) {
+      const token = new Contract(asset, EIP3009_TOKEN_ABI, this.provider);
+      return await token.authorizationState(from, nonce);
+    }
+    return false;
+  }
+
+  private balanceKey(address: string, asset: string): string {
+    return `${getAddress(address)}:${getAddress(asset)}`;
+  }
+
+  private nonceKey(asset: string, from: string, nonce: string): string {
+    return `${getAddress(asset)}:${getAddress(from)}:${nonce.toLowerCase()}`;
+  }
+}
+
+/**
+ * Expose a facilitator over the x402 facilitator HTTP API (`/verify`, `/settle`, `/supported`)
+ * so `X402Config.facilitatorUrl` can point at it. `/refund` moves the payee's funds, so it is
+ * only served with `refundTokens` and requires one of them as a bearer token.
+ */
+export function createFacilitatorApp(
+  facilitator: PaymentFacilitator,
+  options: FacilitatorAppOptions = {}
+): Express {
+  const app = express();
+  app.use(express.json());
+
+  const parseBody = (req: Request, res: Response) => {
+    const payload = safeValidate(PaymentPayloadSchema, req.body?.paymentPayload);
+    const requirements = safeValidate(PaymentRequirementsSchema, req.body?.paymentRequirements);
+    if (!payload.success || !requirements.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        errors: [
+          ...(payload.success ? [] : payload.errors),
+          ...(requirements.success ? [] : requirements.errors),
+        ],
+      });
+      return undefined;
+    }
+    return { payload: payload.data, requirements: requirements.data };
+  };
+
+  app.post('/verify', async (req: Request, res: Response) => {
+    const body = parseBody(req, res);
+    if (!body) return;
+    try {
+      res.json(await facilitator.verify(body.payload, body.requirements));
+    } catch (error) {
+      logger.error('Facilitator verify failed', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post('/settle', async (req: Request, res: Response) => {
+    const body = parseBody(req, res);
+    if (!body) return;
+    const amount = safeValidate(SettleAmountSchema, req.body.amount);
+    if (!amount.success) {
+      res.status(400).json({ error: 'Invalid request', errors: amount.errors });
+      return;
+    }
+    try {
+      res.json(
+        await facilitator.settle(body.payload, body.requirements, { amount: amount.data })
+      );
+    } catch (error) {
+      logger.error('Facilitator settle failed', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  const refundAuth = options.refundTokens?.length
+    ? new BearerTokenAuthenticator(options.refundTokens)
+    : undefined;
+  app.post('/refund', async (req: Request, res: Response) => {
+    if (!facilitator.refund || !refundAuth) {
+      res.status(501).json({ error: 'Refunds are not supported by this facilitator' });
+      return;
+    }
+    try {
+      await refundAuth.authenticate({ agentId: 'facilitator', headers: req.headers });
+    } catch {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const request = safeValidate(RefundRequestSchema, req.body);
+    if (!request.success) {
+      res.status(400).json({ error: 'Invalid request', errors: request.errors });
+      return;
+    }
+    try {
+      res.json(await facilitator.refund(request.data));
+    } catch (error) {
+      logger.error('Facilitator refund failed', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get('/supported', (_req: Request, res: Response) => {
+    res.json({
+      kinds: ['exact', 'range', 'subscription'].map((scheme) => ({
+        x402Version: X402_VERSION,
+        scheme,
+      })),
+    });
+  });
+
+  return app;
+}
+
+/**
+ * Client for a remote facilitator speaking the x402 facilitator HTTP API
+ */
+export class HTTPFacilitatorClient implements PaymentFacilitator {
+  private baseUrl: string;
+  private timeout: number;
+  private refundToken?: string;
+
+  constructor(facilitatorUrl: string, timeout = 10000, refundToken?: string) {
+    this.baseUrl = facilitatorUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.timeout = timeout;
+    this.refundToken = refundToken;
+  }
+
+  async verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/verify`,
+      {
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      },
+      { timeout: this.timeout }
+    );
+    return validate(VerifyResponseSchema, response.data);
+  }
+
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    options: SettleOptions = {}
+  ): Promise<SettleResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/settle`,
+      {
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+        ...(options.amount && { amount: options.amount }),
+      },
+      { timeout: this.timeout }
+    );
+    return validate(SettleResponseSchema, response.data);
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    const response = await axios.post(`${this.baseUrl}/refund`, request, {
+      timeout: this.timeout,
+      headers: this.refundToken ? { Authorization: `Bearer ${this.refundToken}` } : undefined,
+    });
+    return validate(RefundResponseSchema, response.data);
+  }
+}
@@ -11,6 +11,62 @@ export { MessageRouter } from './router.js';
 export { A2AProtocol } from './a2a.js';
 export { OnChainAgentRegistry } from './onchain-registry.js';
 
+// Auth exports
+export {
+  BearerTokenAuthenticator,
+  JWTAuthenticator,
+  OAuthAuthenticator,
+  createInboundAuthenticator,
+  createOutboundAuthHeaders,
+  extractBearerToken,
+  signJWT,
+  verifyJWT,
+} from './auth.js';
+
+export type {
+  AuthRequest,
+  InboundAuthenticator,
+  InboundAuthConfig,
+  JWTAlgorithm,
+  JWTVerifyOptions,
+  OutboundCredentials,
+} from './auth.js';
+
+// Signing exports
+export {
+  MessageVerifier,
+  canonicalize,
+  canonicalizeMessage,
+  createRegistrySignerResolver,
+  getCardSignerAddresses,
+  recoverMessageSigner,
+  signA2AMessage,
+  A2A_MESSAGE_DOMAIN,
+  A2A_MESSAGE_TYPES,
+} from './signing.js';
+
+export type { SignatureScheme, SignerResolver } from './signing.js';
+
+// Replay protection exports
+export { ReplayGuard, MemoryDedupStore, FileDedupStore } from './dedup.js';
+export type { MessageDedupStore, ReplayProtectionConfig } from './dedup.js';
+
+// Payment ledger, receipt and spending policy exports
+export { PaymentLedger } from './ledger.js';
+export type {
+  PaymentEntry,
+  PaymentEntryStatus,
+  PaymentDirection,
+  PaymentContext,
+  PaymentRefund,
+  PaymentLedgerQuery,
+  PaymentLedgerConfig,
+} from './ledger.js';
+export { signPaymentReceipt, verifyPaymentReceipt, hashResult } from './receipts.js';
+export type { UnsignedPaymentReceipt } from './receipts.js';
+export { SpendingPolicyEnforcer } from './spending.js';
+export type { SpendingPolicy, SpendingRequest } from './spending.js';
+
 // Orchestration exports
 export { AgentWorkflow } from './workflow.js';
 export { AgentOrchestrator } from './orchestrator.js';
@@ -23,13 +79,180 @@ export {
   UACPPaymentClient,
   createUACPPaymentRequirements,
   isPaymentRequiredError,
+  decodePaymentHeader,
+  encodePaymentHeader,
 } from './x402.js';
 
 export type {
   X402Config,
   UACPPaymentRequirements,
+  PaymentFacilitator,
+  SettleOptions,
+  RefundRequest,
 } from './x402.js';
 
+export {
+  LocalFacilitator,
+  HTTPFacilitatorClient,
+  createFacilitatorApp,
+} from './facilitator.js';
+export type { FacilitatorAppOptions, LocalFacilitatorConfig } from './facilitator.js';
+export {
+  NETWORK_CHAIN_IDS,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  getAuthorizationDomain,
+  getSubscriptionPeriod,
+  signPaymentAuthorization,
+  verifyPaymentAuthorization,
+} from './schemes.js';
+export { MemorySubscriptionStore } from './subscriptions.js';
+export type { Subscription, SubscriptionStore } from './subscriptions.js';
+
+// Asynchronous task exports
+export { TaskManager, isTerminalTaskState } from './tasks.js';
+export type { TaskManagerConfig } from './tasks.js';
+
+// Outbox exports
+export { FileOutboxStore, MemoryOutboxStore, Outbox, isRedeliverable } from './outbox.js';
+export type {
+  DeliveryFailure,
+  OutboxConfig,
+  OutboxDeliverer,
+  OutboxEntry,
+  OutboxEntryStatus,
+  OutboxFilter,
+  OutboxListeners,
+  OutboxStore,
+} from './outbox.js';
+
+// Deadline exports
+export {
+  DEADLINE_HEADER,
+  createDeadlineSignal,
+  earliestDeadline,
+  getExpiry,
+  getInheritedDeadline,
+  getMessageDeadline,
+  runWithDeadline,
+} from './deadline.js';
+
+// Middleware exports
+export { compose, runMiddleware } from './middleware.js';
+export type {
+  InboundContext,
+  InboundMiddleware,
+  Middleware,
+  Next,
+  OutboundContext,
+  OutboundMiddleware,
+} from './middleware.js';
+
+// Rate limit exports
+export { MemoryRateLimitStore, RateLimiter, RedisRateLimitStore } from './ratelimit.js';
+export type {
+  BucketRequest,
+  RateLimit,
+  RateLimitConfig,
+  RateLimitResult,
+  RateLimitScope,
+  RateLimitStatus,
+  RateLimitStore,
+  RedisScriptClient,
+} from './ratelimit.js';
+
+// Access policy exports
+export {
+  FilePolicyAuditLog,
+  MemoryPolicyAuditLog,
+  PolicyDocumentSchema,
+  PolicyEngine,
+  PolicyRuleSchema,
+} from './policy.js';
+export type {
+  PolicyAuditEntry,
+  PolicyAuditLog,
+  PolicyConfig,
+  PolicyDecision,
+  PolicyDocument,
+  PolicyEffect,
+  PolicyRequest,
+  PolicyRule,
+} from './policy.js';
+
+// Delegation exports
+export {
+  CapabilityTokenSchema,
+  DELEGATION_METADATA_KEY,
+  DelegationVerifier,
+  FileRevocationList,
+  grantsIntent,
+  issueCapabilityToken,
+  MemoryRevocationList,
+} from './delegation.js';
+export type {
+  CapabilityToken,
+  DelegationConfig,
+  DelegationParams,
+  RevocationList,
+  VerifiedDelegation,
+} from './delegation.js';
+
+// Inbound queue exports
+export { InboundQueue } from './queue.js';
+export type { InboundQueueConfig, IntentLimits, QueueStats } from './queue.js';
+
+// Client codegen exports
+export {
+  codegen,
+  createRouterSender,
+  fetchAgentCard,
+  generateClient,
+  schemaToType,
+} from './codegen.js';
+export type { FetchAgentCardOptions, GenerateClientOptions, MessageSender } from './codegen.js';
+
+// Transport exports
+export {
+  HttpTransport,
+  InProcessTransport,
+  UnixSocketTransport,
+  getHttpTarget,
+  getScheme,
+  startServer,
+  throwOnServerError,
+} from './transport.js';
+export type {
+  InboundHeaders,
+  StreamResult,
+  Transport,
+  TransportHandler,
+  TransportServer,
+} from './transport.js';
+export type { EventStreamFrame } from './streaming.js';
+
+// Publish-subscribe exports
+export {
+  FileTopicSubscriptionStore,
+  MemoryTopicSubscriptionStore,
+  SUBSCRIBE_INTENT,
+  TopicPublisher,
+  UNSUBSCRIBE_INTENT,
+} from './pubsub.js';
+export type {
+  PubSubConfig,
+  PublishResult,
+  TopicSubscription,
+  TopicSubscriptionStore,
+} from './pubsub.js';
+
+// Testing exports
+export { TestNetwork } from './testing.js';
+export type { CapturedMessage, MessageFilter, NetworkFault, TestAgentConfig } from './testing.js';
+
+// WebSocket transport exports
+export { WebSocketLink, WebSocketTransport, getWebSocketEndpoint } from './websocket.js';
+export type { WebSocketFrame, WebSocketMessageHandler } from './websocket.js';
+
 // Type exports
 export * from './types/index.js';
 
@@ -47,6 +270,7 @@ export type {
 export type {
   A2AMessage,
   A2AResponse,
+  TypedA2AResponse,
   CreateMessageParams,
   SendMessageOptions,
 } from './types/message.js';
@@ -0,0 +1,307 @@
+import { promises as fs, readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PaymentPayload,
+  PaymentReceipt,
+  PaymentRequirements,
+  VerifyResponse,
+} from './types/payment.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Ledger' });
+
+/**
+ * Status of a ledger entry
+ *
+ * Inbound (server): required -> verified -> settled (-> refunded), or rejected.
+ * Outbound (client): submitted -> accepted, or rejected.
+ */
+export type PaymentEntryStatus =
+  | 'required'
+  | 'submitted'
+  | 'verified'
+  | 'settled'
+  | 'refunded'
+  | 'accepted'
+  | 'rejected';
+
+/**
+ * Whether the ledger owner received (inbound) or made (outbound) the payment
+ */
+export type PaymentDirection = 'inbound' | 'outbound';
+
+/**
+ * Message a payment is attached to
+ */
+export interface PaymentContext {
+  messageId: string;
+  intent: string;
+  sender: string; // DID of the paying agent
+  recipient: string; // DID of the paid agent
+}
+
+/**
+ * Reverse transfer of a settled payment
+ */
+export interface PaymentRefund {
+  success: boolean;
+  amount: string;
+  transaction?: string;
+  reason?: string;
+  errorReason?: string;
+  timestamp: number;
+}
+
+/**
+ * A payment recorded in the ledger
+ */
+export interface PaymentEntry {
+  id: string;
+  timestamp: number;
+  updatedAt?: number;
+  direction: PaymentDirection;
+  status: PaymentEntryStatus;
+  messageId: string;
+  intent: string;
+  sender: string; // DID of the paying agent
+  recipient: string; // DID of the agent that was paid
+  payer?: string; // Unknown until a payload is received
+  payTo: string;
+  amount: string; // Atomic units of the asset
+  asset: string;
+  network: string;
+  scheme: string;
+  requirements?: PaymentRequirements;
+  payload?: PaymentPayload;
+  verification?: VerifyResponse;
+  transaction?: string;
+  receipt?: PaymentReceipt;
+  refund?: PaymentRefund;
+  error?: string;
+}
+
+/**
+ * Filter for ledger queries
+ */
+export interface PaymentLedgerQuery {
+  agent?: string; // Matches sender or recipient
+  recipient?: string;
+  sender?: string;
+  payer?: string;
+  messageId?: string;
+  intent?: string;
+  direction?: PaymentDirection;
+  asset?: string;
+  network?: string;
+  status?: PaymentEntryStatus;
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+/**
+ * Ledger configuration
+ */
+export interface PaymentLedgerConfig {
+  filePath?: string; // Persist entries to a JSON file
+}
+
+/**
+ * Columns written by CSV export
+ */
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'direction',
+  'status',
+  'messageId',
+  'intent',
+  'sender',
+  'recipient',
+  'payer',
+  'payTo',
+  'amount',
+  'asset',
+  'network',
+  'scheme',
+  'transaction',
+  'error',
+] as const;
+
+function escapeCSV(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Payment ledger - in memory, optionally persisted to a JSON file
+ */
+export class PaymentLedger {
+  private entries: PaymentEntry[] = [];
+  private filePath?: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: PaymentLedgerConfig = {}) {
+    this.filePath = config.filePath;
+    if (this.filePath) {
+      this.load(this.filePath);
+    }
+  }
+
+  /**
+   * Record a payment
+   */
+  record(entry: Omit<PaymentEntry, 'id' | 'timestamp'>): PaymentEntry {
+    const recorded: PaymentEntry = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      ...entry,
+    };
+    this.entries.push(recorded);
+    this.persist();
+
+    logger.debug(`Payment recorded: ${recorded.id}`, {
+      direction: recorded.direction,
+      amount: recorded.amount,
+      recipient: recorded.recipient,
+      status: recorded.status,
+    });
+
+    return recorded;
+  }
+
+  /**
+   * Update a recorded payment
+   */
+  update(id: string, changes: Partial<Omit<PaymentEntry, 'id' | 'timestamp'>>): PaymentEntry {
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry) {
+      throw new Error(`Ledger entry not found: ${id}`);
+    }
+    Object.assign(entry, changes, { updatedAt: Date.now() });
+    this.persist();
+    return entry;
+  }
+
+  /**
+   * Update the status of a recorded payment
+   */
+  updateStatus(id: string, status: PaymentEntryStatus, error?: string): void {
+    this.update(id, error ? { status, error } : { status });
+  }
+
+  /**
+   * Get an entry by id
+   */
+  get(id: string): PaymentEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  /**
+   * Most recent entry matching a query
+   */
+  latest(query: PaymentLedgerQuery = {}): PaymentEntry | undefined {
+    const matches = this.query(query);
+    return matches[matches.length - 1];
+  }
+
+  /**
+   * Query recorded payments
+   */
+  query(query: PaymentLedgerQuery = {}): PaymentEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        (!query.agent || entry.recipient === query.agent || entry.sender === query.agent) &&
+        (!query.recipient || entry.recipient === query.recipient) &&
+        (!query.sender || entry.sender === query.sender) &&
+        (!query.payer || entry.payer?.toLowerCase() === query.payer.toLowerCase()) &&
+        (!query.messageId || entry.messageId === query.messageId) &&
+        (!query.intent || entry.intent === query.intent) &&
+        (!query.direction || entry.direction === query.direction) &&
+        (!query.asset || entry.asset.toLowerCase() === query.asset.toLowerCase()) &&
+        (!query.network || entry.network === query.network) &&
+        (!query.status || entry.status === query.status) &&
+        (query.fromTimestamp === undefined || entry.timestamp >= query.fromTimestamp) &&
+        (query.toTimestamp === undefined || entry.timestamp <= query.toTimestamp)
+    );
+  }
+
+  /**
+   * Sum of amounts for matching payments, net of refunds (excluding unpaid and
+   * rejected ones)
+   */
+  total(query: PaymentLedgerQuery = {}): bigint {
+    return this.query(query)
+      .filter((entry) => entry.status !== 'required' && entry.status !== 'rejected')
+      .reduce(
+        (sum, entry) =>
+          sum + BigInt(entry.amount) - (entry.refund?.success ? BigInt(entry.refund.amount) : 0n),
+        0n
+      );
+  }
+
+  /**
+   * Export matching entries as JSON
+   */
+  toJSON(query: PaymentLedgerQuery = {}): string {
+    return JSON.stringify(this.query(query), null, 2);
+  }
+
+  /**
+   * Export matching entries as CSV (one row per entry, scalar columns only)
+   */
+  toCSV(query: PaymentLedgerQuery = {}): string {
+    const rows = this.query(query).map((entry) =>
+      CSV_COLUMNS.map((column) => escapeCSV(entry[column])).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  /**
+   * Export matching entries in the given format
+   */
+  export(format: 'json' | 'csv', query: PaymentLedgerQuery = {}): string {
+    return format === 'csv' ? this.toCSV(query) : this.toJSON(query);
+  }
+
+  /**
+   * Clear all entries
+   */
+  clear(): void {
+    this.entries = [];
+    this.persist();
+  }
+
+  /**
+   * Wait for pending writes to the ledger file
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private load(filePath: string): void {
+    try {
+      this.entries = JSON.parse(readFileSync(filePath, 'utf8')) as PaymentEntry[];
+      logger.debug(`Loaded ${this.entries.length} ledger entries from ${filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load payment ledger: ${filePath}`, error);
+      }
+    }
+  }
+
+  private persist(): void {
+    const filePath = this.filePath;
+    if (!filePath) return;
+
+    // Serialize writes so concurrent updates never interleave on disk
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const tmpPath = `${filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(this.entries));
+        await fs.rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        logger.error(`Failed to persist payment ledger: ${filePath}`, error);
+      });
+  }
+}
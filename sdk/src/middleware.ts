@@ -0,0 +1,77 @@
+import { MessageContext } from './types/agent.js';
+import { A2AMessage, A2AResponse, SendMessageOptions } from './types/message.js';
+import { UACPError } from './utils/errors.js';
+
+/**
+ * Runs the rest of the chain
+ */
+export type Next = () => Promise<void>;
+
+/**
+ * Koa-style middleware: work before and after `await next()`, or set
+ * `ctx.response` without calling `next` to short-circuit the chain
+ */
+export type Middleware<TContext> = (ctx: TContext, next: Next) => Promise<void> | void;
+
+/**
+ * Inbound message passing through the agent's middleware
+ */
+export interface InboundContext {
+  message: A2AMessage;
+  context: MessageContext; // Handed to the intent handler; `payment` is set once verified
+  response?: A2AResponse; // Set once the message was handled, or by middleware to answer it
+  state: Record<string, unknown>; // Shared between middleware and with the handler
+}
+
+/**
+ * Outbound message passing through the router's middleware
+ */
+export interface OutboundContext {
+  message: A2AMessage; // May be changed or replaced; it is signed again before sending
+  options: SendMessageOptions;
+  response?: A2AResponse; // Set once the message was sent, or by middleware to answer it
+  state: Record<string, unknown>;
+}
+
+export type InboundMiddleware = Middleware<InboundContext>;
+export type OutboundMiddleware = Middleware<OutboundContext>;
+
+/**
+ * Compose middleware into one, running each in order around `next`
+ */
+export function compose<TContext>(middleware: Array<Middleware<TContext>>): Middleware<TContext> {
+  return (ctx, next) => {
+    let index = -1;
+
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) {
+        throw new UACPError('next() called multiple times', 'MIDDLEWARE_ERROR');
+      }
+      index = i;
+
+      const fn = i < middleware.length ? middleware[i] : next;
+      await fn?.(ctx, () => dispatch(i + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Run a message through middleware, with `handle` producing the response at
+ * the end of the chain
+ */
+export async function runMiddleware<TContext extends { response?: A2AResponse }>(
+  middleware: Array<Middleware<TContext>>,
+  ctx: TContext,
+  handle: (ctx: TContext) => Promise<A2AResponse>
+): Promise<A2AResponse> {
+  await compose(middleware)(ctx, async () => {
+    ctx.response = await handle(ctx);
+  });
+
+  if (!ctx.response) {
+    throw new UACPError('Middleware neither called next() nor set a response', 'MIDDLEWARE_ERROR');
+  }
+  return ctx.response;
+}
@@ -320,6 +320,7 @@ export class OnChainAgentRegistry {
       status: this.mapContractToStatus(result.status),
       version: result.version,
       auth: { type: 'none' },
+      metadata: { owner: result.owner },
       createdAt: Number(result.createdAt) * 1000,
       updatedAt: Number(result.updatedAt) * 1000,
     };
@@ -0,0 +1,408 @@
+import axios from 'axios';
+import { promises as fs, readFileSync } from 'fs';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import {
+  AgentBusyError,
+  CircuitOpenError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+  TransportUnavailableError,
+  UACPError,
+} from './utils/errors.js';
+import { getRetryAfter } from './utils/retry.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Outbox' });
+
+/**
+ * Pending entries are redelivered on schedule; dead letters wait for a replay
+ */
+export type OutboxEntryStatus = 'pending' | 'dead';
+
+/**
+ * A failed delivery attempt
+ */
+export interface DeliveryFailure {
+  at: number;
+  code: string;
+  message: string;
+}
+
+/**
+ * A message that could not be delivered, with its error history
+ */
+export interface OutboxEntry {
+  id: string; // Message id
+  message: A2AMessage;
+  options: { timeout?: number; headers?: Record<string, string> }; // Send options to reuse
+  status: OutboxEntryStatus;
+  attempts: number;
+  errors: DeliveryFailure[];
+  createdAt: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Storage for outbox entries
+ */
+export interface OutboxStore {
+  get(id: string): Promise<OutboxEntry | undefined>;
+  set(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<OutboxEntry[]>;
+}
+
+/**
+ * Outbox configuration
+ */
+export interface OutboxConfig {
+  store?: OutboxStore; // In-memory by default; use a file store to survive restarts
+  interval?: number; // How often due messages are redelivered, in ms (default 30s)
+  maxAttempts?: number; // Delivery attempts before a message is dead-lettered (default 10)
+  retryDelay?: number; // First redelivery delay in ms, doubling up to an hour (default 30s)
+}
+
+/**
+ * Selects outbox entries
+ */
+export interface OutboxFilter {
+  recipient?: string;
+  intent?: string;
+  status?: OutboxEntryStatus;
+}
+
+/**
+ * How the outbox reaches recipients, provided by the router
+ */
+export interface OutboxDeliverer {
+  deliver(entry: OutboxEntry): Promise<A2AResponse>;
+  isAvailable(agentId: string): boolean; // False while the recipient's circuit breaker is open
+}
+
+/**
+ * Called when a stored message is delivered or dead-lettered
+ */
+export interface OutboxListeners {
+  onDelivered?: (entry: OutboxEntry, response: A2AResponse) => void;
+  onDeadLetter?: (entry: OutboxEntry) => void;
+}
+
+/**
+ * Whether a send failure may succeed later: the message could not be handed
+ * over, timed out, hit a server error, the recipient was busy or rate limited,
+ * or its breaker was open
+ */
+export function isRedeliverable(error: unknown): boolean {
+  if (
+    error instanceof AgentBusyError ||
+    error instanceof RateLimitedError ||
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof TransportUnavailableError ||
+    error instanceof CircuitOpenError
+  ) {
+    return true;
+  }
+  return axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+}
+
+function matches(entry: OutboxEntry, filter: OutboxFilter): boolean {
+  return (
+    (filter.recipient === undefined || entry.message.recipient === filter.recipient) &&
+    (filter.intent === undefined || entry.message.intent === filter.intent) &&
+    (filter.status === undefined || entry.status === filter.status)
+  );
+}
+
+function toFailure(error: unknown): DeliveryFailure {
+  return {
+    at: Date.now(),
+    code:
+      error instanceof UACPError
+        ? error.code
+        : (axios.isAxiosError(error) && error.code) || 'DELIVERY_FAILED',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * In-memory outbox store
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  protected entries: Map<string, OutboxEntry> = new Map();
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    return this.entries.get(id);
+  }
+
+  async set(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values());
+  }
+}
+
+/**
+ * File-backed outbox store - survives restarts of a single agent process
+ */
+export class FileOutboxStore extends MemoryOutboxStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  async set(entry: OutboxEntry): Promise<void> {
+    await super.set(entry);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+    await this.persist();
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as OutboxEntry[];
+      for (const entry of data) {
+        this.entries.set(entry.id, entry);
+      }
+      logger.debug(`Loaded ${this.entries.size} outbox entries from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load outbox store: ${this.filePath}`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent changes never interleave on disk
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.entries.values())));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Outbox of messages the router failed to deliver. Pending messages are
+ * redelivered on a schedule once the recipient's circuit breaker lets requests
+ * through, and dead-lettered after `maxAttempts`. Redeliveries keep the
+ * message id, so recipients drop duplicates.
+ */
+export class Outbox {
+  private store: OutboxStore;
+  private interval: number;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private deliverer?: OutboxDeliverer;
+  private timer?: NodeJS.Timeout;
+  private redelivering = false;
+
+  constructor(
+    config: OutboxConfig = {},
+    private listeners: OutboxListeners = {}
+  ) {
+    this.store = config.store || new MemoryOutboxStore();
+    this.interval = config.interval ?? 30000;
+    this.maxAttempts = config.maxAttempts ?? 10;
+    this.retryDelay = config.retryDelay ?? 30000;
+  }
+
+  /**
+   * Start redelivering through the router
+   */
+  start(deliverer: OutboxDeliverer): void {
+    this.deliverer = deliverer;
+    clearInterval(this.timer);
+    this.timer = setInterval(() => void this.redeliver(), this.interval);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop redelivering
+   */
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Store a message whose delivery failed
+   */
+  async add(
+    message: A2AMessage,
+    error: unknown,
+    options: OutboxEntry['options'] = {}
+  ): Promise<void> {
+    const now = Date.now();
+    const existing = await this.store.get(message.id);
+    const entry: OutboxEntry = existing || {
+      id: message.id,
+      message,
+      options,
+      status: 'pending',
+      attempts: 0,
+      errors: [],
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+
+    try {
+      await this.fail(entry, error);
+      logger.info(`Stored undelivered message for ${message.recipient}`, {
+        messageId: message.id,
+        intent: message.intent,
+      });
+    } catch (storeError) {
+      logger.error(`Failed to store undelivered message: ${message.id}`, storeError);
+    }
+  }
+
+  /**
+   * Stored messages matching a filter, oldest first
+   */
+  async list(filter: OutboxFilter = {}): Promise<OutboxEntry[]> {
+    const entries = await this.store.list();
+    return entries
+      .filter((entry) => matches(entry, filter))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): Promise<OutboxEntry | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Deliver a stored message now, with a fresh attempt budget. Returns whether
+   * it was delivered; otherwise it stays in the outbox.
+   */
+  async replay(id: string): Promise<boolean> {
+    const entry = await this.store.get(id);
+    if (!entry) {
+      throw new UACPError(`Outbox entry not found: ${id}`, 'OUTBOX_ENTRY_NOT_FOUND', { id });
+    }
+
+    entry.status = 'pending';
+    entry.attempts = 0;
+    return this.attempt(entry);
+  }
+
+  /**
+   * Replay every stored message matching a filter (default: dead letters)
+   */
+  async replayAll(
+    filter: OutboxFilter = { status: 'dead' }
+  ): Promise<{ delivered: number; failed: number }> {
+    const result = { delivered: 0, failed: 0 };
+    for (const entry of await this.list(filter)) {
+      if (await this.replay(entry.id)) {
+        result.delivered++;
+      } else {
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove stored messages matching a filter. Returns how many were removed.
+   */
+  async purge(filter: OutboxFilter = {}): Promise<number> {
+    const entries = await this.list(filter);
+    for (const entry of entries) {
+      await this.store.delete(entry.id);
+    }
+    if (entries.length > 0) {
+      logger.info(`Purged ${entries.length} outbox entries`, filter);
+    }
+    return entries.length;
+  }
+
+  /**
+   * Redeliver pending messages that are due, skipping recipients whose breaker
+   * is open. Runs on the schedule; call to redeliver immediately.
+   */
+  async redeliver(): Promise<void> {
+    if (!this.deliverer || this.redelivering) return;
+    this.redelivering = true;
+
+    try {
+      const now = Date.now();
+      const unavailable = new Set<string>();
+      const due = await this.list({ status: 'pending' });
+
+      for (const entry of due) {
+        const { recipient } = entry.message;
+        if (entry.nextAttemptAt > now || unavailable.has(recipient)) continue;
+        if (!this.deliverer.isAvailable(recipient) || !(await this.attempt(entry))) {
+          unavailable.add(recipient); // Keep the rest in order until it recovers
+        }
+      }
+    } catch (error) {
+      logger.error('Redelivery failed', error);
+    } finally {
+      this.redelivering = false;
+    }
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<boolean> {
+    if (!this.deliverer) {
+      throw new UACPError('Outbox is not attached to a router', 'OUTBOX_NOT_STARTED');
+    }
+
+    const { message } = entry;
+    if (message.ttl && message.timestamp + message.ttl * 1000 < Date.now()) {
+      await this.fail(entry, new UACPError('Message has expired', 'MESSAGE_EXPIRED'), true);
+      return false;
+    }
+
+    try {
+      const response = await this.deliverer.deliver(entry);
+      await this.store.delete(entry.id);
+      logger.info(`Redelivered message to ${message.recipient}`, {
+        messageId: message.id,
+        attempts: entry.attempts + 1,
+      });
+      this.listeners.onDelivered?.(entry, response);
+      return true;
+    } catch (error) {
+      await this.fail(entry, error);
+      return false;
+    }
+  }
+
+  private async fail(entry: OutboxEntry, error: unknown, final = false): Promise<void> {
+    entry.attempts++;
+    entry.errors.push(toFailure(error));
+
+    if (final || !isRedeliverable(error) || entry.attempts >= this.maxAttempts) {
+      entry.status = 'dead';
+      await this.store.set(entry);
+      logger.warn(`Dead-lettered message for ${entry.message.recipient}`, {
+        messageId: entry.id,
+        attempts: entry.attempts,
+        error: entry.errors[entry.errors.length - 1].message,
+      });
+      this.listeners.onDeadLetter?.(entry);
+      return;
+    }
+
+    const backoff = Math.min(this.retryDelay * Math.pow(2, entry.attempts - 1), 60 * 60 * 1000);
+    entry.nextAttemptAt = Date.now() + Math.max(backoff, getRetryAfter(error) ?? 0);
+    await this.store.set(entry);
+  }
+}
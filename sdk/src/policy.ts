@@ -0,0 +1,234 @@
+import { promises as fs, readFileSync, unwatchFile, watchFile } from 'fs';
+import { z } from 'zod';
+import { AgentCard } from './types/agent.js';
+import { UACPError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Policy' });
+
+/**
+ * A policy rule. Every condition it sets must hold for it to apply; a list
+ * condition holds when any of its entries matches.
+ */
+export const PolicyRuleSchema = z.object({
+  effect: z.enum(['allow', 'deny']),
+  description: z.string().optional(),
+  intents: z.array(z.string()).optional(), // All intents when omitted
+  senders: z.array(z.string()).optional(), // Sender DIDs
+  owners: z.array(z.string()).optional(), // Owner addresses on the sender's registry card
+  capabilities: z.array(z.string()).optional(), // Capabilities on the sender's registry card
+  priced: z.boolean().optional(), // Whether the intent has a price, whether or not this message pays it
+});
+
+/**
+ * Rules checked in order; the first that applies decides
+ */
+export const PolicyDocumentSchema = z.object({
+  defaultEffect: z.enum(['allow', 'deny']).default('allow'), // When no rule applies
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+export type PolicyEffect = z.infer<typeof PolicyRuleSchema>['effect'];
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyDocument = z.input<typeof PolicyDocumentSchema>;
+
+/**
+ * What a message is checked against the policy with
+ */
+export interface PolicyRequest {
+  sender: string;
+  intent: string;
+  priced: boolean;
+  card?: AgentCard; // Sender's registry card, when registered
+}
+
+/**
+ * Outcome of a policy check
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  rule?: number; // Index of the rule that decided; unset for the default effect
+  description?: string;
+}
+
+/**
+ * A message refused by the policy
+ */
+export interface PolicyAuditEntry {
+  timestamp: number;
+  messageId: string;
+  sender: string;
+  intent: string;
+  rule?: number;
+  description?: string;
+}
+
+/**
+ * Record of messages refused by the policy
+ */
+export interface PolicyAuditLog {
+  record(entry: PolicyAuditEntry): Promise<void>;
+  list(): Promise<PolicyAuditEntry[]>;
+}
+
+/**
+ * Access policy configuration: inline rules, or a JSON policy document that is
+ * reloaded when it changes
+ */
+export interface PolicyConfig extends PolicyDocument {
+  file?: string; // Takes the place of inline rules
+  audit?: PolicyAuditLog; // In-memory by default
+}
+
+/**
+ * In-memory audit log, keeping the latest entries
+ */
+export class MemoryPolicyAuditLog implements PolicyAuditLog {
+  private entries: PolicyAuditEntry[] = [];
+
+  constructor(private maxEntries = 1000) {}
+
+  async record(entry: PolicyAuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async list(): Promise<PolicyAuditEntry[]> {
+    return [...this.entries];
+  }
+}
+
+/**
+ * File-backed audit log, one JSON entry per line
+ */
+export class FilePolicyAuditLog implements PolicyAuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  record(entry: PolicyAuditEntry): Promise<void> {
+    // Serialize appends so entries never interleave on disk
+    this.writeQueue = this.writeQueue.then(() =>
+      fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`)
+    );
+    return this.writeQueue;
+  }
+
+  async list(): Promise<PolicyAuditEntry[]> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf8');
+      return data
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as PolicyAuditEntry);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Access policy for inbound messages. A policy file is watched and reloaded
+ * on change; a file that fails to parse leaves the current policy in place.
+ */
+export class PolicyEngine {
+  readonly audit: PolicyAuditLog;
+  private document: z.infer<typeof PolicyDocumentSchema>;
+  private file?: string;
+
+  constructor(config: PolicyConfig = {}) {
+    this.audit = config.audit || new MemoryPolicyAuditLog();
+    this.file = config.file;
+
+    if (this.file) {
+      this.document = parsePolicy(readFileSync(this.file, 'utf8'), this.file);
+      watchFile(this.file, { interval: 1000, persistent: false }, this.onFileChange);
+      logger.info(`Loaded ${this.document.rules.length} policy rules from ${this.file}`);
+    } else {
+      this.document = PolicyDocumentSchema.parse(config);
+    }
+  }
+
+  /**
+   * Whether any rule needs the sender's registry card
+   */
+  get needsCard(): boolean {
+    return this.document.rules.some((rule) => rule.owners || rule.capabilities);
+  }
+
+  /**
+   * Replace the policy
+   */
+  setPolicy(document: PolicyDocument): void {
+    this.document = PolicyDocumentSchema.parse(document);
+  }
+
+  /**
+   * Read the policy file again. Returns whether the new policy was applied.
+   */
+  reload(): boolean {
+    if (!this.file) return false;
+
+    try {
+      this.document = parsePolicy(readFileSync(this.file, 'utf8'), this.file);
+      logger.info(`Reloaded ${this.document.rules.length} policy rules from ${this.file}`);
+      return true;
+    } catch (error) {
+      logger.error(`Keeping the current policy: ${this.file} is invalid`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check a message against the rules, in order
+   */
+  evaluate(request: PolicyRequest): PolicyDecision {
+    const index = this.document.rules.findIndex((rule) => matches(rule, request));
+    if (index === -1) {
+      return { allowed: this.document.defaultEffect === 'allow' };
+    }
+
+    const rule = this.document.rules[index];
+    return { allowed: rule.effect === 'allow', rule: index, description: rule.description };
+  }
+
+  /**
+   * Stop watching the policy file
+   */
+  close(): void {
+    if (this.file) {
+      unwatchFile(this.file, this.onFileChange);
+    }
+  }
+
+  private onFileChange = (): void => {
+    this.reload();
+  };
+}
+
+function parsePolicy(data: string, filePath: string): z.infer<typeof PolicyDocumentSchema> {
+  try {
+    return PolicyDocumentSchema.parse(JSON.parse(data));
+  } catch (error) {
+    throw new UACPError(`Invalid policy file: ${filePath}`, 'POLICY_INVALID', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function matches(rule: PolicyRule, request: PolicyRequest): boolean {
+  const owner = request.card?.metadata?.owner;
+  return (
+    (!rule.intents || rule.intents.includes(request.intent)) &&
+    (!rule.senders || rule.senders.includes(request.sender)) &&
+    (!rule.owners ||
+      (typeof owner === 'string' &&
+        rule.owners.some((address) => address.toLowerCase() === owner.toLowerCase()))) &&
+    (!rule.capabilities ||
+      rule.capabilities.some((capability) => request.card?.capabilities.includes(capability))) &&
+    (rule.priced === undefined || rule.priced === request.priced)
+  );
+}
@@ -0,0 +1,263 @@
+import { promises as fs, readFileSync } from 'fs';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import { AgentNotFoundError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'PubSub' });
+
+/**
+ * Reserved intents subscribers send to publishers
+ */
+export const SUBSCRIBE_INTENT = 'uacp.subscribe';
+export const UNSUBSCRIBE_INTENT = 'uacp.unsubscribe';
+
+/**
+ * An agent subscribed to one of this agent's topics
+ */
+export interface TopicSubscription {
+  topic: string;
+  subscriber: string; // Subscriber DID
+  createdAt: number;
+}
+
+/**
+ * Storage for topic subscriptions
+ */
+export interface TopicSubscriptionStore {
+  add(subscription: TopicSubscription): Promise<void>;
+  remove(subscriber: string, topic: string): Promise<void>;
+  list(topic?: string): Promise<TopicSubscription[]>;
+}
+
+/**
+ * Publish-subscribe configuration
+ */
+export interface PubSubConfig {
+  store?: TopicSubscriptionStore; // In-memory by default; use a file store to survive restarts
+  maxAttempts?: number; // Delivery attempts per event (default 6)
+  retryDelay?: number; // First retry delay in ms, doubled per attempt up to a minute (default 1s)
+}
+
+/**
+ * Outcome of the first delivery attempt of a published event
+ */
+export interface PublishResult {
+  topic: string;
+  subscribers: number;
+  delivered: number;
+  retrying: number; // Failed attempts that will be retried
+  rejected: number; // Refused by the subscriber; not retried
+}
+
+/**
+ * In-memory topic subscription store
+ */
+export class MemoryTopicSubscriptionStore implements TopicSubscriptionStore {
+  protected subscriptions: Map<string, TopicSubscription> = new Map();
+
+  async add(subscription: TopicSubscription): Promise<void> {
+    this.subscriptions.set(`${subscription.subscriber}:${subscription.topic}`, subscription);
+  }
+
+  async remove(subscriber: string, topic: string): Promise<void> {
+    this.subscriptions.delete(`${subscriber}:${topic}`);
+  }
+
+  async list(topic?: string): Promise<TopicSubscription[]> {
+    return Array.from(this.subscriptions.values()).filter(
+      (subscription) => !topic || subscription.topic === topic
+    );
+  }
+}
+
+/**
+ * File-backed topic subscription store - survives restarts of a single agent process
+ */
+export class FileTopicSubscriptionStore extends MemoryTopicSubscriptionStore {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.load();
+  }
+
+  async add(subscription: TopicSubscription): Promise<void> {
+    await super.add(subscription);
+    await this.persist();
+  }
+
+  async remove(subscriber: string, topic: string): Promise<void> {
+    await super.remove(subscriber, topic);
+    await this.persist();
+  }
+
+  private load(): void {
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as TopicSubscription[];
+      for (const subscription of data) {
+        this.subscriptions.set(`${subscription.subscriber}:${subscription.topic}`, subscription);
+      }
+      logger.debug(`Loaded ${this.subscriptions.size} subscriptions from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to load subscription store: ${this.filePath}`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent changes never interleave on disk
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.subscriptions.values())));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+interface PendingDelivery {
+  topic: string;
+  message: A2AMessage;
+  attempts: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Fans out topic events to subscribers with at-least-once delivery. Failed
+ * deliveries are retried with the same message, so subscribers drop duplicates
+ * by message id. Pending retries are kept in memory.
+ */
+export class TopicPublisher {
+  private store: TopicSubscriptionStore;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private pending: Map<string, PendingDelivery> = new Map();
+
+  constructor(
+    private send: (message: A2AMessage) => Promise<A2AResponse>,
+    private onFailure: (topic: string, message: A2AMessage, error: unknown) => void,
+    config: PubSubConfig = {}
+  ) {
+    this.store = config.store || new MemoryTopicSubscriptionStore();
+    this.maxAttempts = config.maxAttempts ?? 6;
+    this.retryDelay = config.retryDelay ?? 1000;
+  }
+
+  /**
+   * Add a subscriber to a topic; subscribing again is a no-op
+   */
+  async subscribe(subscriber: string, topic: string): Promise<void> {
+    const existing = await this.store.list(topic);
+    if (!existing.some((subscription) => subscription.subscriber === subscriber)) {
+      await this.store.add({ topic, subscriber, createdAt: Date.now() });
+      logger.info(`Subscribed ${subscriber} to ${topic}`);
+    }
+  }
+
+  async unsubscribe(subscriber: string, topic: string): Promise<void> {
+    await this.store.remove(subscriber, topic);
+    logger.info(`Unsubscribed ${subscriber} from ${topic}`);
+  }
+
+  /**
+   * Subscribers of a topic
+   */
+  async subscribers(topic: string): Promise<string[]> {
+    return (await this.store.list(topic)).map((subscription) => subscription.subscriber);
+  }
+
+  /**
+   * Send an event to every subscriber of the topic
+   */
+  async publish(
+    topic: string,
+    createMessage: (subscriber: string) => A2AMessage
+  ): Promise<PublishResult> {
+    const subscribers = await this.subscribers(topic);
+    const result: PublishResult = {
+      topic,
+      subscribers: subscribers.length,
+      delivered: 0,
+      retrying: 0,
+      rejected: 0,
+    };
+
+    const outcomes = await Promise.all(
+      subscribers.map((subscriber) =>
+        this.deliver({ topic, message: createMessage(subscriber), attempts: 0 })
+      )
+    );
+    for (const outcome of outcomes) {
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of deliveries waiting for a retry
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Cancel pending retries
+   */
+  close(): void {
+    for (const delivery of this.pending.values()) {
+      clearTimeout(delivery.timer);
+    }
+    this.pending.clear();
+  }
+
+  private async deliver(delivery: PendingDelivery): Promise<'delivered' | 'retrying' | 'rejected'> {
+    const { topic, message } = delivery;
+    delivery.attempts++;
+    this.pending.delete(message.id);
+
+    try {
+      const response = await this.send(message);
+      if (response.success) {
+        return 'delivered';
+      }
+
+      // The subscriber refused the event itself; sending it again would not help
+      logger.warn(`Event rejected by ${message.recipient}`, {
+        topic,
+        messageId: message.id,
+        error: response.error,
+      });
+      this.onFailure(topic, message, response.error);
+      return 'rejected';
+    } catch (error) {
+      if (error instanceof AgentNotFoundError) {
+        await this.store.remove(message.recipient, topic);
+        logger.info(`Dropped subscription of unregistered agent ${message.recipient} to ${topic}`);
+        this.onFailure(topic, message, error);
+        return 'rejected';
+      }
+
+      if (delivery.attempts >= this.maxAttempts) {
+        logger.warn(
+          `Giving up on event for ${message.recipient} after ${delivery.attempts} attempts`,
+          {
+            topic,
+            messageId: message.id,
+          }
+        );
+        this.onFailure(topic, message, error);
+        return 'rejected';
+      }
+
+      const delay = Math.min(this.retryDelay * Math.pow(2, delivery.attempts - 1), 60000);
+      delivery.timer = setTimeout(() => void this.deliver(delivery), delay);
+      delivery.timer.unref();
+      this.pending.set(message.id, delivery);
+      return 'retrying';
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { MessagePriority } from './types/message.js';
+import { AgentBusyError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Queue' });
+
+/**
+ * Inbound queue configuration
+ */
+export interface InboundQueueConfig {
+  maxConcurrency?: number; // Messages handled at once across all intents (default 32)
+  maxQueued?: number; // Messages waiting for a slot across all intents (default 256)
+}
+
+/**
+ * Limits of a single intent, set in its options
+ */
+export interface IntentLimits {
+  concurrency?: number; // Messages of the intent handled at once
+  maxQueued?: number; // Messages of the intent waiting for a slot
+}
+
+/**
+ * Snapshot of the inbound queue
+ */
+export interface QueueStats {
+  active: number;
+  queued: number;
+  maxConcurrency: number;
+  maxQueued: number;
+  intents: Record<string, { active: number; queued: number }>;
+}
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  [MessagePriority.LOW]: 0,
+  [MessagePriority.MEDIUM]: 1,
+  [MessagePriority.HIGH]: 2,
+  [MessagePriority.CRITICAL]: 3,
+};
+
+interface IntentState {
+  active: number;
+  queued: number;
+  averageDuration?: number; // Moving average of slot hold time in ms
+}
+
+interface QueuedMessage {
+  intent: string;
+  rank: number;
+  limits: IntentLimits;
+  resolve: (release: () => void) => void;
+  reject: (error: AgentBusyError) => void;
+}
+
+/**
+ * Bounded queue of inbound work. Messages wait for a free slot highest
+ * priority first (in arrival order within a priority), within the agent's
+ * concurrency limit and their intent's. When the queue is full, a message
+ * takes the place of the newest waiting message of a lower priority.
+ */
+export class InboundQueue {
+  private maxConcurrency: number;
+  private maxQueued: number;
+  private active = 0;
+  private waiting: QueuedMessage[] = []; // Highest priority first
+  private intents: Map<string, IntentState> = new Map();
+  private averageDuration?: number;
+  private saturated = false;
+
+  constructor(
+    config: InboundQueueConfig = {},
+    private onSaturationChange?: (saturated: boolean) => void
+  ) {
+    this.maxConcurrency = config.maxConcurrency ?? 32;
+    this.maxQueued = config.maxQueued ?? 256;
+  }
+
+  /**
+   * Wait for a slot to handle a message. Resolves with the function that frees
+   * the slot; throws an AgentBusyError when the message cannot be queued.
+   */
+  async acquire(
+    intent: string,
+    priority: MessagePriority = MessagePriority.MEDIUM,
+    limits: IntentLimits = {}
+  ): Promise<() => void> {
+    const state = this.getState(intent);
+
+    // Messages only wait while their limits are reached, so none can be ahead
+    if (this.hasCapacity(state, limits)) {
+      return this.start(state);
+    }
+
+    if (limits.maxQueued !== undefined && state.queued >= limits.maxQueued) {
+      throw new AgentBusyError(
+        `Too many queued messages for intent: ${intent}`,
+        'INTENT_BUSY',
+        this.estimateWait(state, limits.concurrency),
+        { intent }
+      );
+    }
+
+    const rank = PRIORITY_RANK[priority] ?? PRIORITY_RANK[MessagePriority.MEDIUM];
+    if (this.waiting.length >= this.maxQueued) {
+      const lowest = this.waiting[this.waiting.length - 1];
+      if (!lowest || lowest.rank >= rank) {
+        throw this.agentBusy(intent);
+      }
+
+      this.dequeue(lowest);
+      logger.debug(`Displaced queued message for ${lowest.intent} by one for ${intent}`);
+      lowest.reject(this.agentBusy(lowest.intent));
+    }
+
+    return new Promise((resolve, reject) => {
+      const queued: QueuedMessage = { intent, rank, limits, resolve, reject };
+      const index = this.waiting.findIndex((candidate) => candidate.rank < rank);
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, queued);
+      state.queued++;
+    });
+  }
+
+  /**
+   * Current load, overall and per intent
+   */
+  stats(): QueueStats {
+    const intents: QueueStats['intents'] = {};
+    for (const [intent, state] of this.intents) {
+      if (state.active > 0 || state.queued > 0) {
+        intents[intent] = { active: state.active, queued: state.queued };
+      }
+    }
+
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      maxConcurrency: this.maxConcurrency,
+      maxQueued: this.maxQueued,
+      intents,
+    };
+  }
+
+  /**
+   * Reject every waiting message
+   */
+  close(): void {
+    for (const queued of this.waiting.splice(0)) {
+      this.getState(queued.intent).queued--;
+      queued.reject(new AgentBusyError('Agent is shutting down', 'AGENT_BUSY', 1));
+    }
+  }
+
+  private getState(intent: string): IntentState {
+    let state = this.intents.get(intent);
+    if (!state) {
+      state = { active: 0, queued: 0 };
+      this.intents.set(intent, state);
+    }
+    return state;
+  }
+
+  private hasCapacity(state: IntentState, limits: IntentLimits): boolean {
+    return (
+      this.active < this.maxConcurrency &&
+      (limits.concurrency === undefined || state.active < limits.concurrency)
+    );
+  }
+
+  private start(state: IntentState): () => void {
+    this.active++;
+    state.active++;
+    this.updateSaturation();
+
+    const startedAt = Date.now();
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.active--;
+      state.active--;
+      const duration = Date.now() - startedAt;
+      state.averageDuration = movingAverage(state.averageDuration, duration);
+      this.averageDuration = movingAverage(this.averageDuration, duration);
+
+      this.drain();
+      this.updateSaturation();
+    };
+  }
+
+  /**
+   * Start waiting messages in priority order while slots are free
+   */
+  private drain(): void {
+    for (const queued of [...this.waiting]) {
+      if (this.active >= this.maxConcurrency) break;
+
+      const state = this.getState(queued.intent);
+      if (!this.hasCapacity(state, queued.limits)) continue;
+
+      this.dequeue(queued);
+      queued.resolve(this.start(state));
+    }
+  }
+
+  private dequeue(queued: QueuedMessage): void {
+    this.waiting.splice(this.waiting.indexOf(queued), 1);
+    this.getState(queued.intent).queued--;
+  }
+
+  private agentBusy(intent: string): AgentBusyError {
+    return new AgentBusyError('Agent is busy', 'AGENT_BUSY', this.estimateWait(), { intent });
+  }
+
+  /**
+   * Seconds until a slot is likely to free up for the next queued message
+   */
+  private estimateWait(state?: IntentState, concurrency?: number): number {
+    const average = (state ? state.averageDuration : this.averageDuration) ?? 1000;
+    const ahead = (state ? state.queued : this.waiting.length) + 1;
+    const slots = Math.min(concurrency ?? this.maxConcurrency, this.maxConcurrency);
+    return Math.max(1, Math.ceil((average * ahead) / slots / 1000));
+  }
+
+  private updateSaturation(): void {
+    const saturated = this.active >= this.maxConcurrency;
+    if (saturated !== this.saturated) {
+      this.saturated = saturated;
+      this.onSaturationChange?.(saturated);
+    }
+  }
+}
+
+function movingAverage(average: number | undefined, value: number): number {
+  return average === undefined ? value : average * 0.8 + value * 0.2;
+}
@@ -0,0 +1,256 @@
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'RateLimit' });
+
+/**
+ * Token bucket: up to `limit` messages in a burst, refilled at `limit` per `interval`
+ */
+export interface RateLimit {
+  limit: number;
+  interval: number; // Time in ms for an empty bucket to refill
+}
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+  store?: RateLimitStore; // In-memory by default; share a Redis store between instances
+  global?: RateLimit; // All messages to the agent
+  sender?: RateLimit; // Messages from each sender
+  subscriberMultiplier?: number; // Quota multiplier for senders with a subscription (default 10)
+}
+
+/**
+ * Which bucket a rate limit result comes from
+ */
+export type RateLimitScope = 'global' | 'sender' | 'intent';
+
+/**
+ * Quota left in the most restrictive bucket, as sent in RateLimit-* headers
+ */
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  reset: number; // Seconds until the bucket is full again
+}
+
+/**
+ * Outcome of checking a message against the rate limits
+ */
+export interface RateLimitResult extends RateLimitStatus {
+  allowed: boolean;
+  scope: RateLimitScope;
+  retryAfter?: number; // Seconds until a message is allowed again, when refused
+}
+
+/**
+ * A token bucket to take from
+ */
+export interface BucketRequest {
+  key: string;
+  rate: RateLimit;
+}
+
+/**
+ * Storage for token buckets. `take` must check and update the buckets
+ * atomically, taking a token from each only when every one of them has one.
+ * `tokens` holds each bucket's tokens afterwards, in request order.
+ */
+export interface RateLimitStore {
+  take(buckets: BucketRequest[]): Promise<{ allowed: boolean; tokens: number[] }>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+function refill(bucket: Bucket | undefined, rate: RateLimit, now: number): number {
+  if (!bucket) return rate.limit;
+  const refilled = ((now - bucket.updatedAt) * rate.limit) / rate.interval;
+  return Math.min(rate.limit, bucket.tokens + refilled);
+}
+
+/**
+ * In-memory rate limit store
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, Bucket & { interval: number }> = new Map();
+  private writesSincePrune = 0;
+
+  async take(buckets: BucketRequest[]): Promise<{ allowed: boolean; tokens: number[] }> {
+    const now = Date.now();
+    let tokens = buckets.map(({ key, rate }) => refill(this.buckets.get(key), rate, now));
+    const allowed = tokens.every((available) => available >= 1);
+    if (allowed) {
+      tokens = tokens.map((available) => available - 1);
+    }
+
+    buckets.forEach(({ key, rate }, i) => {
+      this.buckets.set(key, { tokens: tokens[i], updatedAt: now, interval: rate.interval });
+    });
+    this.writesSincePrune += buckets.length;
+    if (this.writesSincePrune >= 1000) {
+      this.prune(now);
+    }
+    return { allowed, tokens };
+  }
+
+  /**
+   * Drop buckets that have refilled, which are the same as no bucket
+   */
+  private prune(now: number): void {
+    this.writesSincePrune = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= bucket.interval) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Redis client able to run Lua scripts, like ioredis
+ */
+export interface RedisScriptClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+}
+
+// Refills every bucket and takes a token from each only if all have one, in
+// one step; tokens are returned as strings because Redis truncates Lua numbers
+// to integers
+const TAKE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local tokens = {}
+local allowed = 1
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[i * 2])
+  local interval = tonumber(ARGV[i * 2 + 1])
+  local bucket = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  tokens[i] = limit
+  if bucket[1] then
+    tokens[i] = math.min(limit, tonumber(bucket[1]) + (now - tonumber(bucket[2])) * limit / interval)
+  end
+  if tokens[i] < 1 then
+    allowed = 0
+  end
+end
+local result = { allowed }
+for i, key in ipairs(KEYS) do
+  local interval = tonumber(ARGV[i * 2 + 1])
+  if allowed == 1 then
+    tokens[i] = tokens[i] - 1
+  end
+  redis.call('HSET', key, 'tokens', tostring(tokens[i]), 'updatedAt', now)
+  redis.call('PEXPIRE', key, interval)
+  result[i + 1] = tostring(tokens[i])
+end
+return result
+`;
+
+/**
+ * Redis-backed rate limit store, shared by every instance of an agent. Works
+ * with any client exposing ioredis-style `eval`.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private client: RedisScriptClient,
+    private prefix = 'uacp:ratelimit:'
+  ) {}
+
+  async take(buckets: BucketRequest[]): Promise<{ allowed: boolean; tokens: number[] }> {
+    const [allowed, ...tokens] = (await this.client.eval(
+      TAKE_SCRIPT,
+      buckets.length,
+      ...buckets.map(({ key }) => this.prefix + key),
+      Date.now(),
+      ...buckets.flatMap(({ rate }) => [rate.limit, rate.interval])
+    )) as [number, ...string[]];
+    return { allowed: allowed === 1, tokens: tokens.map(Number) };
+  }
+}
+
+/**
+ * Token bucket rate limits per sender, per sender and intent, and across the
+ * agent. Senders with a subscription get `subscriberMultiplier` times the
+ * sender and intent quotas.
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+  private subscriberMultiplier: number;
+
+  constructor(private config: RateLimitConfig) {
+    this.store = config.store || new MemoryRateLimitStore();
+    this.subscriberMultiplier = config.subscriberMultiplier ?? 10;
+  }
+
+  /**
+   * Whether limits depend on the sender's subscriptions
+   */
+  get hasSubscriberTier(): boolean {
+    return this.subscriberMultiplier !== 1;
+  }
+
+  /**
+   * Take a token for a message from each bucket that applies, or from none
+   * when any of them is empty. `sender` identifies the client: its verified
+   * signer when there is one. Returns undefined when no limit applies.
+   */
+  async check(
+    sender: string,
+    intent: string,
+    options: { intentLimit?: RateLimit; subscriber?: boolean } = {}
+  ): Promise<RateLimitResult | undefined> {
+    const multiplier = options.subscriber ? this.subscriberMultiplier : 1;
+    const candidates: Array<{ scope: RateLimitScope; key: string; rate?: RateLimit }> = [
+      { scope: 'sender', key: `sender:${sender}`, rate: scale(this.config.sender, multiplier) },
+      {
+        scope: 'intent',
+        key: `intent:${intent}:${sender}`,
+        rate: scale(options.intentLimit, multiplier),
+      },
+      { scope: 'global', key: 'global', rate: this.config.global },
+    ];
+    const buckets = candidates.filter(
+      (bucket): bucket is BucketRequest & { scope: RateLimitScope } => bucket.rate !== undefined
+    );
+    if (buckets.length === 0) {
+      return undefined;
+    }
+
+    const { allowed, tokens } = await this.store.take(buckets);
+
+    if (!allowed) {
+      // Reported against the first empty bucket, the sender's first
+      const refused = buckets.findIndex((_, i) => tokens[i] < 1);
+      const { scope, rate } = buckets[refused];
+      const retryAfter = Math.max(
+        1,
+        Math.ceil(((1 - tokens[refused]) * rate.interval) / rate.limit / 1000)
+      );
+      logger.debug(`Rate limited ${sender} (${scope})`, { intent, retryAfter });
+      return { ...toStatus(rate, tokens[refused]), allowed, scope, retryAfter };
+    }
+
+    let result: RateLimitResult | undefined;
+    for (const [i, { scope, rate }] of buckets.entries()) {
+      const status = toStatus(rate, tokens[i]);
+      if (!result || status.remaining < result.remaining) {
+        result = { ...status, allowed, scope };
+      }
+    }
+    return result;
+  }
+}
+
+function scale(rate: RateLimit | undefined, multiplier: number): RateLimit | undefined {
+  return rate && { ...rate, limit: rate.limit * multiplier };
+}
+
+function toStatus(rate: RateLimit, tokens: number): RateLimitStatus {
+  return {
+    limit: rate.limit,
+    remaining: Math.floor(tokens),
+    reset: Math.ceil(((rate.limit - tokens) * rate.interval) / rate.limit / 1000),
+  };
+}
@@ -0,0 +1,62 @@
+import { BaseWallet, getAddress, keccak256, toUtf8Bytes, verifyMessage } from 'ethers';
+import { v4 as uuidv4 } from 'uuid';
+import { canonicalize } from './signing.js';
+import { PaymentReceipt } from './types/payment.js';
+
+/**
+ * Receipt fields filled in by the paid agent before signing
+ */
+export type UnsignedPaymentReceipt = Omit<
+  PaymentReceipt,
+  'id' | 'issuedAt' | 'signer' | 'signature'
+>;
+
+/**
+ * Hash binding a receipt to the response data it paid for
+ */
+export function hashResult(data: unknown): string {
+  return keccak256(toUtf8Bytes(canonicalize(data ?? null)));
+}
+
+/**
+ * Canonical serialization of a receipt, excluding its signature
+ */
+function canonicalizeReceipt(receipt: PaymentReceipt): string {
+  return canonicalize({ ...receipt, signature: undefined });
+}
+
+/**
+ * Issue a receipt signed (EIP-191) by the paid agent's wallet
+ */
+export function signPaymentReceipt(
+  receipt: UnsignedPaymentReceipt,
+  wallet: BaseWallet
+): PaymentReceipt {
+  const unsigned: PaymentReceipt = {
+    ...receipt,
+    id: uuidv4(),
+    issuedAt: Date.now(),
+    signer: wallet.address,
+    signature: '',
+  };
+
+  return { ...unsigned, signature: wallet.signMessageSync(canonicalizeReceipt(unsigned)) };
+}
+
+/**
+ * Check a receipt's signature against its `signer` and, when given, that it
+ * covers the response data. Binding the signer to the payee DID is left to the
+ * caller (see getCardSignerAddresses).
+ */
+export function verifyPaymentReceipt(receipt: PaymentReceipt, data?: unknown): boolean {
+  if (data !== undefined && receipt.resultHash !== hashResult(data)) {
+    return false;
+  }
+
+  try {
+    const recovered = verifyMessage(canonicalizeReceipt(receipt), receipt.signature);
+    return recovered === getAddress(receipt.signer);
+  } catch {
+    return false;
+  }
+}
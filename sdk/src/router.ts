@@ -1,12 +1,70 @@
 import axios, { AxiosError } from 'axios';
-import { A2AMessage, A2AResponse, SendMessageOptions } from './types/message.js';
+import {
+  A2AMessage,
+  A2AResponse,
+  SendMessageOptions,
+  StreamMessageOptions,
+} from './types/message.js';
+import { AgentCard } from './types/agent.js';
+import { AgentTask, AgentTaskSchema } from './types/task.js';
 import { AgentRegistry } from './registry.js';
+import { createOutboundAuthHeaders, OutboundCredentials } from './auth.js';
+import {
+  UACPPaymentClient,
+  encodePaymentHeader,
+  PaymentPayload,
+  PaymentRequirements,
+} from './x402.js';
+import { PaymentLedger } from './ledger.js';
+import { SpendingPolicy, SpendingPolicyEnforcer } from './spending.js';
+import { Outbox, OutboxEntry, isRedeliverable } from './outbox.js';
+import { OutboundContext, OutboundMiddleware, runMiddleware } from './middleware.js';
+import {
+  DEADLINE_HEADER,
+  createDeadlineSignal,
+  earliestDeadline,
+  getExpiry,
+  getInheritedDeadline,
+} from './deadline.js';
+import {
+  HttpTransport,
+  InProcessTransport,
+  StreamResult,
+  Transport,
+  UnixSocketTransport,
+  getHttpTarget,
+  getScheme,
+} from './transport.js';
+import { WebSocketTransport } from './websocket.js';
 import { Logger } from './utils/logger.js';
-import { NetworkError, TimeoutError, PaymentRequiredError } from './utils/errors.js';
-import { retry, CircuitBreaker } from './utils/retry.js';
+import {
+  AgentBusyError,
+  DeadlineExceededError,
+  NetworkError,
+  TimeoutError,
+  PaymentRequiredError,
+  TaskNotFoundError,
+  RateLimitedError,
+  TransportUnavailableError,
+  UACPError,
+} from './utils/errors.js';
+import { retryWithCondition, CircuitBreaker, getRetryAfter } from './utils/retry.js';
+import { validate } from './utils/validation.js';
 
 const logger = new Logger({ level: 'info', prefix: 'Router' });
 
+/**
+ * Error for a 429 response, carrying the delay the recipient asked for
+ */
+function toThrottledError(response: A2AResponse): UACPError {
+  const details = response.error?.details as Record<string, unknown> | undefined;
+  const retryAfter = typeof details?.retryAfter === 'number' ? details.retryAfter : 1;
+  const message = response.error?.message || 'Too many requests';
+  return response.error?.code === 'INTENT_BUSY'
+    ? new AgentBusyError(message, 'INTENT_BUSY', retryAfter, details)
+    : new RateLimitedError(message, retryAfter, details);
+}
+
 /**
  * Message Router - Handles message delivery and routing
  */
@@ -14,19 +72,63 @@ export class MessageRouter {
   private registry: AgentRegistry;
   private circuitBreakers: Map<string, CircuitBreaker> = new Map();
   private defaultTimeout = 30000; // 30 seconds
+  private credentials?: OutboundCredentials;
+  private messageSigner?: (message: A2AMessage) => A2AMessage;
+  private paymentClient?: UACPPaymentClient;
+  private spendingPolicy?: SpendingPolicyEnforcer;
+  private paymentLedger: PaymentLedger = new PaymentLedger();
+  private webSocket: WebSocketTransport = new WebSocketTransport();
+  private transports: Map<string, Transport> = new Map();
+  private outbox?: Outbox;
+  private middleware: OutboundMiddleware[] = [];
 
   constructor(registry: AgentRegistry) {
     this.registry = registry;
+    this.registerTransport(new HttpTransport());
+    this.registerTransport(new UnixSocketTransport());
+    this.registerTransport(this.webSocket);
+    this.registerTransport(InProcessTransport.shared);
   }
 
   /**
-   * Send a message to a recipient agent
+   * Add middleware around every message sent. Middleware runs in the order added.
+   */
+  use(middleware: OutboundMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Send a message to a recipient agent, through the router's middleware
    */
   async sendMessage(
     message: A2AMessage,
     options: SendMessageOptions = {}
   ): Promise<A2AResponse> {
-    const { timeout = this.defaultTimeout, retries = 3, headers = {}, payment } = options;
+    if (this.middleware.length === 0) {
+      return this.send(message, options);
+    }
+
+    const ctx: OutboundContext = { message, options, state: {} };
+    return runMiddleware(this.middleware, ctx, () => {
+      // Middleware may have changed the message since it was signed
+      const outgoing = this.messageSigner ? this.messageSigner(ctx.message) : ctx.message;
+      return this.send(outgoing, ctx.options);
+    });
+  }
+
+  /**
+   * Send a message to a recipient agent
+   */
+  private async send(message: A2AMessage, options: SendMessageOptions = {}): Promise<A2AResponse> {
+    const {
+      timeout = this.defaultTimeout,
+      retries = 3,
+      headers = {},
+      payment,
+      autoPay = true,
+      deadline = getInheritedDeadline(), // Messages sent from a handler share its deadline
+    } = options;
+    let paying = false;
 
     try {
       // Get recipient agent details
@@ -40,82 +142,366 @@ export class MessageRouter {
         endpoint: recipient.endpoint,
       });
 
-      // Get or create circuit breaker for this agent
-      const circuitBreaker = this.getCircuitBreaker(recipient.id);
-
       // Prepare headers
       const requestHeaders: Record<string, string> = {
         'Content-Type': 'application/json',
         'X-Message-ID': message.id,
         'X-Sender-ID': message.sender,
+        ...(await createOutboundAuthHeaders(recipient, message.sender, this.credentials)),
         ...headers,
       };
 
       // Add payment header if provided
       if (payment) {
-        requestHeaders['X-Payment'] = JSON.stringify(payment);
+        requestHeaders['X-Payment'] = encodePaymentHeader(payment);
       }
 
-      // Send message with retry logic
-      const response = await retry(
-        async () => {
-          return await circuitBreaker.execute(async () => {
-            return await this.sendHTTPRequest(recipient.endpoint, message, requestHeaders, timeout);
-          });
-        },
-        { maxRetries: retries },
-        `sendMessage:${message.intent}`
+      const response = await this.deliver(
+        recipient,
+        message,
+        requestHeaders,
+        timeout,
+        retries,
+        deadline
       );
 
+      // Handle payment required (402)
+      if (response.status === 402) {
+        if (this.paymentClient && autoPay && !payment && response.paymentRequirements) {
+          paying = true;
+          return await this.payAndResend(
+            recipient,
+            message,
+            requestHeaders,
+            timeout,
+            retries,
+            response.paymentRequirements,
+            deadline
+          );
+        }
+
+        throw new PaymentRequiredError(
+          'Payment required for this resource',
+          response.paymentRequirements
+        );
+      }
+
       return response;
     } catch (error) {
       logger.error('Failed to send message', error);
-      throw this.handleError(error);
+      const failure = this.handleError(error);
+
+      // Paid messages are not stored: redelivery could pay twice
+      const storable = options.outbox !== false && !payment && !paying;
+      if (this.outbox && storable && isRedeliverable(failure)) {
+        await this.outbox.add(message, failure, { timeout: options.timeout, headers });
+      }
+
+      throw failure;
     }
   }
 
   /**
-   * Send HTTP request to agent endpoint
+   * Deliver a message with retry logic and the recipient's circuit breaker.
+   * Each attempt gets the timeout, cut short by the deadline and the message's
+   * ttl, and tells the recipient when it ends in the X-Deadline header.
    */
-  private async sendHTTPRequest(
-    endpoint: string,
+  private async deliver(
+    recipient: AgentCard,
     message: A2AMessage,
     headers: Record<string, string>,
-    timeout: number
+    timeout: number,
+    retries: number,
+    deadline?: number
   ): Promise<A2AResponse> {
+    // Get or create circuit breaker for this agent
+    const circuitBreaker = this.getCircuitBreaker(recipient.id);
+    const finalDeadline = earliestDeadline(deadline, getExpiry(message));
+
+    return await retryWithCondition(
+      async () => {
+        const attemptDeadline = earliestDeadline(Date.now() + timeout, finalDeadline)!;
+        const remaining = attemptDeadline - Date.now();
+        if (remaining <= 0) {
+          throw new DeadlineExceededError(attemptDeadline);
+        }
+
+        const attemptHeaders = { ...headers, [DEADLINE_HEADER]: String(attemptDeadline) };
+        let response: A2AResponse;
+        try {
+          response = await circuitBreaker.execute(async () => {
+            return await this.sendRequest(recipient, message, attemptHeaders, remaining);
+          });
+        } catch (error) {
+          // Timing out at the deadline is final, not a failure to retry or redeliver
+          if (error instanceof TimeoutError && attemptDeadline === finalDeadline) {
+            throw new DeadlineExceededError(attemptDeadline);
+          }
+          throw error;
+        }
+
+        // The recipient is healthy but throttling: retry after the delay it asks for
+        if (response.status === 429) {
+          throw toThrottledError(response);
+        }
+        return response;
+      },
+      (error) =>
+        !(error instanceof DeadlineExceededError) &&
+        (finalDeadline === undefined || Date.now() + (getRetryAfter(error) ?? 0) < finalDeadline),
+      { maxRetries: retries },
+      `sendMessage:${message.intent}`
+    );
+  }
+
+  /**
+   * Pay for a 402 response within the spending policy and resend the same message
+   */
+  private async payAndResend(
+    recipient: AgentCard,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number,
+    retries: number,
+    requirements: PaymentRequirements,
+    deadline?: number
+  ): Promise<A2AResponse> {
+    const amount = requirements.maxAmountRequired;
+
+    // Held against the limits until the payment is in the ledger
+    const release = this.spendingPolicy?.reserve({
+      recipient: recipient.id,
+      amount,
+      asset: requirements.asset,
+      network: requirements.network,
+    });
+
+    let payload: PaymentPayload;
     try {
-      const response = await axios.post(`${endpoint}/a2a`, message, {
-        headers,
+      payload = await this.paymentClient!.processPayment(requirements, {
+        messageId: message.id,
+        intent: message.intent,
+        sender: message.sender,
+        recipient: recipient.id,
+      });
+    } finally {
+      release?.();
+    }
+
+    logger.info(`💳 Paying ${amount} to ${recipient.name} for ${message.intent}`);
+
+    let response: A2AResponse;
+    try {
+      response = await this.deliver(
+        recipient,
+        message,
+        { ...headers, 'X-Payment': encodePaymentHeader(payload) },
         timeout,
-        validateStatus: (status) => status < 500, // Don't throw on 4xx errors
+        retries,
+        deadline
+      );
+    } catch (error) {
+      // Keep the entry as submitted: the authorization may still have been settled
+      logger.warn(`Paid request failed for ${message.intent}`, {
+        messageId: message.id,
+        error: error instanceof Error ? error.message : String(error),
       });
+      throw error;
+    }
 
-      // Handle payment required (402)
-      if (response.status === 402) {
-        const a2aResponse = response.data as A2AResponse;
-        throw new PaymentRequiredError(
-          'Payment required for this resource',
-          a2aResponse.paymentRequirements
+    this.paymentClient!.confirmPayment(message.id, response);
+
+    if (response.status === 402) {
+      throw new PaymentRequiredError(
+        response.error?.message || 'Payment was not accepted',
+        response.paymentRequirements
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a message over the first transport that can reach the recipient
+   */
+  private async sendRequest(
+    recipient: AgentCard,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    const routes = this.getRoutes(recipient);
+    if (routes.length === 0) {
+      throw new UACPError(
+        `No transport for any endpoint of ${recipient.name}`,
+        'UNSUPPORTED_TRANSPORT',
+        { endpoint: recipient.endpoint, endpoints: recipient.endpoints }
+      );
+    }
+
+    let lastError: unknown;
+    for (const { transport, endpoint } of routes) {
+      try {
+        return await transport.send(endpoint, message, headers, timeout);
+      } catch (error) {
+        // Only fall back when nothing was sent, so the message is not delivered twice
+        if (!(error instanceof TransportUnavailableError)) {
+          throw error;
+        }
+        logger.warn(`${endpoint} unavailable for ${recipient.name}, trying next endpoint`, {
+          error: error.message,
+        });
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Endpoints to try for a recipient, in order: open connections, the card's
+   * additional endpoints, then its primary endpoint
+   */
+  private getRoutes(recipient: AgentCard): Array<{ transport: Transport; endpoint: string }> {
+    const routes: Array<{ transport: Transport; endpoint: string }> = [];
+
+    for (const endpoint of [...(recipient.endpoints || []), recipient.endpoint]) {
+      const transport = this.getTransport(endpoint);
+      if (transport) {
+        routes.push({ transport, endpoint });
+      }
+    }
+
+    // A connection the recipient opened to us reaches it even without a matching endpoint
+    for (const transport of new Set(this.transports.values())) {
+      if (transport.isConnected?.(recipient.id)) {
+        const index = routes.findIndex((route) => route.transport === transport);
+        const [route] = index === -1 ? [] : routes.splice(index, 1);
+        routes.unshift(route || { transport, endpoint: recipient.endpoint });
+      }
+    }
+
+    return routes;
+  }
+
+  /**
+   * Send a message to a streaming intent and iterate over the chunks it yields.
+   * Breaking out of the loop or aborting `options.signal` closes the stream; an
+   * error frame is thrown as a UACPError.
+   */
+  async *streamMessage<T = unknown>(
+    message: A2AMessage,
+    options: StreamMessageOptions = {}
+  ): AsyncGenerator<T> {
+    const {
+      timeout = this.defaultTimeout,
+      headers = {},
+      signal,
+      deadline = getInheritedDeadline(),
+    } = options;
+
+    const recipient = await this.registry.getAgent(message.recipient);
+    logger.debug(`Streaming message to ${recipient.name}`, {
+      messageId: message.id,
+      intent: message.intent,
+    });
+
+    // The stream closes at the deadline, on abort, or when the consumer stops early
+    const stop = createDeadlineSignal(deadline, [signal]);
+    const controller = new AbortController();
+    const abort = () => controller.abort(stop.signal.reason);
+    if (stop.signal.aborted) abort();
+    stop.signal.addEventListener('abort', abort);
+
+    try {
+      const opened = await this.openStream(
+        recipient,
+        message,
+        {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          'X-Message-ID': message.id,
+          'X-Sender-ID': message.sender,
+          ...(await createOutboundAuthHeaders(recipient, message.sender, this.credentials)),
+          ...(deadline !== undefined && { [DEADLINE_HEADER]: String(deadline) }),
+          ...headers,
+        },
+        timeout,
+        controller.signal
+      );
+
+      if ('response' in opened) {
+        const rejected = opened.response;
+        throw new UACPError(
+          rejected.error?.message || `Stream request failed with status ${rejected.status}`,
+          rejected.error?.code || 'STREAM_ERROR',
+          rejected.error?.details
         );
       }
 
-      return response.data as A2AResponse;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
-          throw new TimeoutError(`Request timeout after ${timeout}ms`, timeout);
-        }
-        if (error.response?.status === 402) {
-          throw new PaymentRequiredError(
-            'Payment required for this resource',
-            error.response.data?.paymentRequirements
-          );
+      for await (const frame of opened.frames) {
+        const data = JSON.parse(frame.data);
+        if (frame.event === 'chunk') {
+          yield data as T;
+        } else if (frame.event === 'error') {
+          throw new UACPError(data.message, data.code, data.details);
+        } else if (frame.event === 'done') {
+          return;
         }
       }
+
+      throw new NetworkError('Stream ended before completion', { messageId: message.id });
+    } catch (error) {
+      if (stop.signal.reason instanceof DeadlineExceededError) {
+        throw stop.signal.reason;
+      }
+      if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+        throw new TimeoutError(`Stream idle for more than ${timeout}ms`, timeout);
+      }
       throw error;
+    } finally {
+      stop.signal.removeEventListener('abort', abort);
+      stop.dispose();
+      // Close the connection if the consumer stopped early
+      controller.abort();
     }
   }
 
+  /**
+   * Open a stream over the first transport that can reach the recipient
+   */
+  private async openStream(
+    recipient: AgentCard,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<StreamResult> {
+    const routes = this.getRoutes(recipient).filter((route) => route.transport.stream);
+    if (routes.length === 0) {
+      throw new UACPError(
+        `No transport can stream to any endpoint of ${recipient.name}`,
+        'UNSUPPORTED_TRANSPORT',
+        { endpoint: recipient.endpoint, endpoints: recipient.endpoints }
+      );
+    }
+
+    let lastError: unknown;
+    for (const { transport, endpoint } of routes) {
+      try {
+        return await transport.stream!(endpoint, message, headers, timeout, signal);
+      } catch (error) {
+        if (!(error instanceof TransportUnavailableError)) {
+          throw error;
+        }
+        logger.warn(`${endpoint} unavailable for ${recipient.name}, trying next endpoint`, {
+          error: error.message,
+        });
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
   /**
    * Broadcast message to multiple agents
    */
@@ -128,7 +514,11 @@ export class MessageRouter {
 
     const promises = recipientIds.map(async (recipientId) => {
       try {
-        const modifiedMessage = { ...message, recipient: recipientId };
+        // Re-sign per recipient since the recipient is part of the signed content
+        let modifiedMessage: A2AMessage = { ...message, recipient: recipientId };
+        if (this.messageSigner) {
+          modifiedMessage = this.messageSigner(modifiedMessage);
+        }
         const response = await this.sendMessage(modifiedMessage, options);
         results.set(recipientId, response);
       } catch (error) {
@@ -146,6 +536,52 @@ export class MessageRouter {
     return results;
   }
 
+  /**
+   * Fetch the state of an asynchronous task from the agent running it
+   */
+  async getTask(agentId: string, taskId: string, senderId: string): Promise<AgentTask> {
+    return this.requestTask('get', agentId, taskId, senderId);
+  }
+
+  /**
+   * Cancel an asynchronous task. Returns the task as it stands, which may already
+   * be final.
+   */
+  async cancelTask(agentId: string, taskId: string, senderId: string): Promise<AgentTask> {
+    return this.requestTask('post', agentId, taskId, senderId);
+  }
+
+  private async requestTask(
+    method: 'get' | 'post',
+    agentId: string,
+    taskId: string,
+    senderId: string
+  ): Promise<AgentTask> {
+    const recipient = await this.registry.getAgent(agentId);
+    const path = `/tasks/${encodeURIComponent(taskId)}${method === 'post' ? '/cancel' : ''}`;
+    const { baseUrl, socketPath } = getHttpTarget(recipient.endpoint);
+
+    try {
+      const response = await axios.request({
+        method,
+        url: `${baseUrl}${path}`,
+        socketPath,
+        headers: {
+          'X-Sender-ID': senderId,
+          ...(await createOutboundAuthHeaders(recipient, senderId, this.credentials)),
+        },
+        timeout: this.defaultTimeout,
+        validateStatus: (status) => status < 300 || status === 409, // 409: already final
+      });
+      return validate(AgentTaskSchema, response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new TaskNotFoundError(taskId);
+      }
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Get or create circuit breaker for an agent
    */
@@ -161,6 +597,81 @@ export class MessageRouter {
     return this.circuitBreakers.get(agentId)!;
   }
 
+  /**
+   * Register a transport for the URL schemes it handles, replacing any
+   * transport previously registered for them
+   */
+  registerTransport(transport: Transport): void {
+    for (const scheme of transport.schemes) {
+      this.transports.set(scheme, transport);
+    }
+  }
+
+  /**
+   * Transport for an endpoint URL, by its scheme
+   */
+  getTransport(endpoint: string): Transport | undefined {
+    const scheme = getScheme(endpoint);
+    return scheme ? this.transports.get(scheme) : undefined;
+  }
+
+  /**
+   * WebSocket links to other agents
+   */
+  getWebSocketTransport(): WebSocketTransport {
+    return this.webSocket;
+  }
+
+  /**
+   * Store messages that cannot be delivered in an outbox and redeliver them
+   */
+  setOutbox(outbox: Outbox): void {
+    this.outbox?.close();
+    this.outbox = outbox;
+    outbox.start({
+      deliver: (entry) => this.redeliver(entry),
+      isAvailable: (agentId) => this.circuitBreakers.get(agentId)?.allowsRequests() ?? true,
+    });
+  }
+
+  /**
+   * Outbox of undelivered messages, if one is set
+   */
+  getOutbox(): Outbox | undefined {
+    return this.outbox;
+  }
+
+  /**
+   * Send a stored message once more, through the middleware like the first
+   * attempt. It is restamped (and re-signed) to fall inside the recipient's
+   * replay window, with the remainder of its ttl, and keeps its id so a copy
+   * that did arrive before is dropped as a duplicate.
+   */
+  private redeliver(entry: OutboxEntry): Promise<A2AResponse> {
+    const { timestamp, ttl } = entry.message;
+    const now = Date.now();
+    let message: A2AMessage = {
+      ...entry.message,
+      timestamp: now,
+      ...(ttl && { ttl: Math.max(1, Math.ceil((timestamp + ttl * 1000 - now) / 1000)) }),
+    };
+    // Middleware, when there is any, is followed by signing
+    if (this.messageSigner && this.middleware.length === 0) {
+      message = this.messageSigner(message);
+    }
+    return this.sendMessage(message, { ...entry.options, retries: 0, outbox: false });
+  }
+
+  /**
+   * Close pooled connections and stop redelivering
+   */
+  close(): void {
+    for (const transport of new Set(this.transports.values())) {
+      transport.close?.();
+    }
+    this.outbox?.close();
+  }
+
   /**
    * Reset circuit breaker for an agent
    */
@@ -194,6 +705,45 @@ export class MessageRouter {
     return new Error(`Unknown error: ${String(error)}`);
   }
 
+  /**
+   * Set credentials attached to outbound requests based on the recipient's auth type
+   */
+  setCredentials(credentials: OutboundCredentials): void {
+    this.credentials = credentials;
+  }
+
+  /**
+   * Set the signer used to re-sign messages the router rewrites (e.g. broadcasts)
+   */
+  setMessageSigner(signer: (message: A2AMessage) => A2AMessage): void {
+    this.messageSigner = signer;
+  }
+
+  /**
+   * Attach a payment client so 402 responses are paid automatically within the policy
+   */
+  setPaymentClient(
+    client: UACPPaymentClient,
+    options: { policy?: SpendingPolicy; ledger?: PaymentLedger } = {}
+  ): void {
+    this.paymentClient = client;
+    if (options.ledger) {
+      client.setLedger(options.ledger);
+    }
+    this.paymentLedger = client.getLedger();
+    this.spendingPolicy = options.policy
+      ? new SpendingPolicyEnforcer(options.policy, this.paymentLedger)
+      : undefined;
+    logger.info('Payment client attached', { policy: options.policy });
+  }
+
+  /**
+   * Ledger of payments made by this router
+   */
+  getPaymentLedger(): PaymentLedger {
+    return this.paymentLedger;
+  }
+
   /**
    * Set default timeout for requests
    */
@@ -0,0 +1,173 @@
+import { BaseWallet, getAddress, hexlify, randomBytes, verifyTypedData } from 'ethers';
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  VerifyResponse,
+  X402_VERSION,
+} from './types/payment.js';
+
+/**
+ * Chain IDs for known network names (override with `requirements.extra.chainId`)
+ */
+export const NETWORK_CHAIN_IDS: Record<string, number> = {
+  somnia: 5031,
+  'somnia-testnet': 50312,
+  hardhat: 31337,
+  localhost: 31337,
+  ethereum: 1,
+  base: 8453,
+  'base-sepolia': 84532,
+  polygon: 137,
+  'polygon-amoy': 80002,
+};
+
+/**
+ * EIP-712 types for EIP-3009 transferWithAuthorization
+ */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+/**
+ * EIP-712 domain of the token contract named in the requirements.
+ * Token name/version come from `extra.name` / `extra.version` (USDC defaults).
+ */
+export function getAuthorizationDomain(requirements: PaymentRequirements) {
+  const chainId = Number(requirements.extra?.chainId ?? NETWORK_CHAIN_IDS[requirements.network]);
+  if (!chainId) {
+    throw new Error(`Unknown chain ID for network: ${requirements.network}`);
+  }
+
+  return {
+    name: String(requirements.extra?.name ?? 'USD Coin'),
+    version: String(requirements.extra?.version ?? '2'),
+    chainId,
+    verifyingContract: requirements.asset,
+  };
+}
+
+/**
+ * Subscription period in seconds declared in `requirements.extra.period`
+ */
+export function getSubscriptionPeriod(requirements: PaymentRequirements): number {
+  const period = Number(requirements.extra?.period);
+  if (!Number.isFinite(period) || period <= 0) {
+    throw new Error('Subscription requirements must declare extra.period in seconds');
+  }
+  return period;
+}
+
+/**
+ * Amount a client authorizes for the requirements. Range payments authorize
+ * the maximum; the server settles actual usage up to it.
+ */
+export function getAuthorizedAmount(requirements: PaymentRequirements): string {
+  return requirements.maxAmountRequired;
+}
+
+/**
+ * Sign an EIP-3009 authorization for any scheme without contacting a facilitator
+ */
+export async function signPaymentAuthorization(
+  wallet: BaseWallet,
+  requirements: PaymentRequirements,
+  value: string = getAuthorizedAmount(requirements)
+): Promise<PaymentPayload> {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: wallet.address,
+    to: getAddress(requirements.payTo),
+    value,
+    validAfter: now - 60,
+    validBefore: now + requirements.maxTimeoutSeconds,
+    nonce: hexlify(randomBytes(32)),
+  };
+
+  const signature = await wallet.signTypedData(
+    getAuthorizationDomain(requirements),
+    TRANSFER_WITH_AUTHORIZATION_TYPES,
+    authorization
+  );
+
+  return {
+    x402Version: X402_VERSION,
+    scheme: requirements.scheme,
+    network: requirements.network,
+    payload: { signature, authorization },
+  };
+}
+
+/**
+ * Verify a payment payload against requirements offline: signature, recipient,
+ * validity window and the scheme's amount rules.
+ */
+export function verifyPaymentAuthorization(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  now: number = Math.floor(Date.now() / 1000)
+): VerifyResponse {
+  const { authorization, signature } = payload.payload;
+  const invalid = (invalidReason: string): VerifyResponse => ({
+    isValid: false,
+    payer: authorization.from,
+    invalidReason,
+  });
+
+  if (payload.scheme !== requirements.scheme || payload.network !== requirements.network) {
+    return invalid('Payload scheme or network does not match requirements');
+  }
+
+  if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+    return invalid('Authorization recipient does not match payTo');
+  }
+
+  if (now < authorization.validAfter || now >= authorization.validBefore) {
+    return invalid('Authorization is outside its validity window');
+  }
+
+  const value = BigInt(authorization.value);
+  const max = BigInt(requirements.maxAmountRequired);
+
+  switch (requirements.scheme) {
+    case 'exact':
+    case 'subscription':
+      if (value !== max) {
+        return invalid(`Authorized amount must equal ${requirements.maxAmountRequired}`);
+      }
+      break;
+    case 'range': {
+      const min = BigInt(requirements.minAmountRequired ?? '0');
+      if (value < min || value > max) {
+        return invalid(
+          `Authorized amount must be between ${min.toString()} and ${requirements.maxAmountRequired}`
+        );
+      }
+      break;
+    }
+  }
+
+  let signer: string;
+  try {
+    signer = verifyTypedData(
+      getAuthorizationDomain(requirements),
+      TRANSFER_WITH_AUTHORIZATION_TYPES,
+      authorization,
+      signature
+    );
+  } catch {
+    return invalid('Malformed authorization signature');
+  }
+
+  if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+    return invalid('Authorization signature does not match payer');
+  }
+
+  return { isValid: true, payer: getAddress(authorization.from) };
+}
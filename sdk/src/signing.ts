@@ -0,0 +1,233 @@
+import {
+  BaseWallet,
+  TypedDataEncoder,
+  getAddress,
+  keccak256,
+  toUtf8Bytes,
+  verifyMessage,
+  verifyTypedData,
+} from 'ethers';
+import { AgentCard } from './types/agent.js';
+import { A2AMessage } from './types/message.js';
+import { SignatureVerificationError } from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+import { validateAddress } from './utils/validation.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Signing' });
+
+/**
+ * Supported message signature schemes
+ */
+export type SignatureScheme = 'eip191' | 'eip712';
+
+/**
+ * Resolves the addresses allowed to sign for a sender DID
+ */
+export type SignerResolver = (did: string) => Promise<string[]>;
+
+/**
+ * EIP-712 domain for A2A messages
+ */
+export const A2A_MESSAGE_DOMAIN = {
+  name: 'UACP',
+  version: '1',
+};
+
+/**
+ * EIP-712 types for A2A messages
+ */
+export const A2A_MESSAGE_TYPES = {
+  A2AMessage: [
+    { name: 'id', type: 'string' },
+    { name: 'sender', type: 'string' },
+    { name: 'recipient', type: 'string' },
+    { name: 'intent', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'contentHash', type: 'bytes32' },
+  ],
+};
+
+/**
+ * Deterministic JSON serialization with sorted keys and undefined values dropped
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Canonical serialization of a message, excluding its signature
+ */
+export function canonicalizeMessage(message: A2AMessage): string {
+  return canonicalize({ ...message, signature: undefined });
+}
+
+function toTypedData(message: A2AMessage) {
+  return {
+    id: message.id,
+    sender: message.sender,
+    recipient: message.recipient,
+    intent: message.intent,
+    timestamp: message.timestamp,
+    contentHash: keccak256(toUtf8Bytes(canonicalizeMessage(message))),
+  };
+}
+
+/**
+ * Sign a message with a wallet and return the signed copy
+ */
+export function signA2AMessage(
+  message: A2AMessage,
+  wallet: BaseWallet,
+  scheme: SignatureScheme = 'eip191'
+): A2AMessage {
+  const signature =
+    scheme === 'eip712'
+      ? wallet.signingKey.sign(
+          TypedDataEncoder.hash(A2A_MESSAGE_DOMAIN, A2A_MESSAGE_TYPES, toTypedData(message))
+        ).serialized
+      : wallet.signMessageSync(canonicalizeMessage(message));
+
+  return { ...message, signature };
+}
+
+/**
+ * Recover the signer address of a message, or null if the signature is malformed
+ */
+export function recoverMessageSigner(
+  message: A2AMessage,
+  scheme: SignatureScheme = 'eip191'
+): string | null {
+  if (!message.signature) return null;
+
+  try {
+    return scheme === 'eip712'
+      ? verifyTypedData(
+          A2A_MESSAGE_DOMAIN,
+          A2A_MESSAGE_TYPES,
+          toTypedData(message),
+          message.signature
+        )
+      : verifyMessage(canonicalizeMessage(message), message.signature);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signer addresses published on an agent card: `metadata.signerAddress`, or the
+ * on-chain `metadata.owner`
+ */
+export function getCardSignerAddresses(card: AgentCard): string[] {
+  const candidates = [card.metadata?.signerAddress, card.metadata?.owner];
+  return candidates
+    .filter((value): value is string => typeof value === 'string' && validateAddress(value))
+    .map((address) => getAddress(address));
+}
+
+/**
+ * Resolve signer addresses through a registry (memory, HTTP or on-chain)
+ */
+export function createRegistrySignerResolver(registry: {
+  getAgent(id: string): Promise<AgentCard>;
+}): SignerResolver {
+  return async (did: string) => {
+    const card = await registry.getAgent(did);
+    return getCardSignerAddresses(card);
+  };
+}
+
+/**
+ * Verifies that a message was signed by an address bound to its sender DID
+ */
+export class MessageVerifier {
+  private resolver: SignerResolver;
+  private cache: Map<string, { addresses: string[]; expiresAt: number }> = new Map();
+  private cacheTtl: number;
+
+  constructor(resolver: SignerResolver, cacheTtl = 60000) {
+    this.resolver = resolver;
+    this.cacheTtl = cacheTtl;
+  }
+
+  /**
+   * Verify a message signature, throwing SignatureVerificationError on failure
+   */
+  async verify(message: A2AMessage): Promise<string> {
+    if (!message.signature) {
+      throw new SignatureVerificationError('Message is not signed', { messageId: message.id });
+    }
+
+    const recovered = (['eip191', 'eip712'] as const)
+      .map((scheme) => recoverMessageSigner(message, scheme))
+      .filter((address): address is string => address !== null);
+
+    if (recovered.length === 0) {
+      throw new SignatureVerificationError('Malformed message signature', {
+        messageId: message.id,
+      });
+    }
+
+    const allowed = await this.resolveSigners(message.sender);
+    const signer = recovered.find((address) => allowed.includes(address));
+
+    if (!signer) {
+      logger.warn('Message signer not bound to sender DID', {
+        messageId: message.id,
+        sender: message.sender,
+        recovered,
+      });
+      throw new SignatureVerificationError(
+        `Signature does not match any signer registered for ${message.sender}`,
+        { messageId: message.id, sender: message.sender }
+      );
+    }
+
+    return signer;
+  }
+
+  /**
+   * Signer addresses allowed for a DID, cached for `cacheTtl`
+   */
+  async resolveSigners(did: string): Promise<string[]> {
+    const cached = this.cache.get(did);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.addresses;
+    }
+
+    let addresses: string[];
+    try {
+      addresses = (await this.resolver(did)).map((address) => getAddress(address));
+    } catch (error) {
+      throw new SignatureVerificationError(`Unable to resolve signers for ${did}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.cache.set(did, { addresses, expiresAt: Date.now() + this.cacheTtl });
+    return addresses;
+  }
+
+  /**
+   * Drop cached signer addresses (e.g. after key rotation)
+   */
+  clearCache(did?: string): void {
+    if (did) {
+      this.cache.delete(did);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { PaymentLedger } from './ledger.js';
+import { SpendingLimitError } from './utils/errors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits on automatic payments. Amounts are atomic units of the paid asset,
+ * and per-recipient/per-day limits are evaluated per asset over a rolling 24h window.
+ */
+export interface SpendingPolicy {
+  maxPerCall?: string;
+  maxPerRecipient?: string;
+  maxPerDay?: string;
+  allowedAssets?: string[];
+  allowedNetworks?: string[];
+}
+
+/**
+ * Payment a client is about to make
+ */
+export interface SpendingRequest {
+  recipient: string;
+  amount: string;
+  asset: string;
+  network: string;
+}
+
+/**
+ * Enforces a spending policy against the payments recorded in a ledger, and
+ * payments reserved but not recorded yet
+ */
+export class SpendingPolicyEnforcer {
+  private reservations: Set<SpendingRequest> = new Set();
+
+  constructor(
+    private policy: SpendingPolicy,
+    private ledger: PaymentLedger
+  ) {}
+
+  /**
+   * Throw SpendingLimitError if the payment would violate the policy
+   */
+  check(request: SpendingRequest): void {
+    const { policy } = this;
+    const amount = BigInt(request.amount);
+
+    if (
+      policy.allowedAssets &&
+      !policy.allowedAssets.some((asset) => asset.toLowerCase() === request.asset.toLowerCase())
+    ) {
+      throw new SpendingLimitError(`Asset not allowed: ${request.asset}`, request);
+    }
+
+    if (policy.allowedNetworks && !policy.allowedNetworks.includes(request.network)) {
+      throw new SpendingLimitError(`Network not allowed: ${request.network}`, request);
+    }
+
+    if (policy.maxPerCall !== undefined && amount > BigInt(policy.maxPerCall)) {
+      throw new SpendingLimitError(
+        `Payment of ${request.amount} exceeds per-call limit of ${policy.maxPerCall}`,
+        request
+      );
+    }
+
+    const since = Date.now() - DAY_MS;
+
+    if (policy.maxPerRecipient !== undefined) {
+      const spent =
+        this.ledger.total({
+          direction: 'outbound',
+          recipient: request.recipient,
+          asset: request.asset,
+          fromTimestamp: since,
+        }) + this.reserved(request.asset, request.recipient);
+      if (spent + amount > BigInt(policy.maxPerRecipient)) {
+        throw new SpendingLimitError(
+          `Payment would exceed per-recipient limit of ${policy.maxPerRecipient} for ${request.recipient}`,
+          { ...request, spent: spent.toString() }
+        );
+      }
+    }
+
+    if (policy.maxPerDay !== undefined) {
+      const spent =
+        this.ledger.total({
+          direction: 'outbound',
+          asset: request.asset,
+          fromTimestamp: since,
+        }) + this.reserved(request.asset);
+      if (spent + amount > BigInt(policy.maxPerDay)) {
+        throw new SpendingLimitError(
+          `Payment would exceed daily limit of ${policy.maxPerDay}`,
+          { ...request, spent: spent.toString() }
+        );
+      }
+    }
+  }
+
+  /**
+   * Check a payment and hold its amount against the limits until the returned
+   * release is called: once the payment is recorded in the ledger, or failed.
+   * Concurrent payments then cannot all pass the same check.
+   */
+  reserve(request: SpendingRequest): () => void {
+    this.check(request);
+    const reservation = { ...request };
+    this.reservations.add(reservation);
+    return () => {
+      this.reservations.delete(reservation);
+    };
+  }
+
+  private reserved(asset: string, recipient?: string): bigint {
+    let total = 0n;
+    for (const reservation of this.reservations) {
+      if (
+        reservation.asset.toLowerCase() === asset.toLowerCase() &&
+        (recipient === undefined || reservation.recipient === recipient)
+      ) {
+        total += BigInt(reservation.amount);
+      }
+    }
+    return total;
+  }
+}
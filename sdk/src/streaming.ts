@@ -0,0 +1,110 @@
+import type { Response } from 'express';
+
+/**
+ * A Server-Sent Events frame
+ */
+export interface EventStreamFrame {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Start a Server-Sent Events response
+ */
+export function openEventStream(res: Response): void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering
+  });
+  res.flushHeaders();
+}
+
+/**
+ * Create a frame with a JSON payload
+ */
+export function createFrame(event: string, data: unknown, id?: string | number): EventStreamFrame {
+  return {
+    event,
+    data: JSON.stringify(data ?? null),
+    ...(id !== undefined && { id: String(id) }),
+  };
+}
+
+/**
+ * Write a frame to a Server-Sent Events response
+ */
+export function writeFrame(res: Response, frame: EventStreamFrame): void {
+  const idLine = frame.id !== undefined ? `id: ${frame.id}\n` : '';
+  res.write(`${idLine}event: ${frame.event}\ndata: ${frame.data}\n\n`);
+}
+
+/**
+ * Write an event with a JSON payload
+ */
+export function writeEvent(
+  res: Response,
+  event: string,
+  data: unknown,
+  id?: string | number
+): void {
+  writeFrame(res, createFrame(event, data, id));
+}
+
+/**
+ * Write a comment line, used as a heartbeat to keep idle connections open
+ */
+export function writeComment(res: Response, comment: string): void {
+  res.write(`: ${comment}\n\n`);
+}
+
+/**
+ * Parse a Server-Sent Events body into frames
+ */
+export async function* parseEventStream(
+  body: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<EventStreamFrame> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    buffer = buffer.replace(/\r\n?/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = parseFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (frame) {
+        yield frame;
+      }
+    }
+  }
+}
+
+function parseFrame(text: string): EventStreamFrame | undefined {
+  let event = 'message';
+  let id: string | undefined;
+  const data: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  // Comment-only frames (heartbeats) carry no data
+  if (data.length === 0) {
+    return undefined;
+  }
+
+  return { event, data: data.join('\n'), ...(id !== undefined && { id }) };
+}
@@ -0,0 +1,60 @@
+/**
+ * Time-boxed entitlement granted by a subscription payment
+ */
+export interface Subscription {
+  subscriber: string; // Sender DID the entitlement belongs to
+  scope: string;
+  payer: string;
+  amount: string;
+  asset: string;
+  network: string;
+  startedAt: number;
+  expiresAt: number;
+  transaction?: string;
+}
+
+/**
+ * Storage for active subscriptions
+ */
+export interface SubscriptionStore {
+  get(subscriber: string, scope: string): Promise<Subscription | undefined>;
+  put(subscription: Subscription): Promise<void>;
+  list(subscriber?: string): Promise<Subscription[]>;
+  delete(subscriber: string, scope: string): Promise<void>;
+}
+
+/**
+ * In-memory subscription store
+ */
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions: Map<string, Subscription> = new Map();
+
+  async get(subscriber: string, scope: string): Promise<Subscription | undefined> {
+    const key = `${subscriber}:${scope}`;
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) return undefined;
+
+    if (Date.now() >= subscription.expiresAt) {
+      this.subscriptions.delete(key);
+      return undefined;
+    }
+
+    return subscription;
+  }
+
+  async put(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(`${subscription.subscriber}:${subscription.scope}`, subscription);
+  }
+
+  async list(subscriber?: string): Promise<Subscription[]> {
+    const now = Date.now();
+    return Array.from(this.subscriptions.values()).filter(
+      (subscription) =>
+        subscription.expiresAt > now && (!subscriber || subscription.subscriber === subscriber)
+    );
+  }
+
+  async delete(subscriber: string, scope: string): Promise<void> {
+    this.subscriptions.delete(`${subscriber}:${scope}`);
+  }
+}
@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import { AgentTask, TaskProgress, TaskState } from './types/task.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'Tasks' });
+
+/**
+ * Task manager configuration
+ */
+export interface TaskManagerConfig {
+  retention?: number; // How long finished tasks stay queryable in ms (default 1 hour)
+}
+
+/**
+ * Whether a task has reached a final state
+ */
+export function isTerminalTaskState(state: TaskState): boolean {
+  return (
+    state === TaskState.COMPLETED || state === TaskState.FAILED || state === TaskState.CANCELED
+  );
+}
+
+/**
+ * Tracks the state of asynchronous tasks run by an agent (in memory)
+ */
+export class TaskManager {
+  private tasks: Map<string, { task: AgentTask; controller: AbortController }> = new Map();
+  private retention: number;
+
+  constructor(config: TaskManagerConfig = {}) {
+    this.retention = config.retention ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Create a submitted task for a message
+   */
+  create(message: A2AMessage): AgentTask {
+    const now = Date.now();
+    const task: AgentTask = {
+      id: uuidv4(),
+      messageId: message.id,
+      intent: message.intent,
+      sender: message.sender,
+      recipient: message.recipient,
+      state: TaskState.SUBMITTED,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tasks.set(task.id, { task, controller: new AbortController() });
+
+    logger.debug(`Task created: ${task.id}`, { intent: task.intent, sender: task.sender });
+    return { ...task };
+  }
+
+  /**
+   * Get a task by id
+   */
+  get(id: string): AgentTask | undefined {
+    const entry = this.tasks.get(id);
+    return entry && { ...entry.task };
+  }
+
+  /**
+   * Signal aborted when the task is canceled
+   */
+  getSignal(id: string): AbortSignal | undefined {
+    return this.tasks.get(id)?.controller.signal;
+  }
+
+  /**
+   * Mark a submitted task as working
+   */
+  start(id: string): AgentTask | undefined {
+    return this.update(id, { state: TaskState.WORKING });
+  }
+
+  /**
+   * Record progress of a running task
+   */
+  progress(id: string, progress: TaskProgress): AgentTask | undefined {
+    return this.update(id, { progress });
+  }
+
+  /**
+   * Complete or fail a task from the handler's response. Ignored once the task is
+   * final (e.g. canceled while running).
+   */
+  finish(id: string, response: A2AResponse): AgentTask | undefined {
+    return this.update(
+      id,
+      response.success
+        ? { state: TaskState.COMPLETED, result: response.data, receipt: response.receipt }
+        : { state: TaskState.FAILED, error: response.error, receipt: response.receipt }
+    );
+  }
+
+  /**
+   * Cancel a task and abort its handler. Returns undefined if the task is
+   * unknown or already final.
+   */
+  cancel(id: string, reason = 'Task was canceled'): AgentTask | undefined {
+    const task = this.update(id, {
+      state: TaskState.CANCELED,
+      error: { code: 'TASK_CANCELED', message: reason },
+    });
+    if (task) {
+      this.tasks.get(id)!.controller.abort(reason);
+    }
+    return task;
+  }
+
+  private update(id: string, changes: Partial<AgentTask>): AgentTask | undefined {
+    const entry = this.tasks.get(id);
+    if (!entry || isTerminalTaskState(entry.task.state)) {
+      return undefined;
+    }
+
+    Object.assign(entry.task, changes, { updatedAt: Date.now() });
+
+    if (isTerminalTaskState(entry.task.state)) {
+      logger.debug(`Task ${entry.task.state}: ${id}`);
+      setTimeout(() => this.tasks.delete(id), this.retention).unref();
+    }
+
+    return { ...entry.task };
+  }
+}
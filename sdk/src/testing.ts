@@ -0,0 +1,278 @@
+import { AssertionError } from 'assert';
+import { A2AProtocol } from './a2a.js';
+import { UACPAgent } from './agent.js';
+import { AgentRegistry } from './registry.js';
+import { InProcessTransport, Transport, throwOnServerError } from './transport.js';
+import { AgentConfig } from './types/agent.js';
+import { A2AMessage, A2AResponse, MessageType } from './types/message.js';
+import { PaymentRequirements } from './types/payment.js';
+import { NetworkError, TimeoutError } from './utils/errors.js';
+
+/**
+ * Selects messages by sender, recipient, intent or type
+ */
+export interface MessageFilter {
+  from?: string;
+  to?: string;
+  intent?: string;
+  type?: MessageType;
+}
+
+/**
+ * Fault applied to matching messages
+ */
+export interface NetworkFault extends MessageFilter {
+  latency?: number; // Delay before delivery, in ms; delays past the sender's timeout time out
+  drop?: boolean; // Fail with a NetworkError without delivering
+  status?: number; // Answer with this status (e.g. 500, 503) without delivering
+  paymentRequired?: PaymentRequirements; // Answer unpaid messages with 402
+  times?: number; // Number of messages to apply to (default: all)
+  probability?: number; // Chance of applying to each message, 0-1 (default 1)
+}
+
+/**
+ * A delivery attempt through the network and its outcome
+ */
+export interface CapturedMessage {
+  message: A2AMessage;
+  headers: Record<string, string>;
+  response?: A2AResponse;
+  error?: Error;
+  fault?: NetworkFault;
+  timestamp: number;
+}
+
+/**
+ * Agent config for a test network, which provides the registry and endpoint
+ */
+export type TestAgentConfig = Omit<AgentConfig, 'registry' | 'agentCard'> & {
+  agentCard: Omit<AgentConfig['agentCard'], 'endpoint'>;
+};
+
+interface MessageWaiter {
+  filter: MessageFilter;
+  resolve: (captured: CapturedMessage) => void;
+}
+
+function matches(message: A2AMessage, filter: MessageFilter): boolean {
+  return (
+    (filter.from === undefined || message.sender === filter.from) &&
+    (filter.to === undefined || message.recipient === filter.to) &&
+    (filter.intent === undefined || message.intent === filter.intent) &&
+    (filter.type === undefined || message.type === filter.type)
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * In-memory network for testing multi-agent flows without ports: a shared
+ * registry and an in-process transport with fault injection and message capture.
+ * Every delivery attempt is captured, retries included. Streams are carried
+ * but neither captured nor faulted.
+ */
+export class TestNetwork {
+  readonly registry: AgentRegistry = new AgentRegistry();
+  readonly messages: CapturedMessage[] = [];
+  private inProcess = new InProcessTransport();
+  private agents: UACPAgent[] = [];
+  private faults: Array<{ fault: NetworkFault; remaining: number }> = [];
+  private waiters: MessageWaiter[] = [];
+  private transport: Transport = {
+    schemes: ['inproc'],
+    send: (endpoint, message, headers, timeout) =>
+      this.deliver(endpoint, message, headers, timeout),
+    stream: (endpoint, message, headers, timeout, signal) =>
+      this.inProcess.stream(endpoint, message, headers, timeout, signal),
+    listen: (endpoint, handler) => this.inProcess.listen(endpoint, handler),
+  };
+
+  /**
+   * Create an agent on the network, initialized, registered and listening
+   */
+  async createAgent(config: TestAgentConfig): Promise<UACPAgent> {
+    const endpoint = `inproc://test/${config.agentCard.id}`;
+    const agent = new UACPAgent({
+      ...config,
+      agentCard: { ...config.agentCard, endpoint },
+      registry: this.registry,
+      transports: [...(config.transports || []), this.transport],
+    });
+
+    await agent.initialize();
+    await agent.register();
+    await agent.listenOn(endpoint);
+
+    this.agents.push(agent);
+    return agent;
+  }
+
+  /**
+   * Apply a fault to matching messages. Returns a function that removes it.
+   */
+  inject(fault: NetworkFault): () => void {
+    const entry = { fault, remaining: fault.times ?? Infinity };
+    this.faults.push(entry);
+    return () => {
+      this.faults = this.faults.filter((candidate) => candidate !== entry);
+    };
+  }
+
+  /**
+   * Remove all faults
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Captured messages matching a filter
+   */
+  captured(filter: MessageFilter = {}): CapturedMessage[] {
+    return this.messages.filter((captured) => matches(captured.message, filter));
+  }
+
+  /**
+   * Assert that `count` messages matching the filter were captured (default: at least one)
+   */
+  expectSent(filter: MessageFilter, count?: number): CapturedMessage[] {
+    const matched = this.captured(filter);
+    if (count === undefined ? matched.length === 0 : matched.length !== count) {
+      const expected = count ?? 'at least 1';
+      const description = JSON.stringify(filter);
+      throw new AssertionError({
+        message: `Expected ${expected} message(s) matching ${description}, got ${matched.length}`,
+        actual: matched.length,
+        expected: count ?? 1,
+      });
+    }
+    return matched;
+  }
+
+  /**
+   * Wait until a message matching the filter has been captured and answered
+   */
+  waitForMessage(filter: MessageFilter, timeout = 5000): Promise<CapturedMessage> {
+    const existing = this.messages.find(
+      (captured) => matches(captured.message, filter) && (captured.response || captured.error)
+    );
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: MessageWaiter = {
+        filter,
+        resolve: (captured: CapturedMessage) => {
+          clearTimeout(timer);
+          resolve(captured);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+        reject(
+          new TimeoutError(
+            `No message matching ${JSON.stringify(filter)} within ${timeout}ms`,
+            timeout
+          )
+        );
+      }, timeout);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Forget captured messages
+   */
+  clearCaptured(): void {
+    this.messages.length = 0;
+  }
+
+  /**
+   * Shut down every agent on the network
+   */
+  async shutdown(): Promise<void> {
+    const agents = this.agents.splice(0);
+    await Promise.all(agents.map((agent) => agent.shutdown()));
+    this.clearFaults();
+  }
+
+  private async deliver(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    const captured: CapturedMessage = { message, headers, timestamp: Date.now() };
+    this.messages.push(captured);
+    const fault = this.takeFault(message, headers);
+    captured.fault = fault;
+
+    try {
+      if (fault?.latency) {
+        await sleep(Math.min(fault.latency, timeout));
+        if (fault.latency >= timeout) {
+          throw new TimeoutError(`Request timeout after ${timeout}ms`, timeout);
+        }
+      }
+
+      if (fault?.drop) {
+        throw new NetworkError('Message dropped by test network', { messageId: message.id });
+      }
+
+      if (fault?.status) {
+        captured.response = {
+          ...A2AProtocol.createA2AResponse(message.id, false, undefined, {
+            code: 'INJECTED_FAULT',
+            message: `Injected ${fault.status} response`,
+          }),
+          status: fault.status,
+        };
+        return throwOnServerError(captured.response);
+      }
+
+      if (fault?.paymentRequired) {
+        captured.response = A2AProtocol.createPaymentRequiredResponse(
+          message.id,
+          fault.paymentRequired
+        );
+        return captured.response;
+      }
+
+      captured.response = await this.inProcess.send(endpoint, message, headers, timeout);
+      return captured.response;
+    } catch (error) {
+      captured.error = error instanceof Error ? error : new Error(String(error));
+      throw error;
+    } finally {
+      this.notify(captured);
+    }
+  }
+
+  private takeFault(
+    message: A2AMessage,
+    headers: Record<string, string>
+  ): NetworkFault | undefined {
+    for (const entry of this.faults) {
+      const { fault } = entry;
+      if (entry.remaining <= 0 || !matches(message, fault)) continue;
+      // Paid retries of a 402 go through
+      if (fault.paymentRequired && headers['X-Payment']) continue;
+      if (fault.probability !== undefined && Math.random() >= fault.probability) continue;
+
+      entry.remaining--;
+      return fault;
+    }
+    return undefined;
+  }
+
+  private notify(captured: CapturedMessage): void {
+    const ready = this.waiters.filter((waiter) => matches(captured.message, waiter.filter));
+    this.waiters = this.waiters.filter((waiter) => !ready.includes(waiter));
+    for (const waiter of ready) {
+      waiter.resolve(captured);
+    }
+  }
+}
@@ -0,0 +1,408 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, RequestListener, Server } from 'http';
+import { Duplex } from 'stream';
+import { EventStreamFrame, parseEventStream } from './streaming.js';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import {
+  NetworkError,
+  TimeoutError,
+  TransportUnavailableError,
+  UACPError,
+} from './utils/errors.js';
+
+/**
+ * Headers of an inbound message, with lowercased names
+ */
+export type InboundHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * An opened stream's frames, or the response refusing it
+ */
+export type StreamResult = { response: A2AResponse } | { frames: AsyncIterable<EventStreamFrame> };
+
+/**
+ * The receiving side of an agent, to which transports hand inbound traffic
+ */
+export interface TransportHandler {
+  /** Handle a message and return the response to send back */
+  handleMessage(body: unknown, headers: InboundHeaders): Promise<A2AResponse>;
+  /** Open a stream to a streaming intent; it stops when `signal` is aborted */
+  handleStream?(body: unknown, headers: InboundHeaders, signal: AbortSignal): Promise<StreamResult>;
+  /** Serve the agent's HTTP API (messages, card, tasks, streams) */
+  handleRequest: RequestListener;
+  /** Accept a WebSocket connection */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void;
+  /** Path HTTP listeners accept WebSocket upgrades on, if enabled */
+  webSocketPath?: string;
+}
+
+/**
+ * A listener opened by a transport
+ */
+export interface TransportServer {
+  endpoint: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Carries messages to agent endpoints with the URL schemes it handles
+ */
+export interface Transport {
+  /** URL schemes handled, without the colon (e.g. 'http') */
+  readonly schemes: readonly string[];
+
+  /**
+   * Deliver a message and return the recipient's response. Throws a
+   * TransportUnavailableError if the message could not be sent at all, so the
+   * router can try the recipient's next endpoint.
+   */
+  send(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse>;
+
+  /**
+   * Open a stream to a streaming intent, closed when `signal` is aborted.
+   * Throws a TransportUnavailableError like `send`.
+   */
+  stream?(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<StreamResult>;
+
+  /** Whether a connection to the agent is open, e.g. one it opened to us */
+  isConnected?(agentId: string): boolean;
+
+  /** Listen for inbound traffic on an endpoint */
+  listen?(endpoint: string, handler: TransportHandler): Promise<TransportServer>;
+
+  /** Close open connections */
+  close?(): void;
+}
+
+/**
+ * URL scheme of an endpoint, without the colon
+ */
+export function getScheme(endpoint: string): string | undefined {
+  try {
+    return new URL(endpoint).protocol.slice(0, -1);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Where to send HTTP requests for an agent's API. unix:// endpoints serve it
+ * over a socket at the URL's path.
+ */
+export function getHttpTarget(endpoint: string): { baseUrl: string; socketPath?: string } {
+  if (getScheme(endpoint) === 'unix') {
+    return {
+      baseUrl: 'http://localhost',
+      socketPath: decodeURIComponent(new URL(endpoint).pathname),
+    };
+  }
+  return { baseUrl: endpoint };
+}
+
+/**
+ * Start a Node server and resolve once it is listening
+ */
+export function startServer(
+  server: Server,
+  address: number | string,
+  endpoint: string
+): Promise<TransportServer> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(address, () => {
+      server.off('error', reject);
+      resolve({
+        endpoint,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Port an http(s) or ws(s) endpoint listens on
+ */
+export function getPort(endpoint: string): number {
+  const url = new URL(endpoint);
+  return Number(url.port) || (url.protocol === 'https:' || url.protocol === 'wss:' ? 443 : 80);
+}
+
+/**
+ * Throw for server errors, which count as failures for retries and the circuit
+ * breaker as they do over HTTP. For transports whose responses never throw.
+ */
+export function throwOnServerError(response: A2AResponse): A2AResponse {
+  if (response.status >= 500) {
+    const details = response.error?.details as { retryAfter?: number } | undefined;
+    throw new NetworkError(`Network error: ${response.error?.message || response.status}`, {
+      code: response.error?.code,
+      status: response.status,
+      retryAfter: details?.retryAfter,
+    });
+  }
+  return response;
+}
+
+async function postMessage(
+  endpoint: string,
+  message: A2AMessage,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<A2AResponse> {
+  const { baseUrl, socketPath } = getHttpTarget(endpoint);
+
+  try {
+    const response = await axios.post(`${baseUrl}/a2a`, message, {
+      headers,
+      timeout,
+      socketPath,
+      validateStatus: (status) => status < 500, // Don't throw on 4xx errors
+    });
+
+    return response.data as A2AResponse;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+      throw new TimeoutError(`Request timeout after ${timeout}ms`, timeout);
+    }
+    throw error;
+  }
+}
+
+async function postStream(
+  endpoint: string,
+  message: A2AMessage,
+  headers: Record<string, string>,
+  timeout: number,
+  signal: AbortSignal
+): Promise<StreamResult> {
+  const { baseUrl, socketPath } = getHttpTarget(endpoint);
+  const response = await axios.post(`${baseUrl}/a2a/stream`, message, {
+    headers,
+    timeout,
+    socketPath,
+    responseType: 'stream',
+    signal,
+    validateStatus: () => true,
+  });
+  const body = response.data as AsyncIterable<Uint8Array>;
+
+  // Requests refused before the stream starts get a regular JSON response
+  if (!String(response.headers['content-type']).startsWith('text/event-stream')) {
+    let text = '';
+    for await (const chunk of body) text += Buffer.from(chunk).toString();
+    return { response: JSON.parse(text) as A2AResponse };
+  }
+  return { frames: parseEventStream(body) };
+}
+
+function serveHttp(
+  handler: TransportHandler,
+  address: number | string,
+  endpoint: string
+): Promise<TransportServer> {
+  const server = createServer(handler.handleRequest);
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (handler.webSocketPath && path === handler.webSocketPath) {
+      handler.handleUpgrade(req, socket, head);
+    } else {
+      socket.destroy();
+    }
+  });
+
+  return startServer(server, address, endpoint);
+}
+
+/**
+ * HTTP transport: POSTs messages to `<endpoint>/a2a` and serves the agent's API.
+ * Listeners bind the endpoint's port on all interfaces; terminate TLS in front
+ * of the agent for https.
+ */
+export class HttpTransport implements Transport {
+  readonly schemes: readonly string[] = ['http', 'https'];
+
+  send(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    return postMessage(endpoint, message, headers, timeout);
+  }
+
+  stream(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<StreamResult> {
+    return postStream(endpoint, message, headers, timeout, signal);
+  }
+
+  async listen(endpoint: string, handler: TransportHandler): Promise<TransportServer> {
+    if (getScheme(endpoint) !== 'http') {
+      throw new UACPError(
+        `Cannot listen on ${endpoint}: only http is supported`,
+        'UNSUPPORTED_TRANSPORT'
+      );
+    }
+    return serveHttp(handler, getPort(endpoint), endpoint);
+  }
+}
+
+async function unavailableWithoutSocket<T>(
+  endpoint: string,
+  request: () => Promise<T>
+): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    // No socket at the path, e.g. the agent runs on another host
+    if (axios.isAxiosError(error) && ['ENOENT', 'ECONNREFUSED'].includes(error.code || '')) {
+      throw new TransportUnavailableError(endpoint, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Unix domain socket transport for agents on the same host: the HTTP API served
+ * over a socket, addressed as `unix:///path/to/agent.sock`
+ */
+export class UnixSocketTransport implements Transport {
+  readonly schemes: readonly string[] = ['unix'];
+
+  async send(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    return unavailableWithoutSocket(endpoint, () =>
+      postMessage(endpoint, message, headers, timeout)
+    );
+  }
+
+  stream(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal
+  ): Promise<StreamResult> {
+    return unavailableWithoutSocket(endpoint, () =>
+      postStream(endpoint, message, headers, timeout, signal)
+    );
+  }
+
+  async listen(endpoint: string, handler: TransportHandler): Promise<TransportServer> {
+    const { socketPath } = getHttpTarget(endpoint);
+
+    // Remove a socket left behind by a process that did not shut down cleanly
+    await fs.unlink(socketPath!).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+
+    return serveHttp(handler, socketPath!, endpoint);
+  }
+}
+
+/**
+ * In-process transport: delivers messages straight to agents listening on an
+ * `inproc://` endpoint in the same process, without sockets. Messages and
+ * streams are carried; task polling needs an HTTP endpoint.
+ */
+export class InProcessTransport implements Transport {
+  /** Process-wide instance, registered with every router */
+  static readonly shared = new InProcessTransport();
+
+  readonly schemes: readonly string[] = ['inproc'];
+  private handlers: Map<string, TransportHandler> = new Map();
+
+  async send(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    const handler = this.handlers.get(endpoint);
+    if (!handler) {
+      throw new TransportUnavailableError(endpoint, 'no agent listening');
+    }
+
+    // Copy as if over the wire, so neither side shares objects with the other
+    const body: unknown = JSON.parse(JSON.stringify(message));
+    const inbound = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new TimeoutError(`Request timeout after ${timeout}ms`, timeout)),
+        timeout
+      );
+    });
+
+    try {
+      const response = await Promise.race([handler.handleMessage(body, inbound), timedOut]);
+      return throwOnServerError(JSON.parse(JSON.stringify(response)) as A2AResponse);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async stream(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    _timeout: number,
+    signal: AbortSignal
+  ): Promise<StreamResult> {
+    const handler = this.handlers.get(endpoint);
+    if (!handler?.handleStream) {
+      throw new TransportUnavailableError(endpoint, 'no agent listening');
+    }
+
+    const body: unknown = JSON.parse(JSON.stringify(message));
+    const inbound = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+
+    const result = await handler.handleStream(body, inbound, signal);
+    if ('response' in result) {
+      return { response: JSON.parse(JSON.stringify(result.response)) as A2AResponse };
+    }
+    return result;
+  }
+
+  async listen(endpoint: string, handler: TransportHandler): Promise<TransportServer> {
+    if (this.handlers.has(endpoint)) {
+      throw new UACPError(`Endpoint already in use: ${endpoint}`, 'ENDPOINT_IN_USE', { endpoint });
+    }
+    this.handlers.set(endpoint, handler);
+
+    return {
+      endpoint,
+      close: async () => {
+        if (this.handlers.get(endpoint) === handler) {
+          this.handlers.delete(endpoint);
+        }
+      },
+    };
+  }
+}
@@ -1,4 +1,23 @@
 import { z } from 'zod';
+import type { InboundAuthConfig, OutboundCredentials } from '../auth.js';
+import type { SignatureScheme, SignerResolver } from '../signing.js';
+import type { ReplayProtectionConfig } from '../dedup.js';
+import type { UACPPaymentClient, UACPPaymentServer, X402Config } from '../x402.js';
+import type { SpendingPolicy } from '../spending.js';
+import type { PaymentLedger } from '../ledger.js';
+import type { PaymentRequirements, PaymentScheme } from './payment.js';
+import type { SubscriptionStore } from '../subscriptions.js';
+import type { TaskManagerConfig } from '../tasks.js';
+import type { Transport } from '../transport.js';
+import type { PubSubConfig } from '../pubsub.js';
+import type { InboundQueueConfig } from '../queue.js';
+import type { OutboxConfig } from '../outbox.js';
+import type { InboundMiddleware } from '../middleware.js';
+import type { RateLimit, RateLimitConfig } from '../ratelimit.js';
+import type { PolicyConfig } from '../policy.js';
+import type { DelegationConfig, VerifiedDelegation } from '../delegation.js';
+import type { A2AMessage } from './message.js';
+import type { TaskProgress } from './task.js';
 
 /**
  * Authentication configuration for agents
@@ -11,6 +30,16 @@ export const AuthConfigSchema = z.object({
 
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
 
+/**
+ * Authenticated caller resolved from inbound credentials
+ */
+export interface AuthPrincipal {
+  type: AuthConfig['type'];
+  subject?: string; // Unset when the credential does not name its holder
+  claims?: Record<string, unknown>;
+  scopes?: string[];
+}
+
 /**
  * Agent status enum
  */
@@ -21,6 +50,28 @@ export enum AgentStatus {
   ERROR = 'error',
 }
 
+/**
+ * Published description of an intent, with JSON Schemas of its task and response data
+ */
+export const IntentDescriptorSchema = z.object({
+  description: z.string().optional(),
+  inputSchema: z.record(z.unknown()).optional(),
+  outputSchema: z.record(z.unknown()).optional(),
+  streaming: z.boolean().optional(), // Served as Server-Sent Events from /a2a/stream
+});
+
+export type IntentDescriptor = z.infer<typeof IntentDescriptorSchema>;
+
+/**
+ * Published description of a topic, with the JSON Schema of its event data
+ */
+export const TopicDescriptorSchema = z.object({
+  description: z.string().optional(),
+  schema: z.record(z.unknown()).optional(),
+});
+
+export type TopicDescriptor = z.infer<typeof TopicDescriptorSchema>;
+
 /**
  * AgentCard - Core identity and capability descriptor for agents
  */
@@ -29,9 +80,15 @@ export const AgentCardSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500),
   endpoint: z.string().url().describe('HTTP endpoint for A2A communication'),
+  endpoints: z
+    .array(z.string().url())
+    .optional()
+    .describe('Additional transport endpoints, e.g. ws://host:port/ws or unix:///path.sock'),
   capabilities: z.array(z.string()).min(1),
   auth: AuthConfigSchema,
   paymentMethods: z.array(z.string()).optional(),
+  intents: z.record(IntentDescriptorSchema).optional(),
+  topics: z.record(TopicDescriptorSchema).optional(), // Topics other agents can subscribe to
   status: z.nativeEnum(AgentStatus),
   metadata: z.record(z.unknown()).optional(),
   version: z.string().default('1.0.0'),
@@ -50,9 +107,45 @@ export interface AgentConfig {
   registry?: any; // Optional shared registry instance
   port?: number;
   enablePayments?: boolean;
+  paymentServer?: UACPPaymentServer; // Used to verify and settle X-Payment headers
+  x402?: X402Config;
+  paymentClient?: UACPPaymentClient; // Pays 402 responses from other agents automatically
+  spendingPolicy?: SpendingPolicy;
+  subscriptionStore?: SubscriptionStore;
+  paymentLedger?: PaymentLedger; // Shared by the payment server and client
   walletPrivateKey?: string;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
   retryConfig?: RetryConfig;
+  inboundAuth?: InboundAuthConfig;
+  outboundAuth?: OutboundCredentials;
+  messageSigning?: MessageSigningConfig;
+  replayProtection?: ReplayProtectionConfig | false; // Enabled with an in-memory store by default
+  tasks?: TaskManagerConfig;
+  websocket?: boolean | WebSocketConfig; // Accept WebSocket links (advertised on the card)
+  listen?: string[]; // Extra endpoints to listen on (advertised on the card), e.g. unix:///a.sock
+  transports?: Transport[]; // Custom transports, registered for their URL schemes
+  pubsub?: PubSubConfig;
+  queue?: InboundQueueConfig; // Inbound concurrency and queue depth limits
+  outbox?: OutboxConfig; // Store and redeliver messages that fail to send
+  rateLimit?: RateLimitConfig; // Token bucket limits on inbound messages
+  policy?: PolicyConfig; // Which senders may use which intents
+  delegation?: DelegationConfig; // Capability tokens accepted from senders acting for others
+}
+
+/**
+ * WebSocket listener configuration
+ */
+export interface WebSocketConfig {
+  path?: string; // Default /ws
+}
+
+/**
+ * Message signing and verification configuration
+ */
+export interface MessageSigningConfig {
+  scheme?: SignatureScheme; // Scheme used for outgoing messages (default eip191)
+  strict?: boolean; // Reject unsigned messages and sender header mismatches
+  resolver?: SignerResolver; // Defaults to card metadata signerAddress/owner from the registry
 }
 
 /**
@@ -73,8 +166,18 @@ export enum AgentEvent {
   REGISTERED = 'registered',
   MESSAGE_RECEIVED = 'message:received',
   MESSAGE_SENT = 'message:sent',
+  MESSAGE_DUPLICATE = 'message:duplicate',
+  MESSAGE_REDELIVERED = 'message:redelivered',
+  MESSAGE_DEAD_LETTERED = 'message:dead_lettered',
   PAYMENT_REQUIRED = 'payment:required',
   PAYMENT_COMPLETED = 'payment:completed',
+  PAYMENT_REFUNDED = 'payment:refunded',
+  TASK_UPDATED = 'task:updated',
+  TASK_RESULT = 'task:result',
+  EVENT_RECEIVED = 'event:received',
+  STATUS_CHANGED = 'status:changed',
+  TOPIC_DELIVERY_FAILED = 'topic:delivery_failed',
+  ACCESS_DENIED = 'access:denied',
   ERROR = 'error',
   SHUTDOWN = 'shutdown',
 }
@@ -82,11 +185,19 @@ export enum AgentEvent {
 /**
  * Intent handler function type
  */
-export type IntentHandler = (
-  task: Record<string, unknown>,
+export type IntentHandler<TTask = Record<string, unknown>> = (
+  task: TTask,
   context: MessageContext
 ) => Promise<IntentResponse>;
 
+/**
+ * Streaming intent handler - each yielded value is sent as a chunk
+ */
+export type StreamIntentHandler<TTask = Record<string, unknown>, TChunk = unknown> = (
+  task: TTask,
+  context: MessageContext
+) => AsyncIterable<TChunk>;
+
 /**
  * Message context passed to intent handlers
  */
@@ -96,8 +207,92 @@ export interface MessageContext {
   recipient: string;
   timestamp: number;
   correlationId?: string;
+  principal?: AuthPrincipal;
+  signer?: string; // Verified signer address when the message was signed
+  payment?: VerifiedPayment;
+  delegation?: VerifiedDelegation; // Set when the sender acts under a capability token
+  taskId?: string; // Set when the intent runs as an asynchronous task
+  deadline?: number; // Time by which the caller expects a response, in epoch ms
+  // Aborted when the deadline passes, the caller disconnects or the task is canceled
+  signal?: AbortSignal;
+  reportProgress?: (progress: TaskProgress) => void; // Only for asynchronous tasks
+  state?: Record<string, unknown>; // Set by middleware
+}
+
+/**
+ * Payment verified for the current message
+ */
+export interface VerifiedPayment {
+  payer: string;
+  amount: string;
+  asset: string;
+  network: string;
+  scheme: PaymentScheme;
+  expiresAt?: number; // Subscription entitlement expiry
+}
+
+/**
+ * Options for intent registration
+ */
+export interface IntentOptions<TInput extends z.ZodTypeAny = z.ZodTypeAny> {
+  pricing?: IntentPricing;
+  description?: string;
+  inputSchema?: TInput; // Tasks failing validation are rejected with MESSAGE_VALIDATION_ERROR
+  outputSchema?: z.ZodTypeAny; // Response data failing validation is treated as a handler error
+  async?: boolean; // Respond 202 with a task id and run the handler in the background
+  concurrency?: number; // Messages of this intent handled at once; more wait in the queue
+  maxQueued?: number; // Messages of this intent that may wait before 429s (default: no limit)
+  middleware?: InboundMiddleware[]; // Runs after the agent's middleware, for this intent only
+  rateLimit?: RateLimit; // Messages of this intent from each sender
+}
+
+/**
+ * Options for streaming intent registration
+ */
+export type StreamIntentOptions<TInput extends z.ZodTypeAny = z.ZodTypeAny> = Pick<
+  IntentOptions<TInput>,
+  'description' | 'inputSchema' | 'concurrency' | 'maxQueued' | 'rateLimit'
+>;
+
+/**
+ * Handler for events of a subscribed topic. Throwing makes the publisher retry.
+ */
+export type TopicHandler<TData = Record<string, unknown>> = (
+  data: TData,
+  message: A2AMessage
+) => Promise<void> | void;
+
+/**
+ * Options for a published topic
+ */
+export interface TopicOptions<TData extends z.ZodTypeAny = z.ZodTypeAny> {
+  description?: string;
+  schema?: TData; // Validates published data; published on the card as JSON Schema
 }
 
+/**
+ * Price charged for an intent, paid via the X-Payment header
+ */
+export interface IntentPricing {
+  amount: string; // Atomic units of the asset (maximum for the range scheme)
+  asset: string;
+  payTo: string;
+  network?: string;
+  scheme?: PaymentScheme;
+  description?: string;
+  minAmount?: string; // Range scheme: minimum charge
+  period?: number; // Subscription scheme: entitlement duration in seconds
+  scope?: string; // Subscription scheme: shared entitlement scope (defaults to the intent)
+  extra?: Record<string, unknown>; // Token EIP-712 domain hints (name, version, chainId)
+  settlement?: PaymentSettlement; // When the payment is settled (default 'on-success')
+}
+
+/**
+ * When a priced intent settles its payment: only after the handler succeeds, or
+ * before it runs, with a refund if it then fails
+ */
+export type PaymentSettlement = 'on-success' | 'upfront';
+
 /**
  * Intent response from handlers
  */
@@ -107,20 +302,5 @@ export interface IntentResponse {
   error?: string;
   requiresPayment?: boolean;
   paymentRequirements?: PaymentRequirements;
-}
-
-/**
- * Payment requirements for X402
- */
-export interface PaymentRequirements {
-  scheme: 'exact' | 'range' | 'subscription';
-  network: string;
-  asset: string;
-  payTo: string;
-  maxAmountRequired: string;
-  minAmountRequired?: string;
-  resource: string;
-  description: string;
-  mimeType?: string;
-  maxTimeoutSeconds?: number;
+  chargeAmount?: string; // Range scheme: actual usage to settle (defaults to the authorized amount)
 }
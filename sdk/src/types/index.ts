@@ -2,3 +2,5 @@ export * from './agent.js';
 export * from './message.js';
 export * from './registry.js';
 export * from './orchestration.js';
+export * from './payment.js';
+export * from './task.js';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PaymentPayload, PaymentReceiptSchema, PaymentRequirementsSchema } from './payment.js';
 
 /**
  * Message type enum
@@ -60,18 +61,14 @@ export const A2AResponseSchema = z.object({
     })
     .optional(),
   paymentRequired: z.boolean().optional(),
-  paymentRequirements: z
+  paymentRequirements: PaymentRequirementsSchema.optional(),
+  receipt: PaymentReceiptSchema.optional(),
+  // Quota left for the sender, also sent as RateLimit-* headers
+  rateLimit: z
     .object({
-      scheme: z.string(),
-      network: z.string(),
-      asset: z.string(),
-      payTo: z.string(),
-      maxAmountRequired: z.string(),
-      minAmountRequired: z.string().optional(),
-      resource: z.string(),
-      description: z.string(),
-      mimeType: z.string().optional(),
-      maxTimeoutSeconds: z.number().optional(),
+      limit: z.number(),
+      remaining: z.number(),
+      reset: z.number(),
     })
     .optional(),
   timestamp: z.number(),
@@ -79,6 +76,11 @@ export const A2AResponseSchema = z.object({
 
 export type A2AResponse = z.infer<typeof A2AResponseSchema>;
 
+/**
+ * Response whose data has a known shape (used by generated clients)
+ */
+export type TypedA2AResponse<T> = Omit<A2AResponse, 'data'> & { data?: T };
+
 /**
  * Message creation parameters
  */
@@ -91,6 +93,7 @@ export interface CreateMessageParams {
   ttl?: number;
   correlationId?: string;
   metadata?: Record<string, unknown>;
+  type?: MessageType; // Defaults to REQUEST
 }
 
 /**
@@ -101,20 +104,19 @@ export interface SendMessageOptions {
   retries?: number;
   headers?: Record<string, string>;
   payment?: PaymentPayload;
+  autoPay?: boolean; // Pay 402 responses with the router's payment client (default true)
+  outbox?: boolean; // Store for redelivery if delivery fails (default true with an outbox)
+  deadline?: number; // Epoch ms by which a response is needed; cuts retries and timeouts short
 }
 
 /**
- * Payment payload for X402
+ * Options for streaming a message
  */
-export interface PaymentPayload {
-  transactionHash: string;
-  amount: string;
-  asset: string;
-  from: string;
-  to: string;
-  network: string;
-  timestamp: number;
-  signature: string;
+export interface StreamMessageOptions {
+  timeout?: number; // Idle timeout in ms between events
+  headers?: Record<string, string>;
+  signal?: AbortSignal; // Closes the stream when aborted
+  deadline?: number; // Epoch ms at which the stream is closed; sent to the recipient
 }
 
 /**
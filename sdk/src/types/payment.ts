@@ -0,0 +1,143 @@
+import { z } from 'zod';
+
+/**
+ * Current x402 payload format version
+ */
+export const X402_VERSION = 1;
+
+/**
+ * Payment scheme enum
+ */
+export const PaymentSchemeSchema = z.enum(['exact', 'range', 'subscription']);
+
+export type PaymentScheme = z.infer<typeof PaymentSchemeSchema>;
+
+/**
+ * Payment requirements returned with 402 responses
+ */
+export const PaymentRequirementsSchema = z.object({
+  scheme: PaymentSchemeSchema,
+  network: z.string(),
+  asset: z.string(),
+  payTo: z.string(),
+  maxAmountRequired: z.string().regex(/^\d+$/, 'Amount must be in atomic units'),
+  minAmountRequired: z.string().regex(/^\d+$/, 'Amount must be in atomic units').optional(),
+  resource: z.string(),
+  description: z.string(),
+  mimeType: z.string().default('application/json'),
+  maxTimeoutSeconds: z.number().int().positive().default(1200),
+  outputSchema: z.unknown().optional(),
+  extra: z.record(z.unknown()).optional(),
+});
+
+export type PaymentRequirements = z.infer<typeof PaymentRequirementsSchema>;
+
+/**
+ * Payment requirements before defaults are applied
+ */
+export type PaymentRequirementsInput = z.input<typeof PaymentRequirementsSchema>;
+
+/**
+ * EIP-3009 transferWithAuthorization parameters
+ */
+export const EIP3009AuthorizationSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  value: z.string().regex(/^\d+$/, 'Amount must be in atomic units'),
+  validAfter: z.number(),
+  validBefore: z.number(),
+  nonce: z.string(),
+});
+
+export type EIP3009Authorization = z.infer<typeof EIP3009AuthorizationSchema>;
+
+/**
+ * Signed EIP-3009 authorization carried by x402 v1 payloads
+ */
+export const ExactPaymentPayloadSchema = z.object({
+  signature: z.string(),
+  authorization: EIP3009AuthorizationSchema,
+});
+
+export type ExactPaymentPayload = z.infer<typeof ExactPaymentPayloadSchema>;
+
+/**
+ * x402 v1 payment payload
+ */
+export const PaymentPayloadV1Schema = z.object({
+  x402Version: z.literal(1),
+  scheme: PaymentSchemeSchema,
+  network: z.string(),
+  payload: ExactPaymentPayloadSchema,
+});
+
+/**
+ * Payment payload sent in the X-Payment header, discriminated by x402 version.
+ * New payload formats are added as union members.
+ */
+export const PaymentPayloadSchema = z.discriminatedUnion('x402Version', [
+  PaymentPayloadV1Schema,
+]);
+
+export type PaymentPayload = z.infer<typeof PaymentPayloadSchema>;
+
+/**
+ * Payment verification result
+ */
+export const VerifyResponseSchema = z.object({
+  isValid: z.boolean(),
+  payer: z.string().optional(),
+  invalidReason: z.string().optional(),
+});
+
+export type VerifyResponse = z.infer<typeof VerifyResponseSchema>;
+
+/**
+ * Payment settlement result
+ */
+export const SettleResponseSchema = z.object({
+  success: z.boolean(),
+  transaction: z.string().optional(),
+  network: z.string(),
+  payer: z.string().optional(),
+  amount: z.string().optional().describe('Amount actually settled'),
+  errorReason: z.string().optional(),
+});
+
+export type SettleResponse = z.infer<typeof SettleResponseSchema>;
+
+/**
+ * Refund (reverse transfer) result
+ */
+export const RefundResponseSchema = z.object({
+  success: z.boolean(),
+  transaction: z.string().optional(),
+  network: z.string(),
+  amount: z.string(),
+  errorReason: z.string().optional(),
+});
+
+export type RefundResponse = z.infer<typeof RefundResponseSchema>;
+
+/**
+ * Receipt signed by the paid agent, proving a payment bought a given result
+ */
+export const PaymentReceiptSchema = z.object({
+  id: z.string(),
+  messageId: z.string(),
+  intent: z.string(),
+  payer: z.string(),
+  payee: z.string().describe('DID of the paid agent'),
+  payTo: z.string(),
+  amount: z.string().regex(/^\d+$/, 'Amount must be in atomic units'),
+  asset: z.string(),
+  network: z.string(),
+  scheme: PaymentSchemeSchema,
+  transaction: z.string().optional(),
+  resultHash: z.string().describe('keccak256 of the canonicalized response data'),
+  issuedAt: z.number(),
+  signer: z.string(),
+  signature: z.string(),
+});
+
+export type PaymentReceipt = z.infer<typeof PaymentReceiptSchema>;
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { PaymentReceiptSchema } from './payment.js';
+
+/**
+ * Lifecycle of an asynchronous task
+ */
+export enum TaskState {
+  SUBMITTED = 'submitted',
+  WORKING = 'working',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELED = 'canceled',
+}
+
+/**
+ * Progress reported by a long-running handler
+ */
+export const TaskProgressSchema = z.object({
+  percent: z.number().min(0).max(100).optional(),
+  message: z.string().optional(),
+});
+
+export type TaskProgress = z.infer<typeof TaskProgressSchema>;
+
+/**
+ * Asynchronous task created for a message sent to an async intent
+ */
+export const AgentTaskSchema = z.object({
+  id: z.string().uuid(),
+  messageId: z.string().uuid().describe('Message that created the task'),
+  intent: z.string(),
+  sender: z.string().describe('DID of the agent that sent the message'),
+  recipient: z.string().describe('DID of the agent running the task'),
+  state: z.nativeEnum(TaskState),
+  progress: TaskProgressSchema.optional(),
+  result: z.unknown().optional().describe('Response data once completed'),
+  error: z
+    .object({
+      code: z.string(),
+      message: z.string(),
+      details: z.unknown().optional(),
+    })
+    .optional(),
+  receipt: PaymentReceiptSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type AgentTask = z.infer<typeof AgentTaskSchema>;
@@ -23,6 +23,16 @@ export class AgentNotFoundError extends UACPError {
   }
 }
 
+/**
+ * Task not found error
+ */
+export class TaskNotFoundError extends UACPError {
+  constructor(taskId: string) {
+    super(`Task not found: ${taskId}`, 'TASK_NOT_FOUND', { taskId });
+    this.name = 'TaskNotFoundError';
+  }
+}
+
 /**
  * Message validation error
  */
@@ -66,6 +76,16 @@ export class NetworkError extends UACPError {
   }
 }
 
+/**
+ * Circuit breaker error: requests to the agent are paused after repeated failures
+ */
+export class CircuitOpenError extends UACPError {
+  constructor(details?: unknown) {
+    super('Circuit breaker is OPEN', 'CIRCUIT_OPEN', details);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 /**
  * Timeout error
  */
@@ -95,3 +115,114 @@ export class IntentHandlerError extends UACPError {
     this.name = 'IntentHandlerError';
   }
 }
+
+/**
+ * Authentication error
+ */
+export class AuthenticationError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'UNAUTHORIZED', details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Access policy error: the sender may not use the intent
+ */
+export class PolicyDeniedError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'FORBIDDEN', details);
+    this.name = 'PolicyDeniedError';
+  }
+}
+
+/**
+ * Capability token error: the token is malformed, expired, revoked or does
+ * not grant what the message asks for
+ */
+export class DelegationError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'INVALID_DELEGATION', details);
+    this.name = 'DelegationError';
+  }
+}
+
+/**
+ * Message signature verification error
+ */
+export class SignatureVerificationError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'INVALID_SIGNATURE', details);
+    this.name = 'SignatureVerificationError';
+  }
+}
+
+/**
+ * Replay protection error (timestamp outside the accepted window)
+ */
+export class ReplayError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'CLOCK_SKEW', details);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Spending policy violation error
+ */
+export class SpendingLimitError extends UACPError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'SPENDING_LIMIT_EXCEEDED', details);
+    this.name = 'SpendingLimitError';
+  }
+}
+
+/**
+ * Transport error: no connection to an endpoint could be made, so nothing was sent
+ */
+export class TransportUnavailableError extends UACPError {
+  constructor(endpoint: string, reason: string) {
+    super(`Endpoint unavailable: ${endpoint} (${reason})`, 'TRANSPORT_UNAVAILABLE', { endpoint });
+    this.name = 'TransportUnavailableError';
+  }
+}
+
+/**
+ * Inbound queue error: the agent (AGENT_BUSY) or an intent (INTENT_BUSY) has no
+ * room for more work. Retry after `retryAfter` seconds.
+ */
+export class AgentBusyError extends UACPError {
+  constructor(
+    message: string,
+    code: 'AGENT_BUSY' | 'INTENT_BUSY',
+    public retryAfter: number,
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, { ...details, retryAfter });
+    this.name = 'AgentBusyError';
+  }
+}
+
+/**
+ * Rate limit error: the sender used up its quota. Retry after `retryAfter` seconds.
+ */
+export class RateLimitedError extends UACPError {
+  constructor(
+    message: string,
+    public retryAfter: number,
+    details?: Record<string, unknown>
+  ) {
+    super(message, 'RATE_LIMITED', { ...details, retryAfter });
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Deadline error: the time the caller allowed for a message has run out
+ */
+export class DeadlineExceededError extends UACPError {
+  constructor(deadline: number) {
+    super('Deadline exceeded', 'DEADLINE_EXCEEDED', { deadline });
+    this.name = 'DeadlineExceededError';
+  }
+}
@@ -1,4 +1,6 @@
+import axios from 'axios';
 import { RetryConfig } from '../types/agent.js';
+import { CircuitOpenError, UACPError } from './errors.js';
 import { Logger } from './logger.js';
 
 const logger = new Logger({ level: 'info', prefix: 'Retry' });
@@ -29,7 +31,33 @@ function calculateDelay(attempt: number, config: RetryConfig): number {
 }
 
 /**
- * Retry a function with exponential backoff
+ * Delay in ms a failure asks for before a retry: `retryAfter` seconds in the
+ * details of busy and rate limit errors, or an HTTP Retry-After header
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  let seconds: unknown;
+  if (error instanceof UACPError) {
+    seconds = (error.details as { retryAfter?: unknown } | undefined)?.retryAfter;
+  } else if (axios.isAxiosError(error)) {
+    seconds = Number(error.response?.headers['retry-after']);
+  }
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+/**
+ * Delay before the next attempt: what the failure asks for, or exponential
+ * backoff. Undefined when the failure asks for longer than `maxDelay`.
+ */
+function getDelay(error: unknown, attempt: number, config: RetryConfig): number | undefined {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter === undefined) {
+    return calculateDelay(attempt, config);
+  }
+  return retryAfter <= config.maxDelay ? retryAfter : undefined;
+}
+
+/**
+ * Retry a function with exponential backoff, or after the delay a failure asks for
  */
 export async function retry<T>(
   fn: () => Promise<T>,
@@ -53,7 +81,10 @@ export async function retry<T>(
         throw error;
       }
 
-      const delay = calculateDelay(attempt, retryConfig);
+      const delay = getDelay(error, attempt, retryConfig);
+      if (delay === undefined) {
+        throw error;
+      }
       logger.warn(
         `${context ? `[${context}] ` : ''}Retry attempt ${attempt + 1}/${retryConfig.maxRetries} after ${delay}ms`,
         { error: error instanceof Error ? error.message : String(error) }
@@ -84,11 +115,11 @@ export async function retryWithCondition<T>(
     } catch (error) {
       lastError = error;
 
-      if (!shouldRetry(error) || attempt === retryConfig.maxRetries) {
+      const delay = getDelay(error, attempt, retryConfig);
+      if (!shouldRetry(error) || attempt === retryConfig.maxRetries || delay === undefined) {
         throw error;
       }
 
-      const delay = calculateDelay(attempt, retryConfig);
       logger.warn(
         `${context ? `[${context}] ` : ''}Retry attempt ${attempt + 1}/${retryConfig.maxRetries} after ${delay}ms`
       );
@@ -137,7 +168,7 @@ export class CircuitBreaker {
         this.halfOpenAttempts = 0;
         logger.info('Circuit breaker entering HALF_OPEN state');
       } else {
-        throw new Error('Circuit breaker is OPEN');
+        throw new CircuitOpenError();
       }
     }
 
@@ -181,6 +212,17 @@ export class CircuitBreaker {
     return this.state;
   }
 
+  /**
+   * Whether a request would be let through now: closed, half open, or open
+   * past the reset timeout
+   */
+  allowsRequests(): boolean {
+    return (
+      this.state !== CircuitState.OPEN ||
+      Date.now() - this.lastFailureTime >= this.config.resetTimeout
+    );
+  }
+
   reset(): void {
     this.state = CircuitState.CLOSED;
     this.failureCount = 0;
@@ -1,10 +1,11 @@
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 import { MessageValidationError } from './errors.js';
 
 /**
  * Validate data against a Zod schema
  */
-export function validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
+export function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T {
   try {
     return schema.parse(data);
   } catch (error) {
@@ -20,7 +21,7 @@ export function validate<T>(schema: z.ZodSchema<T>, data: unknown): T {
  * Safe validation that returns result instead of throwing
  */
 export function safeValidate<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   data: unknown
 ): { success: true; data: T } | { success: false; errors: string[] } {
   const result = schema.safeParse(data);
@@ -31,6 +32,19 @@ export function safeValidate<T>(
   return { success: false, errors };
 }
 
+// zod-to-json-schema's generic signature is too deep for tsc with zod 3.25's types
+const convertToJSONSchema = zodToJsonSchema as unknown as (
+  schema: z.ZodTypeAny,
+  options: { $refStrategy: 'none' }
+) => Record<string, unknown>;
+
+/**
+ * Convert a Zod schema to a self-contained JSON Schema
+ */
+export function toJSONSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  return convertToJSONSchema(schema, { $refStrategy: 'none' });
+}
+
 /**
  * Validate DID format
  */
@@ -0,0 +1,368 @@
+import { createServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import WebSocket, { RawData } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InboundHeaders,
+  Transport,
+  TransportHandler,
+  TransportServer,
+  getPort,
+  getScheme,
+  startServer,
+  throwOnServerError,
+} from './transport.js';
+import { AgentCard } from './types/agent.js';
+import { A2AMessage, A2AResponse } from './types/message.js';
+import {
+  NetworkError,
+  TimeoutError,
+  TransportUnavailableError,
+  UACPError,
+} from './utils/errors.js';
+import { Logger } from './utils/logger.js';
+
+const logger = new Logger({ level: 'info', prefix: 'WebSocket' });
+
+/**
+ * Frames exchanged over an agent link. Either side sends `message` frames and
+ * answers the other side's with a `response` frame of the same id.
+ */
+export type WebSocketFrame =
+  | { type: 'message'; id: string; message: A2AMessage; headers?: Record<string, string> }
+  | { type: 'response'; id: string; response: A2AResponse };
+
+/**
+ * Handles a message received over a link and returns the response to send back
+ */
+export type WebSocketMessageHandler = (
+  message: unknown,
+  headers: InboundHeaders,
+  link: WebSocketLink
+) => Promise<A2AResponse>;
+
+/**
+ * WebSocket endpoint advertised on an agent card, if any
+ */
+export function getWebSocketEndpoint(card: AgentCard): string | undefined {
+  return card.endpoints?.find((endpoint) => /^wss?:\/\//.test(endpoint));
+}
+
+/**
+ * A WebSocket connection to another agent, multiplexing messages by frame id
+ */
+export class WebSocketLink {
+  private pending: Map<
+    string,
+    {
+      resolve: (response: A2AResponse) => void;
+      reject: (error: Error) => void;
+      timer: NodeJS.Timeout;
+    }
+  > = new Map();
+  private heartbeat: NodeJS.Timeout;
+  private alive = true;
+  private closed = new AbortController();
+  peerId?: string; // Agent on the other end, once known
+
+  constructor(
+    private socket: WebSocket,
+    private handshakeHeaders: InboundHeaders,
+    private handler: () => WebSocketMessageHandler | undefined,
+    onClose: (link: WebSocketLink) => void
+  ) {
+    socket.on('message', (data) => void this.onFrame(data));
+    socket.on('pong', () => {
+      this.alive = true;
+    });
+    socket.on('error', (error) => logger.warn('WebSocket error', { error: error.message }));
+    socket.on('close', () => {
+      clearInterval(this.heartbeat);
+      for (const { reject, timer } of this.pending.values()) {
+        clearTimeout(timer);
+        reject(new NetworkError('WebSocket closed', { peer: this.peerId }));
+      }
+      this.pending.clear();
+      this.closed.abort(new UACPError('Caller disconnected', 'CALLER_DISCONNECTED'));
+      onClose(this);
+    });
+
+    // Drop links whose peer stopped answering pings
+    this.heartbeat = setInterval(() => {
+      if (!this.alive) {
+        this.socket.terminate();
+        return;
+      }
+      this.alive = false;
+      this.socket.ping();
+    }, 30000);
+    this.heartbeat.unref();
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Aborted when the link closes
+   */
+  get signal(): AbortSignal {
+    return this.closed.signal;
+  }
+
+  /**
+   * Send a message and wait for the peer's response
+   */
+  request(
+    message: A2AMessage,
+    headers: Record<string, string> = {},
+    timeout = 30000
+  ): Promise<A2AResponse> {
+    const id = uuidv4();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TimeoutError(`Request timeout after ${timeout}ms`, timeout));
+      }, timeout);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.send({ type: 'message', id, message, headers }, (error) => {
+        if (!error) return;
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new NetworkError(`WebSocket send failed: ${error.message}`, { peer: this.peerId }));
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private send(frame: WebSocketFrame, callback?: (error?: Error) => void): void {
+    this.socket.send(JSON.stringify(frame), callback);
+  }
+
+  private async onFrame(data: RawData): Promise<void> {
+    let frame: WebSocketFrame;
+    try {
+      frame = JSON.parse(data.toString()) as WebSocketFrame;
+    } catch {
+      logger.warn('Ignoring malformed WebSocket frame');
+      return;
+    }
+
+    if (frame.type === 'response') {
+      const pending = this.pending.get(frame.id);
+      if (!pending) return; // Timed out
+      this.pending.delete(frame.id);
+      clearTimeout(pending.timer);
+      pending.resolve(frame.response);
+      return;
+    }
+
+    if (frame.type === 'message') {
+      const handler = this.handler();
+      if (!handler) {
+        logger.warn('No handler for WebSocket messages');
+        return;
+      }
+
+      // Frame headers (auth, payment) override those of the handshake
+      const headers: InboundHeaders = { ...this.handshakeHeaders };
+      for (const [name, value] of Object.entries(frame.headers || {})) {
+        headers[name.toLowerCase()] = value;
+      }
+
+      const response = await handler(frame.message, headers, this);
+      if (this.isOpen) {
+        this.send({ type: 'response', id: frame.id, response });
+      }
+    }
+  }
+}
+
+/**
+ * Pool of WebSocket links to other agents, opened by this agent (outbound) or
+ * accepted from peers (inbound). Either kind can carry messages both ways.
+ */
+export class WebSocketTransport implements Transport {
+  readonly schemes: readonly string[] = ['ws', 'wss'];
+  private links: Map<string, WebSocketLink> = new Map();
+  private connecting: Map<string, Promise<WebSocketLink>> = new Map();
+  private unavailable: Map<string, number> = new Map();
+  private accepted: Set<WebSocketLink> = new Set();
+  private handler?: WebSocketMessageHandler;
+  private retryUnavailableAfter = 60000;
+
+  /**
+   * Set the handler for messages received on any link
+   */
+  setMessageHandler(handler: WebSocketMessageHandler): void {
+    this.handler = handler;
+  }
+
+  isConnected(agentId: string): boolean {
+    return this.getLink(agentId) !== undefined;
+  }
+
+  /**
+   * Send a message over the link to its recipient, opening one to the endpoint
+   * if needed. Per-message headers travel in each frame; the handshake only
+   * identifies the sender.
+   */
+  async send(
+    endpoint: string,
+    message: A2AMessage,
+    headers: Record<string, string>,
+    timeout: number
+  ): Promise<A2AResponse> {
+    let link = this.getLink(message.recipient);
+
+    if (!link) {
+      if (!['ws', 'wss'].includes(getScheme(endpoint) || '')) {
+        throw new TransportUnavailableError(endpoint, 'no open WebSocket link');
+      }
+      const handshake = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !['X-Payment', 'X-Message-ID'].includes(name))
+      );
+      link = await this.connect(message.recipient, endpoint, handshake, timeout);
+    }
+
+    return throwOnServerError(await link.request(message, headers, timeout));
+  }
+
+  /**
+   * Listen for WebSocket connections only, on the endpoint's port and path
+   */
+  async listen(endpoint: string, handler: TransportHandler): Promise<TransportServer> {
+    const url = new URL(endpoint);
+    if (url.protocol !== 'ws:') {
+      throw new UACPError(
+        `Cannot listen on ${endpoint}: only ws is supported`,
+        'UNSUPPORTED_TRANSPORT'
+      );
+    }
+
+    const server = createServer((_req, res) => {
+      res.writeHead(426, { Upgrade: 'websocket' }).end();
+    });
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      if (path === url.pathname) {
+        handler.handleUpgrade(req, socket, head);
+      } else {
+        socket.destroy();
+      }
+    });
+
+    return startServer(server, getPort(endpoint), endpoint);
+  }
+
+  /**
+   * Open link to an agent, if any
+   */
+  getLink(agentId: string): WebSocketLink | undefined {
+    const link = this.links.get(agentId);
+    return link?.isOpen ? link : undefined;
+  }
+
+  /**
+   * Get or open a link to an agent. Endpoints that failed to connect are not
+   * retried for a minute.
+   */
+  async connect(
+    agentId: string,
+    url: string,
+    headers: Record<string, string> = {},
+    timeout = 30000
+  ): Promise<WebSocketLink> {
+    const existing = this.getLink(agentId);
+    if (existing) return existing;
+
+    const pending = this.connecting.get(agentId);
+    if (pending) return pending;
+
+    const failedAt = this.unavailable.get(url);
+    if (failedAt && Date.now() - failedAt < this.retryUnavailableAfter) {
+      throw new TransportUnavailableError(url, 'recently failed to connect');
+    }
+
+    const connection = new Promise<WebSocketLink>((resolve, reject) => {
+      const socket = new WebSocket(url, { headers, handshakeTimeout: timeout });
+
+      socket.once('open', () => {
+        const link = new WebSocketLink(
+          socket,
+          {},
+          () => this.handler,
+          (closed) => this.remove(closed)
+        );
+        link.peerId = agentId;
+        this.links.set(agentId, link);
+        this.unavailable.delete(url);
+        logger.debug(`WebSocket link opened: ${agentId}`);
+        resolve(link);
+      });
+
+      socket.once('error', (error) => {
+        this.unavailable.set(url, Date.now());
+        reject(new TransportUnavailableError(url, error.message));
+      });
+    });
+
+    this.connecting.set(agentId, connection);
+    try {
+      return await connection;
+    } finally {
+      this.connecting.delete(agentId);
+    }
+  }
+
+  /**
+   * Track a connection accepted from a peer. It carries messages to that peer
+   * once identified.
+   */
+  accept(socket: WebSocket, headers: InboundHeaders): WebSocketLink {
+    const link = new WebSocketLink(
+      socket,
+      headers,
+      () => this.handler,
+      (closed) => this.remove(closed)
+    );
+    this.accepted.add(link);
+    return link;
+  }
+
+  /**
+   * Associate an accepted link with the agent that sent messages over it
+   */
+  identify(link: WebSocketLink, agentId: string): void {
+    if (link.peerId || !this.accepted.has(link)) return;
+    link.peerId = agentId;
+    if (!this.getLink(agentId)) {
+      this.links.set(agentId, link);
+      logger.debug(`WebSocket link accepted: ${agentId}`);
+    }
+  }
+
+  /**
+   * Close all links
+   */
+  close(): void {
+    for (const link of [...this.links.values(), ...this.accepted]) {
+      link.close();
+    }
+    this.links.clear();
+    this.accepted.clear();
+  }
+
+  private remove(link: WebSocketLink): void {
+    this.accepted.delete(link);
+    if (link.peerId && this.links.get(link.peerId) === link) {
+      this.links.delete(link.peerId);
+      logger.debug(`WebSocket link closed: ${link.peerId}`);
+    }
+  }
+}
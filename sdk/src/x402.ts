@@ -1,13 +1,27 @@
-import { Wallet } from 'ethers';
-import type {
+import { Contract, JsonRpcProvider, Wallet } from 'ethers';
+import {
   PaymentRequirements,
+  PaymentRequirementsInput,
+  PaymentRequirementsSchema,
   PaymentPayload,
+  PaymentPayloadSchema,
+  PaymentScheme,
   VerifyResponse,
+  VerifyResponseSchema,
   SettleResponse,
-  Task,
-} from './types/a2a-x402.js';
-import { PaymentRequiredError } from './utils/errors.js';
+  SettleResponseSchema,
+  RefundResponse,
+  RefundResponseSchema,
+  X402_VERSION,
+} from './types/payment.js';
+import { MessageValidationError, PaymentRequiredError } from './utils/errors.js';
 import { Logger } from './utils/logger.js';
+import { safeValidate, validate } from './utils/validation.js';
+import { signPaymentAuthorization, verifyPaymentAuthorization } from './schemes.js';
+import { HTTPFacilitatorClient } from './facilitator.js';
+import { PaymentContext, PaymentEntry, PaymentLedger } from './ledger.js';
+import { verifyPaymentReceipt } from './receipts.js';
+import { A2AResponse } from './types/message.js';
 
 const logger = new Logger({ level: 'info', prefix: 'X402' });
 
@@ -18,49 +32,127 @@ export interface X402Config {
   wallet?: Wallet;
   network?: string;
   rpcUrl?: string;
-  facilitatorUrl?: string;
+  facilitatorUrl?: string; // x402 facilitator HTTP API, e.g. a local createFacilitatorApp()
+  facilitatorRefundToken?: string; // Bearer token for the facilitator's /refund route
+  facilitator?: PaymentFacilitator;
+  ledger?: PaymentLedger; // Where payments are recorded (default: a new in-memory ledger)
 }
 
 /**
- * Payment requirements for UACP
+ * Settlement options
  */
-export interface UACPPaymentRequirements {
-  scheme: 'exact' | 'range' | 'subscription';
-  network: string;
-  asset: string;
+export interface SettleOptions {
+  amount?: string; // Range scheme: actual usage to settle, up to the authorized value
+}
+
+/**
+ * Reverse transfer of a settled payment back to the payer
+ */
+export interface RefundRequest {
+  payer: string;
   payTo: string;
-  maxAmountRequired: string;
-  minAmountRequired?: string;
-  resource: string;
-  description: string;
-  mimeType?: string;
-  maxTimeoutSeconds?: number;
+  amount: string;
+  asset: string;
+  network: string;
+  transaction?: string; // Settlement being refunded
+  reason?: string;
 }
 
+/**
+ * Verifies and settles payments on behalf of a payment server
+ */
+export interface PaymentFacilitator {
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    options?: SettleOptions
+  ): Promise<SettleResponse>;
+  refund?(request: RefundRequest): Promise<RefundResponse>;
+}
+
+/**
+ * Payment requirements for UACP (mimeType and maxTimeoutSeconds are defaulted)
+ */
+export type UACPPaymentRequirements = PaymentRequirementsInput;
+
 /**
  * UACP Payment Server - Wrapper for merchant/service provider agents
  */
 export class UACPPaymentServer {
   private network: string;
+  private facilitator?: PaymentFacilitator;
+  private ledger: PaymentLedger;
+  private wallet?: Wallet;
+  private rpcUrl?: string;
 
   constructor(config: X402Config = {}) {
     this.network = config.network || 'somnia';
+    this.wallet = config.wallet;
+    this.rpcUrl = config.rpcUrl;
+    this.facilitator =
+      config.facilitator ||
+      (config.facilitatorUrl
+        ? new HTTPFacilitatorClient(config.facilitatorUrl, undefined, config.facilitatorRefundToken)
+        : undefined);
+    this.ledger = config.ledger || new PaymentLedger();
     logger.info('Payment server initialized');
   }
 
   /**
-   * Verify payment from client
+   * Ledger of payments received by this server
+   */
+  getLedger(): PaymentLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Record payments to a different ledger
+   */
+  setLedger(ledger: PaymentLedger): void {
+    this.ledger = ledger;
+  }
+
+  /**
+   * Record requirements issued in a 402 response
+   */
+  recordRequirements(requirements: PaymentRequirements, context: PaymentContext): PaymentEntry {
+    return this.ledger.record({
+      direction: 'inbound',
+      status: 'required',
+      ...context,
+      payTo: requirements.payTo,
+      amount: requirements.maxAmountRequired,
+      asset: requirements.asset,
+      network: requirements.network,
+      scheme: requirements.scheme,
+      requirements,
+    });
+  }
+
+  /**
+   * Verify payment from client. With a context, the payload and verification
+   * result are recorded in the ledger.
    */
   async verifyPayment(
     payload: PaymentPayload,
-    requirements: PaymentRequirements
+    requirements: PaymentRequirements,
+    context?: PaymentContext
   ): Promise<VerifyResponse> {
     try {
       logger.debug('Verifying payment', { payload, requirements });
 
-      // Dynamic import to handle optional dependency
-      const { verifyPayment } = await import('a2a-x402');
-      const result = await verifyPayment(payload, requirements);
+      const parsed = safeValidate(PaymentPayloadSchema, payload);
+      if (!parsed.success) {
+        return { isValid: false, invalidReason: `Invalid payload: ${parsed.errors.join(', ')}` };
+      }
+
+      const mismatch =
+        parsed.data.scheme !== requirements.scheme ||
+        parsed.data.network !== requirements.network;
+      const result: VerifyResponse = mismatch
+        ? { isValid: false, invalidReason: 'Payload scheme or network does not match requirements' }
+        : await this.verifyWithFacilitator(parsed.data, requirements);
 
       if (result.isValid) {
         logger.info('Payment verified successfully', {
@@ -70,6 +162,24 @@ export class UACPPaymentServer {
         logger.warn('Payment verification failed', result);
       }
 
+      if (context) {
+        this.ledger.record({
+          direction: 'inbound',
+          status: result.isValid ? 'verified' : 'rejected',
+          ...context,
+          payer: result.payer || parsed.data.payload.authorization.from,
+          payTo: requirements.payTo,
+          amount: parsed.data.payload.authorization.value,
+          asset: requirements.asset,
+          network: requirements.network,
+          scheme: requirements.scheme,
+          requirements,
+          payload: parsed.data,
+          verification: result,
+          error: result.invalidReason,
+        });
+      }
+
       return result;
     } catch (error) {
       logger.error('Payment verification error', error);
@@ -78,18 +188,23 @@ export class UACPPaymentServer {
   }
 
   /**
-   * Settle payment on-chain
+   * Settle payment on-chain. With a context, the verified ledger entry for the
+   * message is updated with the settlement.
    */
   async settlePayment(
     payload: PaymentPayload,
-    requirements: PaymentRequirements
+    requirements: PaymentRequirements,
+    options: SettleOptions = {},
+    context?: PaymentContext
   ): Promise<SettleResponse> {
     try {
-      logger.debug('Settling payment', { payload });
+      logger.debug('Settling payment', { payload, amount: options.amount });
 
-      // Dynamic import to handle optional dependency
-      const { settlePayment } = await import('a2a-x402');
-      const result = await settlePayment(payload, requirements);
+      const result = await this.settleWithFacilitator(
+        validate(PaymentPayloadSchema, payload),
+        validate(PaymentRequirementsSchema, requirements),
+        options
+      );
 
       if (result.success) {
         logger.info('Payment settled successfully');
@@ -97,6 +212,10 @@ export class UACPPaymentServer {
         logger.warn('Payment settlement failed', result);
       }
 
+      if (context) {
+        this.recordSettlement(payload, requirements, result, options, context);
+      }
+
       return result;
     } catch (error) {
       logger.error('Payment settlement error', error);
@@ -104,32 +223,208 @@ export class UACPPaymentServer {
     }
   }
 
+  /**
+   * Refund a settled payment with a reverse transfer, through the facilitator or
+   * from the configured wallet. With a context, the refund is recorded on the
+   * settled ledger entry for the message.
+   */
+  async refundPayment(request: RefundRequest, context?: PaymentContext): Promise<RefundResponse> {
+    let result: RefundResponse;
+    try {
+      logger.debug('Refunding payment', request);
+      result = await this.refundWithFacilitator(request);
+    } catch (error) {
+      logger.error('Payment refund error', error);
+      result = {
+        success: false,
+        network: request.network,
+        amount: request.amount,
+        errorReason: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (result.success) {
+      logger.info('Payment refunded successfully', {
+        payer: request.payer,
+        amount: request.amount,
+      });
+    } else {
+      logger.warn('Payment refund failed', result);
+    }
+
+    if (context) {
+      const entry = this.ledger.latest({
+        direction: 'inbound',
+        messageId: context.messageId,
+        status: 'settled',
+      });
+      if (entry) {
+        const fullyRefunded = result.success && BigInt(result.amount) >= BigInt(entry.amount);
+        this.ledger.update(entry.id, {
+          status: fullyRefunded ? 'refunded' : 'settled',
+          refund: {
+            success: result.success,
+            amount: result.amount,
+            transaction: result.transaction,
+            reason: request.reason,
+            errorReason: result.errorReason,
+            timestamp: Date.now(),
+          },
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async refundWithFacilitator(request: RefundRequest): Promise<RefundResponse> {
+    if (this.facilitator?.refund) {
+      return validate(RefundResponseSchema, await this.facilitator.refund(request));
+    }
+
+    if (!this.wallet || !this.rpcUrl) {
+      return {
+        success: false,
+        network: request.network,
+        amount: request.amount,
+        errorReason: 'Refunds require a facilitator with refund support or a wallet and rpcUrl',
+      };
+    }
+
+    // Plain ERC-20 transfer from the payee wallet back to the payer
+    const token = new Contract(
+      request.asset,
+      ['function transfer(address to, uint256 value) returns (bool)'],
+      this.wallet.connect(new JsonRpcProvider(this.rpcUrl))
+    );
+    const tx = await token.transfer(request.payer, request.amount);
+    const receipt = await tx.wait();
+
+    return {
+      success: true,
+      transaction: receipt.hash,
+      network: request.network,
+      amount: request.amount,
+    };
+  }
+
+  private recordSettlement(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    result: SettleResponse,
+    options: SettleOptions,
+    context: PaymentContext
+  ): void {
+    const changes = {
+      status: result.success ? ('settled' as const) : ('rejected' as const),
+      amount: result.amount ?? options.amount ?? payload.payload.authorization.value,
+      transaction: result.transaction,
+      error: result.errorReason,
+    };
+
+    const entry = this.ledger.latest({
+      direction: 'inbound',
+      messageId: context.messageId,
+      status: 'verified',
+    });
+
+    if (entry) {
+      this.ledger.update(entry.id, changes);
+    } else {
+      this.ledger.record({
+        direction: 'inbound',
+        ...context,
+        ...changes,
+        payer: result.payer || payload.payload.authorization.from,
+        payTo: requirements.payTo,
+        asset: requirements.asset,
+        network: requirements.network,
+        scheme: requirements.scheme,
+        requirements,
+        payload,
+      });
+    }
+  }
+
+  /**
+   * Verify through the configured facilitator. Without one, exact payments go
+   * through a2a-x402 and range/subscription payments are verified locally.
+   */
+  private async verifyWithFacilitator(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    if (this.facilitator) {
+      return validate(VerifyResponseSchema, await this.facilitator.verify(payload, requirements));
+    }
+
+    if (requirements.scheme !== 'exact') {
+      return verifyPaymentAuthorization(payload, requirements);
+    }
+
+    // Dynamic import to handle optional dependency
+    const { verifyPayment } = await import('a2a-x402');
+    return validate(
+      VerifyResponseSchema,
+      await verifyPayment(payload, validate(PaymentRequirementsSchema, requirements))
+    );
+  }
+
+  /**
+   * Settle through the configured facilitator. a2a-x402 only settles exact payments.
+   */
+  private async settleWithFacilitator(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    options: SettleOptions
+  ): Promise<SettleResponse> {
+    if (this.facilitator) {
+      return validate(
+        SettleResponseSchema,
+        await this.facilitator.settle(payload, requirements, options)
+      );
+    }
+
+    if (requirements.scheme !== 'exact') {
+      return {
+        success: false,
+        network: requirements.network,
+        errorReason: `Settling ${requirements.scheme} payments requires a facilitator`,
+      };
+    }
+
+    // Dynamic import to handle optional dependency
+    const { settlePayment } = await import('a2a-x402');
+    return validate(SettleResponseSchema, await settlePayment(payload, requirements));
+  }
+
   /**
    * Create payment requirements for a resource
    */
   async createPaymentRequirements(params: {
     amount: string;
-    scheme?: string;
+    minAmount?: string;
+    scheme?: PaymentScheme;
     network?: string;
     asset: string;
     payTo: string;
     resource: string;
     description: string;
+    extra?: Record<string, unknown>;
   }): Promise<PaymentRequirements> {
-    const { createPaymentRequirements } = await import('a2a-x402');
-    
-    const options: any = {
-      price: params.amount,
-      payToAddress: params.payTo,
-      resource: params.resource,
+    return validate(PaymentRequirementsSchema, {
+      scheme: params.scheme || 'exact',
       network: params.network || this.network,
+      asset: params.asset,
+      payTo: params.payTo,
+      maxAmountRequired: params.amount,
+      minAmountRequired: params.minAmount,
+      resource: params.resource,
       description: params.description,
       mimeType: 'application/json',
-      scheme: params.scheme || 'exact',
       maxTimeoutSeconds: 1200,
-    };
-    
-    return createPaymentRequirements(options);
+      extra: params.extra,
+    });
   }
 
   /**
@@ -149,12 +444,28 @@ export class UACPPaymentServer {
  */
 export class UACPPaymentClient {
   private wallet?: Wallet;
+  private ledger: PaymentLedger;
 
   constructor(config: X402Config = {}) {
     this.wallet = config.wallet;
+    this.ledger = config.ledger || new PaymentLedger();
     logger.info('Payment client initialized');
   }
 
+  /**
+   * Ledger of payments made by this client
+   */
+  getLedger(): PaymentLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Record payments to a different ledger
+   */
+  setLedger(ledger: PaymentLedger): void {
+    this.ledger = ledger;
+  }
+
   /**
    * Set wallet for payment processing
    */
@@ -168,7 +479,7 @@ export class UACPPaymentClient {
    */
   async handlePaymentRequired(
     requirements: PaymentRequirements,
-    _task?: Task
+    _task?: Record<string, unknown>
   ): Promise<PaymentPayload> {
     if (!this.wallet) {
       throw new PaymentRequiredError(
@@ -185,9 +496,13 @@ export class UACPPaymentClient {
   }
 
   /**
-   * Process payment for given requirements
+   * Process payment for given requirements. With a context, the payment is
+   * recorded in the ledger as submitted.
    */
-  async processPayment(requirements: PaymentRequirements): Promise<PaymentPayload> {
+  async processPayment(
+    requirements: PaymentRequirements,
+    context?: PaymentContext
+  ): Promise<PaymentPayload> {
     if (!this.wallet) {
       throw new PaymentRequiredError('Wallet not configured', requirements);
     }
@@ -195,21 +510,80 @@ export class UACPPaymentClient {
     try {
       logger.debug('Processing payment', { requirements });
 
-      // Dynamic import to handle optional dependency
-      const { processPayment } = await import('a2a-x402');
-      const payload = await processPayment(requirements, this.wallet);
+      let payload: PaymentPayload;
+      if (requirements.scheme === 'exact') {
+        // Dynamic import to handle optional dependency
+        const { processPayment } = await import('a2a-x402');
+        payload = validate(
+          PaymentPayloadSchema,
+          await processPayment(validate(PaymentRequirementsSchema, requirements), this.wallet)
+        );
+      } else {
+        // Range and subscription authorizations are signed locally
+        payload = await signPaymentAuthorization(this.wallet, requirements);
+      }
 
       logger.info('Payment processed successfully', {
         scheme: payload.scheme,
         network: payload.network,
       });
 
+      if (context) {
+        this.ledger.record({
+          direction: 'outbound',
+          status: 'submitted',
+          ...context,
+          payer: payload.payload.authorization.from,
+          payTo: requirements.payTo,
+          amount: payload.payload.authorization.value,
+          asset: requirements.asset,
+          network: requirements.network,
+          scheme: requirements.scheme,
+          requirements,
+          payload,
+        });
+      }
+
       return payload;
     } catch (error) {
       logger.error('Payment processing error', error);
       throw error;
     }
   }
+
+  /**
+   * Record the response to a paid message: accepted with its receipt, or rejected
+   * on another 402. Receipts that fail verification are not stored.
+   */
+  confirmPayment(messageId: string, response: A2AResponse): PaymentEntry | undefined {
+    const entry = this.ledger.latest({ direction: 'outbound', messageId, status: 'submitted' });
+    if (!entry) return undefined;
+
+    if (response.status === 402) {
+      return this.ledger.update(entry.id, {
+        status: 'rejected',
+        error: response.error?.message || 'Payment was not accepted',
+      });
+    }
+
+    const { receipt } = response;
+    if (
+      receipt &&
+      (receipt.messageId !== messageId || !verifyPaymentReceipt(receipt, response.data ?? null))
+    ) {
+      logger.warn('Discarding invalid payment receipt', { messageId, receiptId: receipt.id });
+      return this.ledger.update(entry.id, { status: 'accepted' });
+    }
+
+    return this.ledger.update(entry.id, {
+      status: 'accepted',
+      ...(receipt && {
+        receipt,
+        amount: receipt.amount,
+        transaction: receipt.transaction,
+      }),
+    });
+  }
 }
 
 /**
@@ -218,20 +592,38 @@ export class UACPPaymentClient {
 export async function createUACPPaymentRequirements(
   params: UACPPaymentRequirements
 ): Promise<PaymentRequirements> {
-  const { createPaymentRequirements } = await import('a2a-x402');
-  
-  const options: any = {
-    price: params.maxAmountRequired,
-    payToAddress: params.payTo,
-    resource: params.resource,
-    network: params.network,
-    description: params.description,
-    mimeType: params.mimeType || 'application/json',
-    scheme: params.scheme,
-    maxTimeoutSeconds: params.maxTimeoutSeconds || 1200,
-  };
-  
-  return createPaymentRequirements(options);
+  return validate(PaymentRequirementsSchema, params);
+}
+
+/**
+ * Decode and validate an X-Payment header (base64 or raw JSON)
+ */
+export function decodePaymentHeader(header: string): PaymentPayload {
+  const trimmed = header.trim();
+  const json = trimmed.startsWith('{')
+    ? trimmed
+    : Buffer.from(trimmed, 'base64').toString('utf8');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MessageValidationError('Malformed X-Payment header');
+  }
+
+  const version = (data as { x402Version?: unknown })?.x402Version;
+  if (version !== X402_VERSION) {
+    throw new MessageValidationError(`Unsupported x402 version: ${String(version)}`);
+  }
+
+  return validate(PaymentPayloadSchema, data);
+}
+
+/**
+ * Encode a payment payload for the X-Payment header
+ */
+export function encodePaymentHeader(payload: PaymentPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64');
 }
 
 /**
@@ -254,5 +646,5 @@ export type {
   PaymentPayload,
   VerifyResponse,
   SettleResponse,
-  Task,
-} from './types/a2a-x402.js';
+  RefundResponse,
+} from './types/payment.js';
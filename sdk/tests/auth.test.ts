@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AuthPrincipal,
+  AuthenticationError,
+  BearerTokenAuthenticator,
+  UACPAgent,
+  signJWT,
+  verifyJWT,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+const SECRET = 'test-secret';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('verifyJWT', () => {
+  const sign = (claims: Record<string, unknown>) =>
+    signJWT(claims, { algorithm: 'HS256', secret: SECRET });
+
+  it('returns the claims of a valid token', () => {
+    const token = sign({ sub: 'did:somnia:client', aud: 'did:somnia:server', exp: now() + 60 });
+
+    expect(verifyJWT(token, { secret: SECRET, audience: 'did:somnia:server' })).toMatchObject({
+      sub: 'did:somnia:client',
+    });
+  });
+
+  it('rejects bad signatures, expired tokens and other audiences', () => {
+    const valid = sign({ aud: 'did:somnia:server', exp: now() + 60 });
+
+    expect(() => verifyJWT(valid, { secret: 'other' })).toThrow(/signature/);
+    expect(() => verifyJWT(sign({ exp: now() - 60 }), { secret: SECRET })).toThrow(/expired/);
+    expect(() => verifyJWT(sign({}), { secret: SECRET })).toThrow(/exp claim/);
+    expect(() => verifyJWT(valid, { secret: SECRET, audience: 'did:somnia:other' })).toThrow(
+      /audience/
+    );
+  });
+
+  it('rejects payloads that are not claim objects as authentication failures', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+    for (const payload of ['null', '42', '[]', '"claims"']) {
+      const token = `${header}.${Buffer.from(payload).toString('base64url')}.signature`;
+      expect(() => verifyJWT(token, { secret: SECRET })).toThrow(AuthenticationError);
+    }
+  });
+});
+
+describe('BearerTokenAuthenticator', () => {
+  const request = (token: string) => ({
+    agentId: 'did:somnia:server',
+    headers: { authorization: `Bearer ${token}`, 'x-sender-id': 'did:somnia:admin' },
+  });
+
+  it('takes the subject from the token, never from request headers', async () => {
+    const mapped = new BearerTokenAuthenticator({ 'partner-token': 'did:somnia:partner' });
+    const listed = new BearerTokenAuthenticator(['partner-token']);
+
+    expect(await mapped.authenticate(request('partner-token'))).toEqual({
+      type: 'bearer',
+      subject: 'did:somnia:partner',
+    });
+    expect((await listed.authenticate(request('partner-token'))).subject).toBeUndefined();
+    await expect(listed.authenticate(request('guess'))).rejects.toThrow(AuthenticationError);
+  });
+});
+
+describe('agent authentication', () => {
+  let agents: HttpAgents;
+  let principals: Array<AuthPrincipal | undefined>;
+
+  const createServer = async (type: 'bearer' | 'jwt') => {
+    const server = await agents.create('server', {
+      agentCard: { auth: { type } },
+      inboundAuth: {
+        bearerTokens: { 'client-token': 'did:somnia:client' },
+        jwt: { secret: SECRET },
+      },
+    });
+    server.onIntent('whoami', async (_task, context) => {
+      principals.push(context.principal);
+      return { success: true };
+    });
+  };
+
+  const whoami = (client: UACPAgent) =>
+    client.sendMessage({ recipient: 'did:somnia:server', intent: 'whoami', task: {} });
+
+  beforeEach(() => {
+    agents = new HttpAgents();
+    principals = [];
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('accepts credentials the router attaches for the recipient auth type', async () => {
+    await createServer('jwt');
+    const client = await agents.create('client', {
+      outboundAuth: { jwt: { algorithm: 'HS256', secret: SECRET } },
+    });
+
+    expect((await whoami(client)).success).toBe(true);
+    expect(principals[0]).toMatchObject({ type: 'jwt', subject: 'did:somnia:client' });
+  });
+
+  it('answers 401 UNAUTHORIZED without running the handler', async () => {
+    await createServer('bearer');
+    const anonymous = await agents.create('anonymous');
+    const guessing = await agents.create('guessing', {
+      outboundAuth: { defaultBearerToken: 'guess' },
+    });
+
+    for (const client of [anonymous, guessing]) {
+      const response = await whoami(client);
+      expect(response.status).toBe(401);
+      expect(response.error?.code).toBe('UNAUTHORIZED');
+    }
+    expect(principals).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  MessageSender,
+  UACPAgent,
+  codegen,
+  generateClient,
+  schemaToType,
+  toJSONSchema,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('schemaToType', () => {
+  it('maps JSON Schemas from zod to TypeScript types', () => {
+    const schema = z.object({
+      symbol: z.string().describe('Ticker symbol'),
+      side: z.enum(['buy', 'sell']),
+      limit: z.number().optional(),
+      tags: z.array(z.union([z.string(), z.number()])),
+      'fill-or-kill': z.boolean(),
+    });
+
+    expect(schemaToType(toJSONSchema(schema))).toBe(
+      [
+        '{',
+        '  /** Ticker symbol */',
+        '  symbol: string;',
+        '  side: "buy" | "sell";',
+        '  limit?: number;',
+        '  tags: Array<string | number>;',
+        '  "fill-or-kill": boolean;',
+        '}',
+      ].join('\n')
+    );
+    expect(schemaToType({ type: 'object', additionalProperties: false })).toBe(
+      'Record<string, never>'
+    );
+  });
+});
+
+describe('codegen', () => {
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let dir: string;
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    dir = await mkdtemp(join(tmpdir(), 'uacp-codegen-'));
+    server = await agents.create('calculator');
+    server.onIntent(
+      'add_numbers',
+      async (task) => ({ success: true, data: { result: task.a + task.b } }),
+      {
+        description: 'Add two numbers',
+        inputSchema: z.object({ a: z.number(), b: z.number() }),
+        outputSchema: z.object({ result: z.number() }),
+      }
+    );
+    server.onIntent('constructor', async () => ({ success: true }), { description: 'Reserved' });
+    server.onIntent('undescribed', async () => ({ success: true }));
+  });
+
+  afterEach(async () => {
+    await agents.shutdown();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('generates one typed method per published intent', async () => {
+    const source = await codegen(server.getAgentCard().endpoint);
+
+    expect(source).toContain('export type AddNumbersInput = {\n  a: number;\n  b: number;\n};');
+    expect(source).toContain('export type AddNumbersOutput = {\n  result: number;\n};');
+    expect(source).toContain('export class CalculatorClient {');
+    expect(source).toContain('  /** Add two numbers */\n  addNumbers(');
+    expect(source).toContain('  constructor_(');
+    expect(source).not.toContain('undescribed');
+  });
+
+  it('resolves DIDs through a registry', async () => {
+    const source = await codegen('did:somnia:calculator', {
+      registry: agents.registry,
+      className: 'Calculator',
+      sdkImport: '../sdk',
+    });
+
+    expect(source).toContain("} from '../sdk';");
+    expect(source).toContain('static readonly agentId = "did:somnia:calculator";');
+    await expect(codegen('did:somnia:calculator')).rejects.toThrow(/registry is required/);
+  });
+
+  it('generates a client that sends through any message sender', async () => {
+    const client = await agents.create('client');
+    const source = generateClient(server.getAgentCard());
+
+    // Type imports are erased, so the emitted module runs without the SDK package
+    const file = join(dir, 'client.mjs');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    await writeFile(file, outputText);
+    const { CalculatorClient } = (await import(pathToFileURL(file).href)) as {
+      CalculatorClient: new (sender: MessageSender) => {
+        addNumbers(task: { a: number; b: number }): Promise<{ data?: { result: number } }>;
+      };
+    };
+
+    const response = await new CalculatorClient(client).addNumbers({ a: 1, b: 2 });
+
+    expect(response.data).toEqual({ result: 3 });
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeadlineExceededError, MessageContext, UACPAgent, UACPError } from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('deadlines', () => {
+  let agents: HttpAgents;
+  let client: UACPAgent;
+  let planner: UACPAgent;
+  let model: UACPAgent;
+  let stopped: unknown[];
+
+  // Resolves once the handler's signal aborts, recording why
+  const untilStopped = (context: MessageContext) =>
+    new Promise<void>((resolve) => {
+      context.signal!.addEventListener('abort', () => {
+        stopped.push(context.signal!.reason);
+        resolve();
+      });
+    });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    stopped = [];
+    client = await agents.create('client');
+    planner = await agents.create('planner');
+    model = await agents.create('model', { outbox: {} });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('hands the deadline to handlers and to the messages they send', async () => {
+    model.onIntent('complete', async (_task, context) => ({
+      success: true,
+      data: { deadline: context.deadline },
+    }));
+    planner.onIntent('plan', async (_task, context) => {
+      const nested = await planner.sendMessage({
+        recipient: 'did:somnia:model',
+        intent: 'complete',
+        task: {},
+      });
+      return { success: true, data: { own: context.deadline, nested: nested.data } };
+    });
+    const deadline = Date.now() + 5000;
+
+    const response = await client.sendMessage(
+      { recipient: 'did:somnia:planner', intent: 'plan', task: {} },
+      { deadline }
+    );
+
+    expect(response.data).toEqual({ own: deadline, nested: { deadline } });
+  });
+
+  it('stops the handler at the deadline and never retries past it', async () => {
+    let calls = 0;
+    planner.onIntent('plan', async (_task, context) => {
+      calls++;
+      await untilStopped(context);
+      return { success: true };
+    });
+
+    await expect(
+      client.sendMessage(
+        { recipient: 'did:somnia:planner', intent: 'plan', task: {} },
+        { deadline: Date.now() + 100, retries: 3 }
+      )
+    ).rejects.toThrow(DeadlineExceededError);
+
+    await vi.waitFor(() => expect(stopped).toHaveLength(1));
+    expect(stopped[0]).toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+    expect(calls).toBe(1);
+  });
+
+  it('refuses to send once no time is left, without storing the message', async () => {
+    await expect(
+      model.sendMessage(
+        { recipient: 'did:somnia:planner', intent: 'plan', task: {} },
+        { deadline: Date.now() - 1 }
+      )
+    ).rejects.toMatchObject({ code: 'DEADLINE_EXCEEDED' });
+    expect(await model.getOutbox()!.list()).toEqual([]);
+  });
+
+  it('ends streams at the deadline on both sides', async () => {
+    model.onIntentStream('tokens', async function* (_task, context) {
+      yield 'first';
+      await untilStopped(context);
+    });
+    const chunks: unknown[] = [];
+
+    const streaming = (async () => {
+      for await (const chunk of client.streamMessage(
+        { recipient: 'did:somnia:model', intent: 'tokens', task: {} },
+        { deadline: Date.now() + 150 }
+      )) {
+        chunks.push(chunk);
+      }
+    })();
+
+    await expect(streaming).rejects.toThrow(DeadlineExceededError);
+    expect(chunks).toEqual(['first']);
+    await vi.waitFor(() => expect(stopped).toHaveLength(1));
+    expect((stopped[0] as UACPError).code).toBe('DEADLINE_EXCEEDED');
+  });
+});
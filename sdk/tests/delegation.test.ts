@@ -0,0 +1,271 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AProtocol,
+  A2AResponse,
+  CapabilityToken,
+  DELEGATION_METADATA_KEY,
+  DelegationConfig,
+  DelegationError,
+  LocalFacilitator,
+  TestNetwork,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+  VerifiedDelegation,
+  issueCapabilityToken,
+} from '../src/index.js';
+import { card } from './helpers.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('issueCapabilityToken', () => {
+  const wallet = Wallet.createRandom();
+  const parent = issueCapabilityToken(wallet, 'did:somnia:alice', {
+    audience: 'did:somnia:bob',
+    resource: 'did:somnia:server',
+    intents: ['quote'],
+    expiresAt: Date.now() + HOUR,
+    maxSpend: '1000',
+  });
+  const delegate = (overrides: Partial<Parameters<typeof issueCapabilityToken>[2]>) =>
+    issueCapabilityToken(wallet, 'did:somnia:bob', {
+      audience: 'did:somnia:carol',
+      resource: 'did:somnia:server',
+      intents: ['quote'],
+      expiresAt: parent.expiresAt,
+      maxSpend: '500',
+      proof: parent,
+      ...overrides,
+    });
+
+  it('lets a holder pass on a narrower token', () => {
+    expect(delegate({})).toMatchObject({ issuer: 'did:somnia:bob', proof: parent });
+  });
+
+  it('refuses tokens broader than their proof', () => {
+    expect(() => delegate({ intents: ['quote', 'trade'] })).toThrow(/intents/);
+    expect(() => delegate({ expiresAt: parent.expiresAt + 1 })).toThrow(/outlives/);
+    expect(() => delegate({ maxSpend: '1001' })).toThrow(/more spend/);
+    expect(() => delegate({ maxSpend: undefined })).toThrow(/more spend/);
+    expect(() => delegate({ resource: 'did:somnia:other' })).toThrow(DelegationError);
+    expect(() =>
+      issueCapabilityToken(wallet, 'did:somnia:mallory', {
+        audience: 'did:somnia:carol',
+        resource: 'did:somnia:server',
+        intents: ['quote'],
+        expiresAt: parent.expiresAt,
+        proof: parent,
+      })
+    ).toThrow(/does not hold/);
+  });
+});
+
+describe('delegated access', () => {
+  const aliceWallet = Wallet.createRandom();
+  const bobWallet = new Wallet(Wallet.createRandom().privateKey);
+  const asset = Wallet.createRandom().address;
+  const seller = Wallet.createRandom().address;
+  let network: TestNetwork;
+  let facilitator: LocalFacilitator;
+  let alice: UACPAgent;
+  let bob: UACPAgent;
+  let server: UACPAgent;
+  let delegations: Array<VerifiedDelegation | undefined>;
+
+  const createServer = async (delegation?: DelegationConfig) => {
+    server = await network.createAgent({
+      agentCard: card('server'),
+      paymentServer: new UACPPaymentServer({ facilitator }),
+      // Only Alice may call the server, directly or through agents she delegates to
+      policy: {
+        defaultEffect: 'deny',
+        rules: [{ effect: 'allow', senders: ['did:somnia:alice'] }],
+      },
+      delegation: { trustedIssuers: ['did:somnia:alice'], ...delegation },
+    });
+    server.onIntent('quote', async (_task, context) => {
+      delegations.push(context.delegation);
+      return { success: true };
+    });
+    server.onIntent('render', async (task) => ({ success: !task.fail }), {
+      pricing: { amount: '1000', asset, payTo: seller, scheme: 'range' },
+    });
+  };
+
+  const grant = (intents = ['quote'], maxSpend?: string) =>
+    alice.delegate({
+      audience: 'did:somnia:bob',
+      resource: 'did:somnia:server',
+      intents,
+      expiresAt: Date.now() + HOUR,
+      maxSpend,
+    });
+
+  const send = (
+    from: UACPAgent,
+    intent: string,
+    token?: CapabilityToken,
+    task: Record<string, unknown> = {}
+  ) =>
+    from.sendMessage(
+      {
+        recipient: 'did:somnia:server',
+        intent,
+        task,
+        metadata: token && { [DELEGATION_METADATA_KEY]: token },
+      },
+      { retries: 0 }
+    );
+
+  const expectRejected = (response: A2AResponse, pattern: RegExp) => {
+    expect(response.status).toBe(403);
+    expect(response.error?.code).toBe('INVALID_DELEGATION');
+    expect(response.error?.message).toMatch(pattern);
+  };
+
+  beforeEach(async () => {
+    network = new TestNetwork();
+    delegations = [];
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [bobWallet.address]: { [asset]: '10000' } },
+    });
+    alice = await network.createAgent({
+      agentCard: card('alice'),
+      walletPrivateKey: aliceWallet.privateKey,
+    });
+    bob = await network.createAgent({
+      agentCard: card('bob'),
+      walletPrivateKey: bobWallet.privateKey,
+      paymentClient: new UACPPaymentClient({ wallet: bobWallet }),
+    });
+  });
+
+  afterEach(() => network.shutdown());
+
+  it('applies the policy to the root issuer of a valid token', async () => {
+    await createServer();
+    const token = grant();
+
+    expect((await send(bob, 'quote', token)).success).toBe(true);
+    expect(delegations[0]).toMatchObject({
+      issuer: 'did:somnia:alice',
+      chain: ['did:somnia:alice'],
+      token: { id: token.id },
+    });
+
+    const withoutToken = await send(bob, 'quote');
+    expect(withoutToken.error?.code).toBe('FORBIDDEN');
+  });
+
+  it('rejects tokens that do not grant the message', async () => {
+    await createServer();
+
+    expectRejected(await send(bob, 'trade', grant()), /does not grant intent/);
+    expectRejected(await send(alice, 'quote', grant()), /not issued to did:somnia:alice/);
+    expectRejected(await send(bob, 'quote', { ...grant(), intents: ['*'] }), /signature/);
+    expect(delegations).toEqual([]);
+  });
+
+  it('requires messages carrying a token to be signed', async () => {
+    await createServer();
+    const unsigned = new A2AProtocol('did:somnia:bob').createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'quote',
+      task: {},
+      metadata: { [DELEGATION_METADATA_KEY]: grant() },
+    });
+
+    expectRejected(await bob.getRouter().sendMessage(unsigned), /must be signed/);
+  });
+
+  it('rejects expired, revoked and untrusted tokens', async () => {
+    await createServer();
+
+    const expired = alice.delegate({
+      audience: 'did:somnia:bob',
+      resource: 'did:somnia:server',
+      intents: ['quote'],
+      expiresAt: Date.now() - 1,
+    });
+    expectRejected(await send(bob, 'quote', expired), /expired/);
+
+    const revoked = grant();
+    await server.revokeDelegation(revoked.id);
+    expectRejected(await send(bob, 'quote', revoked), /revoked/);
+
+    const selfIssued = bob.delegate({
+      audience: 'did:somnia:bob',
+      resource: 'did:somnia:server',
+      intents: ['quote'],
+      expiresAt: Date.now() + HOUR,
+    });
+    expectRejected(await send(bob, 'quote', selfIssued), /Untrusted/);
+  });
+
+  it('only trusts chains rooted at the agent itself by default', async () => {
+    await createServer({ trustedIssuers: undefined });
+
+    expectRejected(
+      await send(bob, 'quote', grant()),
+      /Untrusted delegation issuer: did:somnia:alice/
+    );
+  });
+
+  it('verifies delegation chains and revokes everything delegated from a token', async () => {
+    await createServer({ maxDepth: 2 });
+    const carolWallet = Wallet.createRandom();
+    const carol = await network.createAgent({
+      agentCard: card('carol'),
+      walletPrivateKey: carolWallet.privateKey,
+    });
+    const root = grant();
+    const delegated = bob.delegate({
+      audience: 'did:somnia:carol',
+      resource: 'did:somnia:server',
+      intents: ['quote'],
+      expiresAt: root.expiresAt,
+      proof: root,
+    });
+
+    expect((await send(carol, 'quote', delegated)).success).toBe(true);
+    expect(delegations[0]?.chain).toEqual(['did:somnia:alice', 'did:somnia:bob']);
+
+    const tooDeep = carol.delegate({
+      audience: 'did:somnia:bob',
+      resource: 'did:somnia:server',
+      intents: ['quote'],
+      expiresAt: root.expiresAt,
+      proof: delegated,
+    });
+    expectRejected(await send(bob, 'quote', tooDeep), /longer than 2/);
+
+    await server.revokeDelegation(root.id);
+    expectRejected(await send(carol, 'quote', delegated), /revoked/);
+  });
+
+  it('counts payments against the spend allowed by the token', async () => {
+    await createServer();
+    const token = grant(['render'], '1500');
+
+    expect((await send(bob, 'render', token)).success).toBe(true);
+
+    const overspent = await send(bob, 'render', token);
+    expect(overspent.status).toBe(403);
+    expect(overspent.error?.code).toBe('DELEGATION_SPEND_EXCEEDED');
+    expect(await facilitator.getBalance(seller, asset)).toBe('1000');
+  });
+
+  it('stops counting payments that are not charged', async () => {
+    await createServer();
+    const token = grant(['render'], '1500');
+
+    await expect(send(bob, 'render', token, { fail: true })).rejects.toMatchObject({
+      details: { code: 'HANDLER_ERROR' },
+    });
+
+    expect((await send(bob, 'render', token)).success).toBe(true);
+    expect(await facilitator.getBalance(seller, asset)).toBe('1000');
+  });
+});
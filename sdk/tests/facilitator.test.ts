@@ -0,0 +1,199 @@
+import axios from 'axios';
+import { Wallet } from 'ethers';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  HTTPFacilitatorClient,
+  LocalFacilitator,
+  PaymentRequirements,
+  createFacilitatorApp,
+  signPaymentAuthorization,
+} from '../src/index.js';
+
+describe('LocalFacilitator', () => {
+  const payer = Wallet.createRandom();
+  const payTo = Wallet.createRandom().address;
+  const asset = Wallet.createRandom().address;
+  const requirements: PaymentRequirements = {
+    scheme: 'range',
+    network: 'somnia',
+    asset,
+    payTo,
+    maxAmountRequired: '1000',
+    resource: 'render',
+    description: 'Render a frame',
+    mimeType: 'application/json',
+    maxTimeoutSeconds: 60,
+  };
+  let facilitator: LocalFacilitator;
+
+  beforeEach(() => {
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [payer.address]: { [asset]: '5000' } },
+    });
+  });
+
+  const settle = async (amount?: string) => {
+    const payload = await signPaymentAuthorization(payer, requirements);
+    return facilitator.settle(payload, requirements, { amount });
+  };
+
+  const refund = (transaction: string | undefined, amount: string, from = payer.address) =>
+    facilitator.refund({ payer: from, payTo, asset, amount, network: 'somnia', transaction });
+
+  it('settles actual usage of a range payment', async () => {
+    const result = await settle('400');
+
+    expect(result).toMatchObject({ success: true, amount: '400' });
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('4600');
+    expect(await facilitator.getBalance(payTo, asset)).toBe('400');
+  });
+
+  it('settles an authorization only once, even concurrently', async () => {
+    const payload = await signPaymentAuthorization(payer, requirements);
+
+    const results = await Promise.all([
+      facilitator.settle(payload, requirements),
+      facilitator.settle(payload, requirements),
+    ]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)?.errorReason).toMatch(/nonce already used/);
+    expect(await facilitator.getBalance(payTo, asset)).toBe('1000');
+  });
+
+  it('rejects payers without enough funds', async () => {
+    facilitator.reset();
+
+    const result = await settle();
+
+    expect(result).toMatchObject({ success: false, errorReason: 'Insufficient funds' });
+  });
+
+  it('settles only positive whole amounts', async () => {
+    expect(await settle('0')).toMatchObject({
+      success: false,
+      errorReason: 'Settlement amount must be positive',
+    });
+    for (const amount of ['-1', '1.5', 'all']) {
+      expect((await settle(amount)).errorReason).toMatch(/Invalid settlement amount/);
+    }
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('5000');
+  });
+
+  it('never lets concurrent settles overdraw the payer', async () => {
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [payer.address]: { [asset]: '1500' } },
+    });
+
+    const results = await Promise.all([settle(), settle()]);
+
+    expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('500');
+  });
+
+  it('refunds up to the settled amount', async () => {
+    const { transaction } = await settle('400');
+
+    expect(await refund(transaction, '300')).toMatchObject({ success: true });
+    expect(await refund(transaction, '200')).toMatchObject({
+      success: false,
+      errorReason: 'Refund exceeds the settled amount',
+    });
+    expect(await refund(transaction, '100')).toMatchObject({ success: true });
+    expect(await refund(transaction, '1')).toMatchObject({
+      success: false,
+      errorReason: 'Settlement already refunded',
+    });
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('5000');
+  });
+
+  it('refunds only settlements it made, to their payer', async () => {
+    const { transaction } = await settle();
+
+    const results = await Promise.all([
+      refund(undefined, '100'),
+      refund('0x' + '0'.repeat(64), '100'),
+      refund(transaction, '100', Wallet.createRandom().address),
+    ]);
+
+    for (const result of results) {
+      expect(result).toMatchObject({
+        success: false,
+        errorReason: 'No matching settlement to refund',
+      });
+    }
+  });
+
+  describe('over HTTP', () => {
+    let server: Server | undefined;
+
+    const serve = async (refundTokens?: string[]) => {
+      const app = createFacilitatorApp(facilitator, { refundTokens });
+      server = await new Promise<Server>((resolve) => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+      });
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    afterEach(async () => {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    });
+
+    it('verifies and settles through the HTTP client', async () => {
+      const client = new HTTPFacilitatorClient(await serve());
+      const payload = await signPaymentAuthorization(payer, requirements);
+
+      expect(await client.verify(payload, requirements)).toMatchObject({ isValid: true });
+      expect(await client.settle(payload, requirements, { amount: '250' })).toMatchObject({
+        success: true,
+        amount: '250',
+      });
+    });
+
+    it('refuses settle amounts that are not whole numbers', async () => {
+      const url = await serve();
+      const payload = await signPaymentAuthorization(payer, requirements);
+
+      const response = await axios.post(
+        `${url}/settle`,
+        {
+          x402Version: 1,
+          paymentPayload: payload,
+          paymentRequirements: requirements,
+          amount: '1e3',
+        },
+        { validateStatus: () => true }
+      );
+
+      expect(response.status).toBe(400);
+      expect(await facilitator.getBalance(payTo, asset)).toBe('0');
+    });
+
+    it('serves refunds only to callers with a refund token', async () => {
+      const { transaction } = await settle();
+      const body = { payer: payer.address, payTo, asset, amount: '100', network: 'somnia' };
+      const post = (url: string, data: unknown, token?: string) =>
+        axios.post(`${url}/refund`, data, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          validateStatus: () => true,
+        });
+
+      const closed = await serve();
+      expect((await post(closed, { ...body, transaction }, 'secret')).status).toBe(501);
+      await new Promise((resolve) => server!.close(resolve));
+
+      const url = await serve(['secret']);
+      expect((await post(url, { ...body, transaction })).status).toBe(401);
+      expect((await post(url, { ...body, transaction }, 'wrong')).status).toBe(401);
+      expect((await post(url, body, 'secret')).status).toBe(400);
+
+      const client = new HTTPFacilitatorClient(url, 10000, 'secret');
+      expect(await client.refund({ ...body, transaction })).toMatchObject({ success: true });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { createServer } from 'net';
+import { AgentConfig, AgentRegistry, UACPAgent } from '../src/index.js';
+
+/**
+ * Agent card for a test agent named `did:somnia:<name>`
+ */
+export function card(name: string): Omit<AgentConfig['agentCard'], 'endpoint'> {
+  return {
+    id: `did:somnia:${name}`,
+    name,
+    description: `${name} test agent`,
+    version: '1.0.0',
+    capabilities: ['test'],
+    auth: { type: 'none' },
+    metadata: {},
+  };
+}
+
+/**
+ * Collect every chunk of a stream
+ */
+export async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * A local port nothing listens on
+ */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+/**
+ * Agents served over HTTP on local ports, sharing one in-memory registry
+ */
+export class HttpAgents {
+  readonly registry = new AgentRegistry({ type: 'memory' });
+  private agents: UACPAgent[] = [];
+
+  async create(
+    name: string,
+    config: Omit<AgentConfig, 'agentCard' | 'registry'> & {
+      agentCard?: Partial<AgentConfig['agentCard']>;
+    } = {}
+  ): Promise<UACPAgent> {
+    const port = await freePort();
+    const agent = new UACPAgent({
+      ...config,
+      agentCard: { ...card(name), endpoint: `http://localhost:${port}`, ...config.agentCard },
+      registry: this.registry,
+    });
+    await agent.initialize();
+    await agent.listen(port);
+    await agent.register();
+    this.agents.push(agent);
+    return agent;
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.agents.splice(0).map((agent) => agent.shutdown()));
+  }
+}
@@ -0,0 +1,143 @@
+import { Wallet } from 'ethers';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  LocalFacilitator,
+  PaymentEntry,
+  PaymentLedger,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+  verifyPaymentReceipt,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+const asset = Wallet.createRandom().address;
+const payTo = Wallet.createRandom().address;
+
+describe('PaymentLedger', () => {
+  let dir: string;
+
+  const entry = (overrides: Partial<PaymentEntry> = {}) => ({
+    direction: 'inbound' as const,
+    status: 'settled' as const,
+    messageId: 'message-1',
+    intent: 'render',
+    sender: 'did:somnia:client',
+    recipient: 'did:somnia:server',
+    payTo,
+    amount: '100',
+    asset,
+    network: 'somnia',
+    scheme: 'exact',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'uacp-ledger-'));
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('queries by either party and totals only paid entries', () => {
+    const ledger = new PaymentLedger();
+    ledger.record(entry());
+    ledger.record(entry({ sender: 'did:somnia:other', amount: '50' }));
+    ledger.record(entry({ status: 'rejected', amount: '1000' }));
+
+    expect(ledger.query({ agent: 'did:somnia:client' })).toHaveLength(2);
+    expect(ledger.total({ recipient: 'did:somnia:server' })).toBe(150n);
+  });
+
+  it('persists entries to a file and exports them as CSV', async () => {
+    const filePath = join(dir, 'payments.json');
+    const ledger = new PaymentLedger({ filePath });
+    ledger.record(entry({ status: 'rejected', error: 'Expired, "stale" authorization' }));
+    await ledger.flush();
+
+    const reloaded = new PaymentLedger({ filePath });
+    const [header, row] = reloaded.export('csv').split('\n');
+
+    expect(reloaded.query()).toEqual(ledger.query());
+    expect(header).toMatch(/^id,timestamp,direction,status,/);
+    expect(row).toContain('"Expired, ""stale"" authorization"');
+  });
+});
+
+describe('payment receipts', () => {
+  const serverWallet = Wallet.createRandom();
+  let payer: Wallet;
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+
+  beforeEach(async () => {
+    payer = new Wallet(Wallet.createRandom().privateKey);
+    agents = new HttpAgents();
+    server = await agents.create('server', {
+      walletPrivateKey: serverWallet.privateKey,
+      paymentServer: new UACPPaymentServer({ facilitator: new LocalFacilitator() }),
+    });
+    server.onIntent(
+      'render',
+      async () => ({ success: true, data: { frame: 'done' }, chargeAmount: '300' }),
+      { pricing: { amount: '1000', asset, payTo, scheme: 'range' } }
+    );
+    client = await agents.create('client', {
+      paymentClient: new UACPPaymentClient({ wallet: payer }),
+    });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('returns a receipt signed by the payee for the data it paid for', async () => {
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'render',
+      task: {},
+    });
+    const receipt = response.receipt!;
+
+    expect(receipt).toMatchObject({
+      messageId: response.messageId,
+      payee: 'did:somnia:server',
+      payer: payer.address,
+      amount: '300',
+      signer: serverWallet.address,
+    });
+    expect(verifyPaymentReceipt(receipt, response.data)).toBe(true);
+    expect(verifyPaymentReceipt(receipt, { frame: 'other' })).toBe(false);
+    expect(verifyPaymentReceipt({ ...receipt, amount: '1' })).toBe(false);
+  });
+
+  it('records both sides of the payment in each agent ledger', async () => {
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'render',
+      task: {},
+    });
+
+    expect(client.getPaymentLedger().query({ direction: 'outbound' })).toMatchObject([
+      {
+        status: 'accepted',
+        sender: 'did:somnia:client',
+        recipient: 'did:somnia:server',
+        amount: '300',
+        transaction: response.receipt!.transaction,
+        receipt: response.receipt,
+      },
+    ]);
+    const inbound = server.getPaymentLedger().query({ direction: 'inbound' });
+    expect(inbound.map((entry) => entry.status)).toEqual(['required', 'settled']);
+    expect(inbound.slice(1)).toMatchObject([
+      {
+        amount: '300',
+        messageId: response.messageId,
+        payer: payer.address,
+        transaction: response.receipt!.transaction,
+      },
+    ]);
+  });
+});
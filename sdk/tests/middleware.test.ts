@@ -0,0 +1,155 @@
+import { AxiosError } from 'axios';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { A2AProtocol, A2AResponse, InboundMiddleware, UACPAgent, compose } from '../src/index.js';
+import { HttpAgents, collect } from './helpers.js';
+
+describe('middleware', () => {
+  let agents: HttpAgents;
+  let client: UACPAgent;
+  let server: UACPAgent;
+  let trail: string[];
+
+  const trace =
+    (name: string): InboundMiddleware =>
+    async (ctx, next) => {
+      trail.push(`${name}:before`);
+      await next();
+      trail.push(`${name}:${ctx.response?.status}`);
+    };
+
+  const refuse: InboundMiddleware = (ctx) => {
+    ctx.response = A2AProtocol.createA2AResponse(ctx.message.id, false, undefined, {
+      code: 'UNAUTHORIZED',
+      message: 'Members only',
+    });
+  };
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    trail = [];
+    client = await agents.create('client');
+    server = await agents.create('server');
+    server.use(trace('agent'));
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('runs agent middleware, then the intent’s, around the handler', async () => {
+    server.onIntent(
+      'greet',
+      async (_task, context) => {
+        trail.push('handler');
+        return { success: true, data: context.state };
+      },
+      {
+        middleware: [
+          trace('intent'),
+          (ctx, next) => {
+            ctx.state.account = 'acct_42';
+            return next();
+          },
+        ],
+      }
+    );
+    server.onIntent('vault', async () => ({ success: true }), { middleware: [refuse] });
+
+    const greeted = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'greet',
+      task: {},
+    });
+    const refused = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'vault',
+      task: {},
+    });
+
+    expect(greeted.data).toEqual({ account: 'acct_42' });
+    expect(refused).toMatchObject({ status: 401, error: { code: 'UNAUTHORIZED' } });
+    expect(trail).toEqual([
+      'agent:before',
+      'intent:before',
+      'handler',
+      'intent:200',
+      'agent:200',
+      'agent:before',
+      'agent:401',
+    ]);
+  });
+
+  it('lets middleware accept or refuse streams', async () => {
+    let opened = 0;
+    server.onIntentStream('ticks', async function* () {
+      opened++;
+      yield* [1, 2];
+    });
+    server.onIntentStream('secret', async function* () {
+      opened++;
+      yield 1;
+    });
+    server.use((ctx, next) => (ctx.message.intent === 'secret' ? refuse(ctx, next) : next()));
+
+    const ticks = await collect(
+      client.streamMessage({ recipient: 'did:somnia:server', intent: 'ticks', task: {} })
+    );
+
+    expect(ticks).toEqual([1, 2]);
+    await expect(
+      collect(client.streamMessage({ recipient: 'did:somnia:server', intent: 'secret', task: {} }))
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    expect(opened).toBe(1);
+    // The stream is accepted before its chunks are sent
+    expect(trail).toEqual(['agent:before', 'agent:200', 'agent:before', 'agent:401']);
+  });
+
+  it('passes outgoing messages and their outbox redeliveries through outbound middleware', async () => {
+    const sender = await agents.create('sender', { outbox: { retryDelay: 0 } });
+    const received: unknown[] = [];
+    let down = true;
+    server.onIntent(
+      'notify',
+      async (task) => {
+        received.push(task);
+        return { success: true };
+      },
+      {
+        middleware: [
+          (ctx, next) => {
+            if (!down) return next();
+            ctx.response = A2AProtocol.createA2AResponse(ctx.message.id, false, undefined, {
+              code: 'AGENT_BUSY',
+              message: 'Down for maintenance',
+            });
+          },
+        ],
+      }
+    );
+    let passes = 0;
+    sender.useOutbound(async (ctx, next) => {
+      passes++;
+      ctx.message = { ...ctx.message, task: { ...ctx.message.task, tenant: 'acme' } };
+      await next();
+    });
+
+    const failed = await sender
+      .sendMessage({ recipient: 'did:somnia:server', intent: 'notify', task: {} }, { retries: 0 })
+      .catch((error: AxiosError<A2AResponse>) => error.response!.data);
+    down = false;
+    await sender.getOutbox()!.redeliver();
+
+    expect(failed.error?.code).toBe('AGENT_BUSY');
+    expect(passes).toBe(2);
+    expect(received).toEqual([{ tenant: 'acme' }]);
+  });
+
+  it('refuses a chain that calls next twice', async () => {
+    const twice = compose<{ response?: A2AResponse }>([
+      async (_ctx, next) => {
+        await next();
+        await next();
+      },
+    ]);
+
+    await expect(twice({}, async () => {})).rejects.toMatchObject({ code: 'MIDDLEWARE_ERROR' });
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AProtocol,
+  AgentEvent,
+  FileOutboxStore,
+  NetworkError,
+  Outbox,
+  OutboxEntry,
+  TestNetwork,
+  UACPAgent,
+} from '../src/index.js';
+import { card } from './helpers.js';
+
+describe('outbox', () => {
+  let network: TestNetwork;
+  let workflow: UACPAgent;
+  let notified: string[];
+  let outage: () => void;
+
+  const notify = (text: string, options?: { outbox?: boolean }) =>
+    workflow.sendMessage(
+      { recipient: 'did:somnia:notifier', intent: 'notify.email', task: { text } },
+      { retries: 0, ...options }
+    );
+
+  beforeEach(async () => {
+    network = new TestNetwork();
+    notified = [];
+    workflow = await network.createAgent({
+      agentCard: card('workflow'),
+      outbox: { retryDelay: 0, maxAttempts: 2 },
+    });
+    const notifier = await network.createAgent({ agentCard: card('notifier') });
+    notifier.onIntent('notify.email', async (task) => {
+      notified.push(String(task.text));
+      return { success: true };
+    });
+    outage = network.inject({ to: 'did:somnia:notifier', status: 503 });
+  });
+
+  afterEach(() => network.shutdown());
+
+  it('stores failed messages and redelivers them under the same id', async () => {
+    const redelivered: OutboxEntry[] = [];
+    workflow.on(AgentEvent.MESSAGE_REDELIVERED, ({ entry }) => redelivered.push(entry));
+
+    await expect(notify('Order shipped')).rejects.toThrow(NetworkError);
+    await expect(notify('Not kept', { outbox: false })).rejects.toThrow(NetworkError);
+    const outbox = workflow.getOutbox()!;
+    const [stored] = await outbox.list();
+
+    expect(await outbox.list()).toHaveLength(1);
+    expect(stored).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(stored.errors[0].message).toContain('503');
+
+    outage();
+    await outbox.redeliver();
+
+    expect(notified).toEqual(['Order shipped']);
+    expect(redelivered.map((entry) => entry.id)).toEqual([stored.id]);
+    expect(network.captured({ intent: 'notify.email' }).at(-1)?.message.id).toBe(stored.id);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  it('dead-letters messages out of attempts until they are replayed or purged', async () => {
+    const dead: OutboxEntry[] = [];
+    workflow.on(AgentEvent.MESSAGE_DEAD_LETTERED, (entry) => dead.push(entry));
+    const outbox = workflow.getOutbox()!;
+
+    await expect(notify('Invoice due')).rejects.toThrow();
+    await outbox.redeliver();
+    await expect(notify('Payment late')).rejects.toThrow();
+
+    expect(dead.map((entry) => entry.message.task)).toEqual([{ text: 'Invoice due' }]);
+    expect(await outbox.list({ status: 'dead' })).toHaveLength(1);
+    // A failed replay starts a fresh attempt budget, so the entry is pending again
+    expect(await outbox.replayAll()).toEqual({ delivered: 0, failed: 1 });
+    expect(await outbox.get(dead[0].id)).toMatchObject({ status: 'pending', attempts: 1 });
+
+    outage();
+    expect(await outbox.replay(dead[0].id)).toBe(true);
+    expect(await outbox.purge({ intent: 'notify.email' })).toBe(1);
+    expect(notified).toEqual(['Invoice due']);
+    expect(await outbox.list()).toEqual([]);
+  });
+});
+
+describe('FileOutboxStore', () => {
+  it('keeps undelivered messages across restarts', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'uacp-outbox-'));
+    const path = join(dir, 'outbox.json');
+    const message = new A2AProtocol('did:somnia:workflow').createMessage({
+      recipient: 'did:somnia:notifier',
+      intent: 'notify.email',
+      task: {},
+    });
+
+    try {
+      await new Outbox({ store: new FileOutboxStore(path) }).add(
+        message,
+        new NetworkError('Connection refused')
+      );
+      const [entry] = await new Outbox({ store: new FileOutboxStore(path) }).list();
+
+      expect(entry).toMatchObject({ id: message.id, status: 'pending', attempts: 1 });
+      expect(entry.errors).toEqual([
+        expect.objectContaining({ code: 'NETWORK_ERROR', message: 'Connection refused' }),
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AgentEvent,
+  IntentResponse,
+  LocalFacilitator,
+  PaymentRequiredError,
+  SpendingLimitError,
+  SpendingPolicy,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('automatic payments', () => {
+  const asset = Wallet.createRandom().address;
+  const payTo = Wallet.createRandom().address;
+  let payer: Wallet;
+  let agents: HttpAgents;
+  let facilitator: LocalFacilitator;
+  let server: UACPAgent;
+  let charge: IntentResponse['chargeAmount'];
+  let calls: number;
+  let completed: number;
+
+  const createClient = (spendingPolicy?: SpendingPolicy) =>
+    agents.create('client', {
+      paymentClient: new UACPPaymentClient({ wallet: payer }),
+      spendingPolicy,
+    });
+
+  const render = (client: UACPAgent) =>
+    client.sendMessage({ recipient: 'did:somnia:server', intent: 'render', task: {} });
+
+  beforeEach(async () => {
+    payer = new Wallet(Wallet.createRandom().privateKey);
+    agents = new HttpAgents();
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [payer.address]: { [asset]: '5000' } },
+    });
+    charge = undefined;
+    calls = 0;
+    completed = 0;
+
+    server = await agents.create('server', {
+      paymentServer: new UACPPaymentServer({ facilitator }),
+    });
+    server.on(AgentEvent.PAYMENT_COMPLETED, () => completed++);
+    server.onIntent(
+      'render',
+      async () => {
+        calls++;
+        return { success: true, data: { frame: calls }, chargeAmount: charge };
+      },
+      { pricing: { amount: '1000', asset, payTo, scheme: 'range' } }
+    );
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('pays the 402 challenge, resends the message and records the payment', async () => {
+    charge = '300';
+    const client = await createClient();
+
+    const response = await render(client);
+
+    expect(response).toMatchObject({ success: true, data: { frame: 1 } });
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('4700');
+    expect(await facilitator.getBalance(payTo, asset)).toBe('300');
+    expect(client.getRouter().getPaymentLedger().query()).toMatchObject([
+      { status: 'accepted', intent: 'render', recipient: 'did:somnia:server', amount: '1000' },
+    ]);
+  });
+
+  it('leaves the authorization unsettled when the handler charges nothing', async () => {
+    charge = '0';
+    const client = await createClient();
+
+    expect((await render(client)).success).toBe(true);
+    expect(completed).toBe(0);
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('5000');
+  });
+
+  it('does not pay beyond the spending policy', async () => {
+    const client = await createClient({ maxPerCall: '500' });
+
+    await expect(render(client)).rejects.toThrow(SpendingLimitError);
+    expect(calls).toBe(0);
+    expect(client.getRouter().getPaymentLedger().query()).toEqual([]);
+  });
+
+  it('marks payments the recipient refuses as rejected', async () => {
+    facilitator.reset();
+    const client = await createClient();
+
+    await expect(render(client)).rejects.toThrow(PaymentRequiredError);
+    expect(calls).toBe(0);
+    expect(client.getRouter().getPaymentLedger().query()).toMatchObject([{ status: 'rejected' }]);
+  });
+});
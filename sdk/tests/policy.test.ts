@@ -0,0 +1,139 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AResponse,
+  AgentEvent,
+  LocalFacilitator,
+  PolicyAuditEntry,
+  PolicyConfig,
+  TestNetwork,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+} from '../src/index.js';
+import { card, collect } from './helpers.js';
+
+describe('access policy', () => {
+  const payer = new Wallet(Wallet.createRandom().privateKey);
+  const asset = Wallet.createRandom().address;
+  let network: TestNetwork;
+  let facilitator: LocalFacilitator;
+  let client: UACPAgent;
+
+  const createServer = async (policy: PolicyConfig) => {
+    const server = await network.createAgent({
+      agentCard: card('server'),
+      paymentServer: new UACPPaymentServer({ facilitator }),
+      policy,
+    });
+    server.onIntent('echo', async (task) => ({ success: true, data: task }));
+    server.onIntent('render', async () => ({ success: true }), {
+      pricing: { amount: '1000', asset, payTo: Wallet.createRandom().address, scheme: 'range' },
+    });
+    return server;
+  };
+
+  const expectDenied = (response: A2AResponse) => {
+    expect(response.status).toBe(403);
+    expect(response.error?.code).toBe('FORBIDDEN');
+  };
+
+  const send = (intent: string) =>
+    client.sendMessage({ recipient: 'did:somnia:server', intent, task: {} }, { retries: 0 });
+
+  beforeEach(async () => {
+    network = new TestNetwork();
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [payer.address]: { [asset]: '10000' } },
+    });
+    client = await network.createAgent({
+      agentCard: card('client'),
+      paymentClient: new UACPPaymentClient({ wallet: payer }),
+    });
+  });
+
+  afterEach(() => network.shutdown());
+
+  it('refuses senders the rules deny and audits them', async () => {
+    const server = await createServer({
+      rules: [{ effect: 'deny', senders: ['did:somnia:client'], description: 'Blocked' }],
+    });
+    const denials: PolicyAuditEntry[] = [];
+    server.on(AgentEvent.ACCESS_DENIED, (entry) => denials.push(entry));
+
+    expectDenied(await send('echo'));
+
+    expect(denials).toMatchObject([{ sender: 'did:somnia:client', rule: 0 }]);
+    expect(await server.getPolicy()?.audit.list()).toEqual(denials);
+  });
+
+  it('checks the policy before asking for payment', async () => {
+    await createServer({ rules: [{ effect: 'deny', priced: true }] });
+
+    expectDenied(await send('render'));
+    expect((await send('echo')).success).toBe(true);
+
+    // Refused outright, without a 402 round trip
+    network.expectSent({ intent: 'render' }, 1);
+    expect(await facilitator.getBalance(payer.address, asset)).toBe('10000');
+  });
+
+  it('applies the first matching rule, then the default effect', async () => {
+    const server = await createServer({
+      defaultEffect: 'deny',
+      rules: [{ effect: 'allow', intents: ['echo'] }],
+    });
+
+    expect((await send('echo')).success).toBe(true);
+    expectDenied(await send('render'));
+
+    server.getPolicy()?.setPolicy({ defaultEffect: 'allow' });
+    expect((await send('render')).success).toBe(true);
+  });
+
+  it('covers topic subscriptions', async () => {
+    const server = await createServer({
+      rules: [{ effect: 'deny', intents: ['uacp.subscribe'] }],
+    });
+    server.defineTopic('prices');
+    await server.register();
+
+    await expect(
+      client.subscribe('did:somnia:server', 'prices', async () => {})
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await server.getSubscribers('prices')).toEqual([]);
+  });
+
+  it('checks streams and events from subscribed topics', async () => {
+    const trader = await network.createAgent({
+      agentCard: card('trader'),
+      walletPrivateKey: Wallet.createRandom().privateKey,
+      policy: { rules: [{ effect: 'deny', senders: ['did:somnia:oracle'] }] },
+    });
+    trader.onIntentStream('ticks', async function* () {
+      yield 1;
+    });
+    const oracle = await network.createAgent({
+      agentCard: card('oracle'),
+      walletPrivateKey: Wallet.createRandom().privateKey,
+    });
+    oracle.defineTopic('prices');
+    await oracle.register();
+    const prices: unknown[] = [];
+    await trader.subscribe('did:somnia:oracle', 'prices', (data) => void prices.push(data));
+
+    const result = await oracle.publish('prices', { price: 3120 });
+
+    expect(result).toMatchObject({ delivered: 0, rejected: 1 });
+    expect(prices).toEqual([]);
+    await expect(
+      collect(oracle.streamMessage({ recipient: 'did:somnia:trader', intent: 'ticks', task: {} }))
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(
+      await collect(
+        client.streamMessage({ recipient: 'did:somnia:trader', intent: 'ticks', task: {} })
+      )
+    ).toEqual([1]);
+  });
+});
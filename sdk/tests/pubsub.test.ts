@@ -0,0 +1,92 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { A2AProtocol, MessageType, TestNetwork, UACPAgent } from '../src/index.js';
+import { card } from './helpers.js';
+
+describe('publish-subscribe', () => {
+  let network: TestNetwork;
+  let oracle: UACPAgent;
+  let trader: UACPAgent;
+  let prices: number[];
+
+  const join = (name: string, signed = true) =>
+    network.createAgent({
+      agentCard: card(name),
+      ...(signed && { walletPrivateKey: Wallet.createRandom().privateKey }),
+      pubsub: { retryDelay: 10 },
+    });
+
+  beforeEach(async () => {
+    network = new TestNetwork();
+    prices = [];
+    oracle = await join('oracle');
+    oracle.defineTopic('price.updated', {
+      schema: z.object({ symbol: z.string(), price: z.number() }),
+    });
+    await oracle.register();
+    trader = await join('trader');
+  });
+
+  afterEach(() => network.shutdown());
+
+  it('delivers published events to signed subscribers', async () => {
+    await trader.subscribe('did:somnia:oracle', 'price.updated', (data: { price: number }) => {
+      prices.push(data.price);
+    });
+
+    const result = await oracle.publish('price.updated', { symbol: 'ETH', price: 3120 });
+
+    expect(result).toMatchObject({ subscribers: 1, delivered: 1 });
+    expect(prices).toEqual([3120]);
+    expect(await oracle.getSubscribers('price.updated')).toEqual(['did:somnia:trader']);
+    await expect(oracle.publish('price.updated', { symbol: 'ETH' })).rejects.toThrow();
+  });
+
+  it('refuses subscription requests without a verified signature', async () => {
+    const spoofer = await join('spoofer', false);
+
+    await expect(
+      spoofer.subscribe('did:somnia:oracle', 'price.updated', () => {})
+    ).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(await oracle.getSubscribers('price.updated')).toEqual([]);
+  });
+
+  it('refuses topic events forged in the publisher name', async () => {
+    const spoofer = await join('spoofer', false);
+    await trader.subscribe('did:somnia:oracle', 'price.updated', (data: { price: number }) => {
+      prices.push(data.price);
+    });
+    const forged = new A2AProtocol('did:somnia:oracle').createMessage({
+      recipient: 'did:somnia:trader',
+      intent: 'price.updated',
+      task: { symbol: 'ETH', price: 1 },
+      type: MessageType.EVENT,
+    });
+
+    const response = await spoofer.getRouter().sendMessage(forged);
+
+    expect(response).toMatchObject({ status: 401, error: { code: 'INVALID_SIGNATURE' } });
+    expect(prices).toEqual([]);
+  });
+
+  it('retries events whose handler throws until it succeeds', async () => {
+    let attempts = 0;
+    await trader.subscribe('did:somnia:oracle', 'price.updated', (data: { price: number }) => {
+      if (++attempts === 1) throw new Error('Order book locked');
+      prices.push(data.price);
+    });
+
+    const result = await oracle.publish('price.updated', { symbol: 'ETH', price: 3120 });
+
+    expect(result).toMatchObject({ delivered: 0, retrying: 1 });
+    await vi.waitFor(() => expect(prices).toEqual([3120]));
+    // The same message id ran the handler again, as the failure was not cached
+    const [failed, retried] = network.captured({ intent: 'price.updated' });
+    expect(failed.error?.message).toContain('Order book locked');
+    expect(retried).toMatchObject({
+      message: { id: failed.message.id },
+      response: { status: 200 },
+    });
+  });
+});
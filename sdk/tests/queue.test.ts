@@ -0,0 +1,142 @@
+import { AxiosError } from 'axios';
+import { randomUUID } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AProtocol,
+  A2AResponse,
+  AgentBusyError,
+  AgentEvent,
+  AgentStatus,
+  InboundQueue,
+  MessagePriority,
+  UACPAgent,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('InboundQueue', () => {
+  it('hands out free slots highest priority first', async () => {
+    const queue = new InboundQueue({ maxConcurrency: 1 });
+    const order: string[] = [];
+    const release = await queue.acquire('render');
+
+    const waiting = [
+      ['low', MessagePriority.LOW],
+      ['high', MessagePriority.HIGH],
+      ['medium', MessagePriority.MEDIUM],
+      ['critical', MessagePriority.CRITICAL],
+    ].map(([name, priority]) =>
+      queue.acquire('render', priority as MessagePriority).then((next) => {
+        order.push(name);
+        next();
+      })
+    );
+    expect(queue.stats()).toMatchObject({ active: 1, queued: 4 });
+    release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual(['critical', 'high', 'medium', 'low']);
+    expect(queue.stats()).toMatchObject({ active: 0, queued: 0, intents: {} });
+  });
+
+  it('refuses messages over the intent and agent limits', async () => {
+    const queue = new InboundQueue({ maxConcurrency: 1, maxQueued: 1 });
+    await queue.acquire('render');
+    const displaced = queue.acquire('render', MessagePriority.LOW);
+
+    await expect(queue.acquire('quote', MessagePriority.LOW)).rejects.toMatchObject({
+      code: 'AGENT_BUSY',
+    });
+    const urgent = queue.acquire('quote', MessagePriority.HIGH);
+    await expect(displaced).rejects.toThrow(AgentBusyError);
+    await expect(
+      queue.acquire('quote', MessagePriority.HIGH, { concurrency: 1, maxQueued: 0 })
+    ).rejects.toMatchObject({ code: 'INTENT_BUSY', details: { intent: 'quote' } });
+
+    queue.close();
+    await urgent.catch(() => undefined);
+  });
+});
+
+describe('inbound queue of an agent', () => {
+  const protocol = new A2AProtocol('did:somnia:client');
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let statuses: AgentStatus[];
+  let release: () => void;
+  let gate: Promise<void>;
+
+  // Busy agents answer 503, which reaches the caller as a failed HTTP request
+  const send = (intent: string, id?: string) => {
+    const message = protocol.createMessage({ recipient: 'did:somnia:server', intent, task: {} });
+    return client
+      .getRouter()
+      .sendMessage(id ? { ...message, id } : message, { retries: 0 })
+      .catch((error: AxiosError<A2AResponse>) => error.response?.data ?? Promise.reject(error));
+  };
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    statuses = [];
+    gate = new Promise((resolve) => {
+      release = resolve;
+    });
+    server = await agents.create('server', { queue: { maxConcurrency: 1, maxQueued: 1 } });
+    client = await agents.create('client');
+    server.on(AgentEvent.STATUS_CHANGED, ({ status }) => statuses.push(status));
+    server.onIntent('render', async () => {
+      await gate;
+      return { success: true };
+    });
+    server.onIntent('quote', async () => ({ success: true, data: { price: 3120 } }), {
+      concurrency: 1,
+      maxQueued: 0,
+    });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('marks the agent busy while saturated and refuses overflow without caching it', async () => {
+    const running = send('render');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const quote = await send('quote').catch((error: unknown) => error);
+    const queued = send('render');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const retriedId = randomUUID();
+    const refused = await send('render', retriedId);
+
+    expect(server.getAgentCard().status).toBe(AgentStatus.BUSY);
+    expect(server.getQueueStats()).toMatchObject({ active: 1, queued: 1 });
+    // Busy intents answer 429, which the router throws once out of retries
+    expect(quote).toBeInstanceOf(AgentBusyError);
+    expect(quote).toMatchObject({ code: 'INTENT_BUSY' });
+    expect(refused).toMatchObject({ status: 503, error: { code: 'AGENT_BUSY' } });
+    expect(refused.error?.details).toHaveProperty('retryAfter');
+
+    release();
+    await Promise.all([running, queued]);
+    expect((await send('quote')).data).toEqual({ price: 3120 });
+    expect((await send('render', retriedId)).success).toBe(true);
+    expect(statuses).toEqual(expect.arrayContaining([AgentStatus.BUSY, AgentStatus.ONLINE]));
+    expect(server.getAgentCard().status).toBe(AgentStatus.ONLINE);
+  });
+
+  it('keeps the slot of a stream until it ends', async () => {
+    server.onIntentStream('ticks', async function* () {
+      yield 1;
+      await gate;
+    });
+    const stream = client.streamMessage({
+      recipient: 'did:somnia:server',
+      intent: 'ticks',
+      task: {},
+    });
+    await stream.next();
+
+    expect(server.getQueueStats().active).toBe(1);
+
+    release();
+    await stream.next();
+    expect(server.getQueueStats().active).toBe(0);
+  });
+});
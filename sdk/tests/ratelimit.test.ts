@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RateLimitedError, RateLimiter, UACPAgent } from '../src/index.js';
+import { HttpAgents, collect } from './helpers.js';
+
+describe('RateLimiter', () => {
+  const minute = 60_000;
+
+  it('takes a token from every bucket or from none', async () => {
+    const limiter = new RateLimiter({
+      sender: { limit: 3, interval: minute },
+      global: { limit: 10, interval: minute },
+    });
+    const intentLimit = { limit: 1, interval: minute };
+
+    expect(await limiter.check('alice', 'search', { intentLimit })).toMatchObject({
+      allowed: true,
+      scope: 'intent',
+      remaining: 0,
+    });
+    const refused = await limiter.check('alice', 'search', { intentLimit });
+
+    expect(refused).toMatchObject({ allowed: false, scope: 'intent' });
+    expect(refused?.retryAfter).toBeGreaterThanOrEqual(1);
+    // The refusal left the sender and global buckets untouched
+    expect(await limiter.check('alice', 'quote')).toMatchObject({ scope: 'sender', remaining: 1 });
+  });
+
+  it('scales sender and intent quotas for subscribers only', async () => {
+    const limiter = new RateLimiter({
+      sender: { limit: 1, interval: minute },
+      global: { limit: 100, interval: minute },
+      subscriberMultiplier: 3,
+    });
+    const intentLimit = { limit: 2, interval: minute };
+
+    const subscriber = await limiter.check('carol', 'search', { intentLimit, subscriber: true });
+
+    expect(subscriber).toMatchObject({ scope: 'sender', limit: 3, remaining: 2 });
+    expect(await limiter.check('dave', 'search', { intentLimit })).toMatchObject({
+      scope: 'sender',
+      limit: 1,
+      remaining: 0,
+    });
+    expect(await limiter.check('dave', 'search', { intentLimit })).toMatchObject({
+      allowed: false,
+    });
+    expect(await new RateLimiter({}).check('dave', 'search')).toBeUndefined();
+    expect(new RateLimiter({ subscriberMultiplier: 1 }).hasSubscriberTier).toBe(false);
+  });
+});
+
+describe('rate limited agent', () => {
+  let agents: HttpAgents;
+  let client: UACPAgent;
+
+  const search = () =>
+    client.sendMessage(
+      { recipient: 'did:somnia:server', intent: 'search', task: {} },
+      { retries: 0 }
+    );
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    client = await agents.create('client');
+    const server = await agents.create('server', {
+      rateLimit: { sender: { limit: 2, interval: 60_000 } },
+    });
+    server.onIntent('search', async () => ({ success: true }));
+    server.onIntentStream('feed', async function* () {
+      yield 'item';
+    });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('reports the quota left and refuses messages over it', async () => {
+    expect((await search()).rateLimit).toMatchObject({ limit: 2, remaining: 1 });
+    expect((await search()).rateLimit).toMatchObject({ remaining: 0 });
+
+    const refused = await search().catch((error: unknown) => error);
+
+    expect(refused).toBeInstanceOf(RateLimitedError);
+    expect(refused).toMatchObject({ code: 'RATE_LIMITED', details: { scope: 'sender' } });
+    expect((refused as RateLimitedError).retryAfter).toBeGreaterThanOrEqual(1);
+  });
+
+  it('counts streams against the same quota', async () => {
+    expect(
+      await collect(
+        client.streamMessage({ recipient: 'did:somnia:server', intent: 'feed', task: {} })
+      )
+    ).toEqual(['item']);
+    await search();
+
+    await expect(
+      collect(client.streamMessage({ recipient: 'did:somnia:server', intent: 'feed', task: {} }))
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+  });
+});
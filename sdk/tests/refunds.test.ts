@@ -0,0 +1,108 @@
+import { AxiosError } from 'axios';
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AResponse,
+  AgentEvent,
+  IntentPricing,
+  IntentResponse,
+  LocalFacilitator,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('upfront settlement', () => {
+  const asset = Wallet.createRandom().address;
+  const payTo = Wallet.createRandom().address;
+  let payer: Wallet;
+  let agents: HttpAgents;
+  let facilitator: LocalFacilitator;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let refunded: Array<{ amount: string; reason: string }>;
+
+  // Range authorizations are signed locally; without chargeAmount they settle in full
+  const serve = (result: () => IntentResponse, pricing: Partial<IntentPricing> = {}) =>
+    server.onIntent('render', async () => result(), {
+      pricing: { amount: '1000', asset, payTo, scheme: 'range', settlement: 'upfront', ...pricing },
+    });
+
+  // Failed handlers answer 500, which reaches the caller as a failed HTTP request
+  const render = () =>
+    client
+      .sendMessage({ recipient: 'did:somnia:server', intent: 'render', task: {} }, { retries: 0 })
+      .catch((error: AxiosError<A2AResponse>) => error.response!.data);
+
+  const balance = (address: string) => facilitator.getBalance(address, asset);
+
+  beforeEach(async () => {
+    payer = new Wallet(Wallet.createRandom().privateKey);
+    agents = new HttpAgents();
+    facilitator = new LocalFacilitator({
+      enforceBalances: true,
+      balances: { [payer.address]: { [asset]: '5000' } },
+    });
+    refunded = [];
+    server = await agents.create('server', {
+      paymentServer: new UACPPaymentServer({ facilitator }),
+    });
+    server.on(AgentEvent.PAYMENT_REFUNDED, ({ amount, reason }) =>
+      refunded.push({ amount, reason })
+    );
+    client = await agents.create('client', {
+      paymentClient: new UACPPaymentClient({ wallet: payer }),
+    });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('refunds the payer when the handler fails after settling', async () => {
+    serve(() => ({ success: false, error: 'Renderer offline' }));
+
+    const response = await render();
+
+    expect(response.error).toMatchObject({
+      code: 'HANDLER_ERROR',
+      details: { refund: { success: true, amount: '1000' } },
+    });
+    expect(refunded).toEqual([{ amount: '1000', reason: 'Renderer offline' }]);
+    expect(await balance(payer.address)).toBe('5000');
+    expect(
+      server.getPaymentLedger().query({ direction: 'inbound', status: 'refunded' })
+    ).toHaveLength(1);
+  });
+
+  it('refunds a handler that throws', async () => {
+    serve(() => {
+      throw new Error('Out of memory');
+    });
+
+    const response = await render();
+
+    expect(response.error?.details).toMatchObject({ refund: { success: true } });
+    expect(await balance(payTo)).toBe('0');
+  });
+
+  it('refunds the unused part of an upfront range payment', async () => {
+    serve(() => ({ success: true, chargeAmount: '300' }));
+
+    const response = await render();
+
+    expect(response.success).toBe(true);
+    expect(refunded).toEqual([{ amount: '700', reason: 'Unused range authorization' }]);
+    expect(await balance(payer.address)).toBe('4700');
+    expect(await balance(payTo)).toBe('300');
+  });
+
+  it('never settles on-success payments whose handler fails', async () => {
+    serve(() => ({ success: false, error: 'Renderer offline' }), { settlement: 'on-success' });
+
+    const response = await render();
+
+    expect(response.error?.details).toBeUndefined();
+    expect(refunded).toEqual([]);
+    expect(await balance(payer.address)).toBe('5000');
+  });
+});
@@ -0,0 +1,105 @@
+import { AxiosError } from 'axios';
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { A2AProtocol, A2AResponse, AgentEvent, UACPAgent } from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('replay protection', () => {
+  const wallet = Wallet.createRandom();
+  const protocol = new A2AProtocol('did:somnia:client');
+  let agents: HttpAgents;
+  let client: UACPAgent;
+  let server: UACPAgent;
+  let calls: number;
+
+  const createMessage = (intent = 'count') =>
+    protocol.createMessage({ recipient: 'did:somnia:server', intent, task: {} });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    calls = 0;
+    client = await agents.create('client', { walletPrivateKey: wallet.privateKey });
+    server = await agents.create('server');
+    server.onIntent('count', async () => ({ success: true, data: { calls: ++calls } }));
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('runs the handler once per message id and replays its response', async () => {
+    const duplicates: string[] = [];
+    server.on(AgentEvent.MESSAGE_DUPLICATE, (message) => duplicates.push(message.id));
+    const message = createMessage();
+
+    const first = await client.getRouter().sendMessage(message);
+    const second = await client.getRouter().sendMessage(message);
+
+    expect(calls).toBe(1);
+    expect(second.data).toEqual(first.data);
+    expect(duplicates).toEqual([message.id]);
+  });
+
+  it('runs concurrent copies of a message once', async () => {
+    const message = createMessage();
+
+    const responses = await Promise.all([
+      client.getRouter().sendMessage(message),
+      client.getRouter().sendMessage(message),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(responses[0].data).toEqual(responses[1].data);
+  });
+
+  it('replays failures too, since the handler may have acted', async () => {
+    server.onIntent('fail', async () => ({ success: false, error: `attempt ${++calls}` }));
+    server.onIntent('throw', async () => {
+      calls++;
+      throw new Error('Handler crashed');
+    });
+
+    for (const [intent, code] of [
+      ['fail', 'HANDLER_ERROR'],
+      ['throw', 'INTERNAL_ERROR'],
+    ]) {
+      const message = createMessage(intent);
+      // Server errors reach the caller as failed HTTP requests
+      const send = () =>
+        client
+          .getRouter()
+          .sendMessage(message, { retries: 0 })
+          .catch((error: AxiosError<A2AResponse>) => error.response?.data);
+
+      const first = await send();
+      expect(first).toMatchObject({ status: 500, error: { code } });
+      expect((await send())?.error).toEqual(first?.error);
+    }
+    expect(calls).toBe(2);
+  });
+
+  it('keeps responses apart per verified signer', async () => {
+    const signed = new A2AProtocol('did:somnia:client', { wallet }).createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'count',
+      task: {},
+    });
+
+    // An unsigned copy sent first claims the id for the bare DID only
+    await client.getRouter().sendMessage({ ...signed, signature: undefined });
+    const response = await client.getRouter().sendMessage(signed);
+
+    expect(calls).toBe(2);
+    expect(response.data).toEqual({ calls: 2 });
+  });
+
+  it('rejects messages outside the replay window', async () => {
+    const stale = { ...createMessage(), timestamp: Date.now() - 60 * 60 * 1000 };
+    const future = { ...createMessage(), timestamp: Date.now() + 60 * 60 * 1000 };
+
+    for (const message of [stale, future]) {
+      const response = await client.getRouter().sendMessage(message);
+      expect(response.status).toBe(400);
+      expect(response.error?.code).toBe('CLOCK_SKEW');
+    }
+    expect(calls).toBe(0);
+  });
+});
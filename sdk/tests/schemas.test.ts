@@ -0,0 +1,104 @@
+import axios, { AxiosError } from 'axios';
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { A2AResponse, AgentCard, UACPAgent } from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('intent schemas', () => {
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let tasks: unknown[];
+
+  const calculate = (task: Record<string, unknown>) =>
+    client.sendMessage({ recipient: 'did:somnia:server', intent: 'calculate', task });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    tasks = [];
+    server = await agents.create('server');
+    client = await agents.create('client');
+    server.onIntent(
+      'calculate',
+      async (task) => {
+        tasks.push(task);
+        return { success: true, data: { result: task.a * task.scale } };
+      },
+      {
+        description: 'Scale a number',
+        inputSchema: z.object({ a: z.number(), scale: z.number().default(2) }),
+        outputSchema: z.object({ result: z.number() }),
+      }
+    );
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('publishes JSON Schemas for described intents on the card', async () => {
+    server.onIntent('ping', async () => ({ success: true }));
+
+    const { data: card } = await axios.get<AgentCard>(`${server.getAgentCard().endpoint}/card`);
+
+    expect(Object.keys(card.intents!)).toEqual(['calculate']);
+    expect(card.intents!.calculate).toMatchObject({
+      description: 'Scale a number',
+      inputSchema: {
+        type: 'object',
+        properties: { a: { type: 'number' }, scale: { type: 'number', default: 2 } },
+        required: ['a'],
+      },
+      outputSchema: { properties: { result: { type: 'number' } } },
+    });
+  });
+
+  it('hands the parsed task to the handler', async () => {
+    const response = await calculate({ a: 21 });
+
+    expect(response.data).toEqual({ result: 42 });
+    expect(tasks).toEqual([{ a: 21, scale: 2 }]);
+  });
+
+  it('rejects invalid tasks with the failing fields, before asking for payment', async () => {
+    const asset = Wallet.createRandom().address;
+    server.onIntent('quote', async () => ({ success: true }), {
+      inputSchema: z.object({ symbol: z.string() }),
+      pricing: { amount: '1000', asset, payTo: asset, scheme: 'range' },
+    });
+
+    const invalid = await calculate({ a: 'one' });
+    const unpaid = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'quote',
+      task: { symbol: 1 },
+    });
+
+    for (const response of [invalid, unpaid]) {
+      expect(response).toMatchObject({
+        status: 400,
+        error: { code: 'MESSAGE_VALIDATION_ERROR' },
+      });
+    }
+    expect(invalid.error?.details).toEqual({ errors: ['a: Expected number, received string'] });
+    expect(unpaid.error?.details).toEqual({ errors: ['symbol: Expected string, received number'] });
+    expect(tasks).toEqual([]);
+  });
+
+  it('reports handler data that does not match the output schema', async () => {
+    server.onIntent('calculate', async () => ({ success: true, data: { result: 'many' } }), {
+      outputSchema: z.object({ result: z.number() }),
+    });
+
+    // Server errors reach the caller as failed HTTP requests
+    const response = await client
+      .sendMessage(
+        { recipient: 'did:somnia:server', intent: 'calculate', task: {} },
+        { retries: 0 }
+      )
+      .catch((error: AxiosError<A2AResponse>) => error.response!.data);
+
+    expect(response.success).toBe(false);
+    expect(response.data).toBeUndefined();
+    expect(response.error?.code).toBe('OUTPUT_VALIDATION_ERROR');
+  });
+});
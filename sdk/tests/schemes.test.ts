@@ -0,0 +1,188 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AgentEvent,
+  AgentInitializationError,
+  IntentPricing,
+  LocalFacilitator,
+  PaymentRequirements,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+  VerifiedPayment,
+  signPaymentAuthorization,
+  verifyPaymentAuthorization,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+const asset = Wallet.createRandom().address;
+const payTo = Wallet.createRandom().address;
+
+describe('payment authorizations', () => {
+  const payer = Wallet.createRandom();
+  const requirements: PaymentRequirements = {
+    scheme: 'range',
+    network: 'somnia',
+    asset,
+    payTo,
+    minAmountRequired: '100',
+    maxAmountRequired: '1000',
+    resource: 'render',
+    description: 'Render a frame',
+    mimeType: 'application/json',
+    maxTimeoutSeconds: 60,
+  };
+
+  it('verifies offline what the payer signed', async () => {
+    const payload = await signPaymentAuthorization(payer, requirements);
+
+    expect(verifyPaymentAuthorization(payload, requirements)).toEqual({
+      isValid: true,
+      payer: payer.address,
+    });
+    expect(
+      verifyPaymentAuthorization(payload, { ...requirements, payTo: asset }).invalidReason
+    ).toMatch(/recipient/);
+    expect(
+      verifyPaymentAuthorization(payload, requirements, payload.payload.authorization.validBefore)
+        .invalidReason
+    ).toMatch(/validity window/);
+
+    const forged = { ...payload.payload.authorization, from: payTo };
+    expect(
+      verifyPaymentAuthorization(
+        { ...payload, payload: { ...payload.payload, authorization: forged } },
+        requirements
+      ).invalidReason
+    ).toMatch(/does not match payer/);
+  });
+
+  it('applies the amount rules of each scheme', async () => {
+    const inRange = await signPaymentAuthorization(payer, requirements, '500');
+    const belowRange = await signPaymentAuthorization(payer, requirements, '50');
+    const exact = { ...requirements, scheme: 'exact' as const };
+
+    expect(verifyPaymentAuthorization(inRange, requirements).isValid).toBe(true);
+    expect(verifyPaymentAuthorization(belowRange, requirements).invalidReason).toMatch(
+      /between 100 and 1000/
+    );
+    expect(
+      verifyPaymentAuthorization(await signPaymentAuthorization(payer, exact, '500'), exact)
+        .invalidReason
+    ).toMatch(/must equal 1000/);
+  });
+
+  it('settles range usage up to the authorized value', async () => {
+    const facilitator = new LocalFacilitator();
+    const payload = await signPaymentAuthorization(payer, requirements);
+
+    expect(await facilitator.settle(payload, requirements, { amount: '400' })).toMatchObject({
+      success: true,
+      payer: payer.address,
+      amount: '400',
+    });
+    expect(await facilitator.settle(payload, requirements, { amount: '1001' })).toMatchObject({
+      success: false,
+    });
+  });
+});
+
+describe('range and subscription pricing', () => {
+  const pricing = (overrides: Partial<IntentPricing>): IntentPricing => ({
+    amount: '1000',
+    asset,
+    payTo,
+    ...overrides,
+  });
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let payments: VerifiedPayment[];
+  let settled: string[];
+
+  const createClient = (name: string, signed: boolean) =>
+    agents.create(name, {
+      walletPrivateKey: signed ? Wallet.createRandom().privateKey : undefined,
+      paymentClient: new UACPPaymentClient({
+        wallet: new Wallet(Wallet.createRandom().privateKey),
+      }),
+    });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    payments = [];
+    settled = [];
+    server = await agents.create('server', {
+      paymentServer: new UACPPaymentServer({ facilitator: new LocalFacilitator() }),
+    });
+    server.on(AgentEvent.PAYMENT_COMPLETED, ({ amount }) => settled.push(amount));
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('settles only the charge a range handler reports', async () => {
+    const client = await createClient('client', false);
+    server.onIntent('render', async () => ({ success: true, chargeAmount: '250' }), {
+      pricing: pricing({ scheme: 'range', minAmount: '100' }),
+    });
+
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'render',
+      task: {},
+    });
+
+    expect(response.success).toBe(true);
+    expect(settled).toEqual(['250']);
+  });
+
+  it('lets signed subscribers call without paying again until the period ends', async () => {
+    server.onIntent(
+      'quote',
+      async (_task, context) => {
+        payments.push(context.payment!);
+        return { success: true };
+      },
+      { pricing: pricing({ scheme: 'subscription', period: 3600 }) }
+    );
+    const subscriber = await createClient('subscriber', true);
+
+    for (let i = 0; i < 3; i++) {
+      await subscriber.sendMessage({ recipient: 'did:somnia:server', intent: 'quote', task: {} });
+    }
+
+    expect(settled).toEqual(['1000']);
+    expect(payments).toHaveLength(3);
+    expect(payments[2]).toMatchObject({ scheme: 'subscription', amount: '1000' });
+    expect(payments[2].expiresAt).toBeGreaterThan(Date.now() + 3500 * 1000);
+  });
+
+  it('charges unsigned messages every call, since their sender could be spoofed', async () => {
+    server.onIntent('quote', async () => ({ success: true }), {
+      pricing: pricing({ scheme: 'subscription', period: 3600 }),
+    });
+    const client = await createClient('client', false);
+
+    await client.sendMessage({ recipient: 'did:somnia:server', intent: 'quote', task: {} });
+    await client.sendMessage({ recipient: 'did:somnia:server', intent: 'quote', task: {} });
+
+    expect(settled).toEqual(['1000', '1000']);
+  });
+
+  it('rejects subscription pricing without a period before registering anything', async () => {
+    server.onIntent('quote', async () => ({ success: true, data: 'free' }));
+
+    expect(() =>
+      server.onIntent('quote', async () => ({ success: true }), {
+        pricing: pricing({ scheme: 'subscription' }),
+      })
+    ).toThrow(AgentInitializationError);
+
+    const client = await createClient('client', false);
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'quote',
+      task: {},
+    });
+    expect(response.data).toBe('free');
+  });
+});
@@ -0,0 +1,95 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { A2AProtocol, UACPAgent, recoverMessageSigner, signA2AMessage } from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('message signing', () => {
+  const clientWallet = Wallet.createRandom();
+  const victimWallet = Wallet.createRandom();
+  let agents: HttpAgents;
+  let client: UACPAgent;
+  let signers: Array<string | undefined>;
+
+  const createServer = async (strict: boolean) => {
+    const server = await agents.create('server', { messageSigning: { strict } });
+    server.onIntent('whoami', async (_task, context) => {
+      signers.push(context.signer);
+      return { success: true };
+    });
+  };
+
+  // A message claiming to come from the victim, signed with the client's key
+  const spoofed = () =>
+    new A2AProtocol('did:somnia:victim', { wallet: clientWallet }).createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'whoami',
+      task: {},
+    });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    signers = [];
+    client = await agents.create('client', { walletPrivateKey: clientWallet.privateKey });
+    await agents.create('victim', { walletPrivateKey: victimWallet.privateKey });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('signs and verifies messages without a network', async () => {
+    const message = new A2AProtocol('did:somnia:client').createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'whoami',
+      task: { n: 1 },
+    });
+
+    for (const scheme of ['eip191', 'eip712'] as const) {
+      const signed = signA2AMessage(message, clientWallet, scheme);
+      expect(recoverMessageSigner(signed, scheme)).toBe(clientWallet.address);
+      const tampered = { ...signed, task: { n: 2 } };
+      expect(recoverMessageSigner(tampered, scheme)).not.toBe(clientWallet.address);
+    }
+  });
+
+  it('publishes the signer address and passes the verified signer to handlers', async () => {
+    await createServer(true);
+
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent: 'whoami',
+      task: {},
+    });
+
+    expect(response.success).toBe(true);
+    expect(client.getAgentCard().metadata?.signerAddress).toBe(clientWallet.address);
+    expect(signers).toEqual([clientWallet.address]);
+  });
+
+  it('rejects unsigned and spoofed messages when strict', async () => {
+    await createServer(true);
+    const unsigned = new A2AProtocol('did:somnia:client').createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'whoami',
+      task: {},
+    });
+
+    const responses = [
+      await client.getRouter().sendMessage(unsigned),
+      await client.getRouter().sendMessage(spoofed()),
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(401);
+      expect(response.error?.code).toBe('INVALID_SIGNATURE');
+    }
+    expect(signers).toEqual([]);
+  });
+
+  it('handles unverifiable signatures as unsigned when not strict', async () => {
+    await createServer(false);
+
+    const response = await client.getRouter().sendMessage(spoofed());
+
+    expect(response.success).toBe(true);
+    expect(signers).toEqual([undefined]);
+  });
+});
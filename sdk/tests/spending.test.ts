@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  PaymentLedger,
+  SpendingLimitError,
+  SpendingPolicy,
+  SpendingPolicyEnforcer,
+  SpendingRequest,
+} from '../src/index.js';
+
+describe('SpendingPolicyEnforcer', () => {
+  const asset = '0x00000000000000000000000000000000000000aa';
+  let ledger: PaymentLedger;
+
+  const request = (overrides: Partial<SpendingRequest> = {}): SpendingRequest => ({
+    recipient: 'did:somnia:seller',
+    amount: '400',
+    asset,
+    network: 'somnia',
+    ...overrides,
+  });
+
+  const pay = (recipient: string, amount: string) =>
+    ledger.record({
+      direction: 'outbound',
+      status: 'accepted',
+      messageId: 'message',
+      intent: 'render',
+      sender: 'did:somnia:buyer',
+      payer: '0x00000000000000000000000000000000000000bb',
+      payTo: '0x00000000000000000000000000000000000000cc',
+      recipient,
+      amount,
+      asset,
+      network: 'somnia',
+      scheme: 'exact',
+    });
+
+  const enforcer = (policy: SpendingPolicy) => new SpendingPolicyEnforcer(policy, ledger);
+
+  beforeEach(() => {
+    ledger = new PaymentLedger();
+  });
+
+  it('refuses payments over the per-call limit or in other assets and networks', () => {
+    expect(() => enforcer({ maxPerCall: '300' }).check(request())).toThrow(SpendingLimitError);
+    expect(() => enforcer({ allowedAssets: [asset.toUpperCase()] }).check(request())).not.toThrow();
+    expect(() => enforcer({ allowedAssets: ['0x01'] }).check(request())).toThrow(/Asset/);
+    expect(() => enforcer({ allowedNetworks: ['base'] }).check(request())).toThrow(/Network/);
+  });
+
+  it('counts recorded payments per recipient and per day', () => {
+    pay('did:somnia:seller', '500');
+    pay('did:somnia:other', '500');
+    const rejected = pay('did:somnia:seller', '500');
+    ledger.updateStatus(rejected.id, 'rejected');
+
+    const perRecipient = enforcer({ maxPerRecipient: '1000' });
+    expect(() => perRecipient.check(request())).not.toThrow();
+    expect(() => perRecipient.check(request({ amount: '600' }))).toThrow(/per-recipient/);
+
+    expect(() => enforcer({ maxPerDay: '1200' }).check(request({ amount: '300' }))).toThrow(
+      /daily limit/
+    );
+  });
+
+  it('holds reserved payments against the limits until released', () => {
+    const policy = enforcer({ maxPerRecipient: '1000' });
+
+    const release = policy.reserve(request({ amount: '700' }));
+    expect(() => policy.reserve(request())).toThrow(SpendingLimitError);
+
+    release();
+    expect(() => policy.reserve(request())).not.toThrow();
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { A2AProtocol, UACPAgent, UACPError } from '../src/index.js';
+import { HttpAgents, collect } from './helpers.js';
+
+describe('streaming intents', () => {
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let closed: boolean;
+
+  const ticker = (task: Record<string, unknown> = { symbol: 'ETH', ticks: 3 }) =>
+    client.streamMessage<{ price: number }>({
+      recipient: 'did:somnia:server',
+      intent: 'ticker',
+      task,
+    });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    closed = false;
+    server = await agents.create('server');
+    client = await agents.create('client');
+    server.onIntentStream(
+      'ticker',
+      async function* (task) {
+        try {
+          for (let tick = 0; tick < task.ticks; tick++) {
+            if (task.failAt === tick) throw new UACPError('Feed lost', 'FEED_ERROR');
+            yield { price: 100 + tick };
+          }
+        } finally {
+          closed = true;
+        }
+      },
+      {
+        inputSchema: z.object({
+          symbol: z.string(),
+          ticks: z.number(),
+          failAt: z.number().optional(),
+        }),
+      }
+    );
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('yields every chunk the handler produces and marks the intent on the card', async () => {
+    expect(await collect(ticker())).toEqual([{ price: 100 }, { price: 101 }, { price: 102 }]);
+    expect(server.getAgentCard().intents?.ticker).toMatchObject({ streaming: true });
+  });
+
+  it('throws the error event sent after the stream started', async () => {
+    const received: unknown[] = [];
+
+    const failure = (async () => {
+      for await (const chunk of ticker({ symbol: 'ETH', ticks: 3, failAt: 1 })) {
+        received.push(chunk);
+      }
+    })();
+
+    await expect(failure).rejects.toMatchObject({ code: 'FEED_ERROR', message: 'Feed lost' });
+    expect(received).toEqual([{ price: 100 }]);
+    expect(closed).toBe(true);
+  });
+
+  it('refuses invalid tasks and unknown intents before streaming', async () => {
+    await expect(collect(ticker({ symbol: 'ETH' }))).rejects.toMatchObject({
+      code: 'MESSAGE_VALIDATION_ERROR',
+    });
+    await expect(
+      collect(client.streamMessage({ recipient: 'did:somnia:server', intent: 'quotes', task: {} }))
+    ).rejects.toMatchObject({ code: 'INTENT_NOT_FOUND' });
+  });
+
+  it('refuses a stream whose message id was already handled', async () => {
+    const message = new A2AProtocol('did:somnia:client').createMessage({
+      recipient: 'did:somnia:server',
+      intent: 'ticker',
+      task: { symbol: 'ETH', ticks: 1 },
+    });
+
+    expect(await collect(client.getRouter().streamMessage(message))).toHaveLength(1);
+    await expect(collect(client.getRouter().streamMessage(message))).rejects.toMatchObject({
+      code: 'DUPLICATE_MESSAGE',
+    });
+  });
+});
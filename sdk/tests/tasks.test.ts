@@ -0,0 +1,151 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AgentEvent,
+  AgentTask,
+  LocalFacilitator,
+  TaskNotFoundError,
+  TaskState,
+  UACPAgent,
+  UACPPaymentClient,
+  UACPPaymentServer,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+describe('asynchronous tasks', () => {
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let release: () => void;
+  let updates: AgentTask[];
+
+  // Started tasks wait here until the test lets them finish
+  const gate = () =>
+    new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+  const submit = async (intent = 'render') => {
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:server',
+      intent,
+      task: { scene: 'intro' },
+    });
+    expect(response.status).toBe(202);
+    return response.data as AgentTask;
+  };
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    updates = [];
+    server = await agents.create('server');
+    client = await agents.create('client');
+    server.on(AgentEvent.TASK_UPDATED, (task: AgentTask) => updates.push({ ...task }));
+    server.onIntent(
+      'render',
+      async (task, context) => {
+        const finished = gate();
+        context.reportProgress?.({ percent: 50, message: 'Halfway' });
+        await finished;
+        return { success: true, data: { url: `https://cdn.example/${task.scene}.mp4` } };
+      },
+      { async: true }
+    );
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('answers 202 with a task and pushes the result when it completes', async () => {
+    const submitted = await submit();
+    expect(submitted).toMatchObject({ state: TaskState.SUBMITTED, intent: 'render' });
+
+    const working = await client.getTask('did:somnia:server', submitted.id);
+    expect(working).toMatchObject({ state: TaskState.WORKING, progress: { percent: 50 } });
+
+    const finished = client.waitForTask('did:somnia:server', submitted.id, {
+      pollInterval: 60_000,
+    });
+    release();
+
+    expect(await finished).toMatchObject({
+      state: TaskState.COMPLETED,
+      result: { url: 'https://cdn.example/intro.mp4' },
+    });
+    expect(updates.map((task) => task.state)).toEqual([
+      TaskState.SUBMITTED,
+      TaskState.WORKING,
+      TaskState.WORKING,
+      TaskState.COMPLETED,
+    ]);
+    expect(updates[2].progress).toEqual({ percent: 50, message: 'Halfway' });
+  });
+
+  it('aborts the handler of a canceled task', async () => {
+    let aborted = false;
+    server.onIntent(
+      'watch',
+      async (_task, context) =>
+        new Promise((resolve) => {
+          context.signal?.addEventListener('abort', () => {
+            aborted = true;
+            resolve({ success: true });
+          });
+        }),
+      { async: true }
+    );
+    const submitted = await submit('watch');
+
+    const canceled = await client.cancelTask('did:somnia:server', submitted.id);
+    const again = await client.cancelTask('did:somnia:server', submitted.id);
+
+    expect(canceled.state).toBe(TaskState.CANCELED);
+    expect(again.state).toBe(TaskState.CANCELED);
+    expect(aborted).toBe(true);
+  });
+
+  it('reports tasks it does not know', async () => {
+    await expect(client.getTask('did:somnia:server', crypto.randomUUID())).rejects.toThrow(
+      TaskNotFoundError
+    );
+  });
+
+  it('settles on-success payments only for tasks that complete', async () => {
+    const asset = Wallet.createRandom().address;
+    const payTo = Wallet.createRandom().address;
+    const facilitator = new LocalFacilitator();
+    const paying = await agents.create('payer', {
+      paymentClient: new UACPPaymentClient({
+        wallet: new Wallet(Wallet.createRandom().privateKey),
+      }),
+    });
+    const paid = await agents.create('paid', {
+      paymentServer: new UACPPaymentServer({ facilitator }),
+    });
+    paid.onIntent(
+      'render',
+      async (_task, context) =>
+        new Promise((resolve) => {
+          context.signal?.addEventListener('abort', () => resolve({ success: true }));
+          release = () => resolve({ success: true, data: 'done' });
+        }),
+      { async: true, pricing: { amount: '1000', asset, payTo, scheme: 'range' } }
+    );
+    const send = async () => {
+      const response = await paying.sendMessage({
+        recipient: 'did:somnia:paid',
+        intent: 'render',
+        task: {},
+      });
+      return response.data as AgentTask;
+    };
+
+    const canceled = await send();
+    await paying.cancelTask('did:somnia:paid', canceled.id);
+    const completed = await send();
+    const finished = paying.waitForTask('did:somnia:paid', completed.id, { pollInterval: 60_000 });
+    release();
+    await finished;
+
+    expect(await facilitator.getBalance(payTo, asset)).toBe('1000');
+  });
+});
@@ -0,0 +1,70 @@
+import { AssertionError } from 'assert';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MessageType, NetworkError, TestNetwork, TimeoutError, UACPAgent } from '../src/index.js';
+import { card, collect } from './helpers.js';
+
+describe('TestNetwork', () => {
+  let network: TestNetwork;
+  let buyer: UACPAgent;
+  let oracle: UACPAgent;
+
+  const price = (options?: { timeout?: number; retries?: number }) =>
+    buyer.sendMessage({ recipient: 'did:somnia:oracle', intent: 'price', task: {} }, options);
+
+  beforeEach(async () => {
+    network = new TestNetwork();
+    buyer = await network.createAgent({ agentCard: card('buyer') });
+    oracle = await network.createAgent({ agentCard: card('oracle') });
+    oracle.onIntent('price', async () => ({ success: true, data: { price: 3120 } }));
+  });
+
+  afterEach(() => network.shutdown());
+
+  it('delivers in process and captures every attempt, retries included', async () => {
+    network.inject({ to: 'did:somnia:oracle', status: 503, times: 1 });
+
+    const response = await price();
+
+    expect(oracle.getAgentCard().endpoint).toBe('inproc://test/did:somnia:oracle');
+    expect(response.data).toEqual({ price: 3120 });
+    const [failed, retried] = network.expectSent({ intent: 'price' }, 2);
+    expect(failed.fault?.status).toBe(503);
+    expect(retried.response?.data).toEqual({ price: 3120 });
+    expect(() => network.expectSent({ intent: 'quote' })).toThrow(AssertionError);
+  });
+
+  it('drops and delays matching messages', async () => {
+    const remove = network.inject({ intent: 'price', drop: true });
+    await expect(price({ retries: 0 })).rejects.toThrow(NetworkError);
+    remove();
+
+    network.inject({ from: 'did:somnia:buyer', latency: 50 });
+    await expect(price({ timeout: 20, retries: 0 })).rejects.toThrow(TimeoutError);
+    expect((await price({ timeout: 1000 })).data).toEqual({ price: 3120 });
+  });
+
+  it('waits for messages answered after the call returned', async () => {
+    const delivered = network.waitForMessage({ type: MessageType.EVENT });
+
+    await buyer.sendEvent('did:somnia:oracle', 'trade.settled', { amount: '100' });
+
+    expect((await delivered).message).toMatchObject({
+      intent: 'trade.settled',
+      task: { amount: '100' },
+    });
+    await expect(network.waitForMessage({ intent: 'missing' }, 10)).rejects.toThrow(TimeoutError);
+  });
+
+  it('carries streams without capturing them', async () => {
+    oracle.onIntentStream('ticks', async function* () {
+      yield* [1, 2];
+    });
+
+    const ticks = await collect(
+      buyer.streamMessage({ recipient: 'did:somnia:oracle', intent: 'ticks', task: {} })
+    );
+
+    expect(ticks).toEqual([1, 2]);
+    expect(network.captured()).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AMessage,
+  Transport,
+  TransportHandler,
+  TransportUnavailableError,
+  UACPAgent,
+} from '../src/index.js';
+import { HttpAgents, collect } from './helpers.js';
+
+/**
+ * Hands messages straight to the agent listening on a `loop://` endpoint,
+ * recording each one it carries
+ */
+class LoopTransport implements Transport {
+  readonly schemes = ['loop'];
+  readonly carried: A2AMessage[] = [];
+  private handlers = new Map<string, TransportHandler>();
+
+  async send(endpoint: string, message: A2AMessage, headers: Record<string, string>) {
+    const handler = this.handlers.get(endpoint);
+    if (!handler) throw new TransportUnavailableError(endpoint, 'no agent listening');
+    this.carried.push(message);
+    const inbound = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    return handler.handleMessage(JSON.parse(JSON.stringify(message)), inbound);
+  }
+
+  async listen(endpoint: string, handler: TransportHandler) {
+    this.handlers.set(endpoint, handler);
+    return { endpoint, close: async () => void this.handlers.delete(endpoint) };
+  }
+}
+
+describe('transports', () => {
+  let agents: HttpAgents;
+  let dir: string;
+  let client: UACPAgent;
+
+  const serve = (agent: UACPAgent) => {
+    agent.onIntent('echo', async (task) => ({ success: true, data: task }));
+    agent.onIntentStream('count', async function* () {
+      yield* [1, 2, 3];
+    });
+  };
+
+  const echo = (recipient: string) =>
+    client.sendMessage({ recipient, intent: 'echo', task: { value: 1 } });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    dir = await mkdtemp(join(tmpdir(), 'uacp-transport-'));
+    client = await agents.create('client');
+  });
+
+  afterEach(async () => {
+    await agents.shutdown();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('sends messages and streams over a Unix socket published on the card', async () => {
+    const endpoint = `unix://${join(dir, 'server.sock')}`;
+    const server = await agents.create('server', { listen: [endpoint] });
+    serve(server);
+
+    expect(server.getAgentCard().endpoints).toContain(endpoint);
+    expect((await echo('did:somnia:server')).data).toEqual({ value: 1 });
+    expect(
+      await collect(
+        client.streamMessage({ recipient: 'did:somnia:server', intent: 'count', task: {} })
+      )
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('falls back to the next endpoint when a socket is missing on this host', async () => {
+    const server = await agents.create('server', {
+      agentCard: { endpoints: [`unix://${join(dir, 'elsewhere.sock')}`] },
+    });
+    serve(server);
+
+    expect((await echo('did:somnia:server')).data).toEqual({ value: 1 });
+    expect(
+      await collect(
+        client.streamMessage({ recipient: 'did:somnia:server', intent: 'count', task: {} })
+      )
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('routes through custom transports registered for their scheme', async () => {
+    const loop = new LoopTransport();
+    const sender = await agents.create('sender', { transports: [loop] });
+    const server = await agents.create('looped', {
+      listen: ['loop://looped'],
+      transports: [loop],
+    });
+    serve(server);
+
+    const response = await sender.sendMessage({
+      recipient: 'did:somnia:looped',
+      intent: 'echo',
+      task: { value: 2 },
+    });
+
+    expect(response.data).toEqual({ value: 2 });
+    expect(loop.carried.map((message) => message.id)).toEqual([response.messageId]);
+    // A transport without `stream` is skipped for streams
+    expect(
+      await collect(
+        sender.streamMessage({ recipient: 'did:somnia:looped', intent: 'count', task: {} })
+      )
+    ).toEqual([1, 2, 3]);
+  });
+});
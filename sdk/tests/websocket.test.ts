@@ -0,0 +1,75 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { A2AMessage, AgentEvent, MessageContext, UACPAgent } from '../src/index.js';
+import { HttpAgents, freePort } from './helpers.js';
+
+describe('WebSocket transport', () => {
+  const wallet = Wallet.createRandom();
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let client: UACPAgent;
+  let contexts: MessageContext[];
+
+  const echo = (value: number) =>
+    client.sendMessage({ recipient: 'did:somnia:server', intent: 'echo', task: { value } });
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    contexts = [];
+    server = await agents.create('server', { websocket: true });
+    client = await agents.create('client', { walletPrivateKey: wallet.privateKey });
+    server.onIntent('echo', async (task, context) => {
+      contexts.push(context);
+      return { success: true, data: task };
+    });
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('advertises the endpoint and multiplexes messages over one link', async () => {
+    expect(server.getAgentCard().endpoints).toEqual([
+      server.getAgentCard().endpoint.replace('http://', 'ws://') + '/ws',
+    ]);
+
+    const responses = await Promise.all([1, 2, 3].map(echo));
+
+    expect(responses.map((response) => response.data)).toEqual([
+      { value: 1 },
+      { value: 2 },
+      { value: 3 },
+    ]);
+    expect(client.getRouter().getWebSocketTransport().getLink('did:somnia:server')).toBeDefined();
+    expect(contexts.map((context) => context.signer)).toEqual(Array(3).fill(wallet.address));
+  });
+
+  it('pushes events back over a link the peer opened', async () => {
+    const events: A2AMessage[] = [];
+    client.on(AgentEvent.EVENT_RECEIVED, (message: A2AMessage) => events.push(message));
+    await echo(1);
+
+    const ack = await server.sendEvent('did:somnia:client', 'price.updated', { price: 3120 });
+
+    expect(ack.success).toBe(true);
+    expect(server.getRouter().getWebSocketTransport().getLink('did:somnia:client')).toBeDefined();
+    expect(events).toMatchObject([{ intent: 'price.updated', task: { price: 3120 } }]);
+  });
+
+  it('falls back to HTTP when the WebSocket endpoint refuses the connection', async () => {
+    const port = await freePort();
+    const offline = await agents.create('offline', {
+      agentCard: { endpoints: [`ws://localhost:${port}/ws`] },
+    });
+    offline.onIntent('echo', async (task) => ({ success: true, data: task }));
+
+    const response = await client.sendMessage({
+      recipient: 'did:somnia:offline',
+      intent: 'echo',
+      task: { value: 1 },
+    });
+
+    expect(response.data).toEqual({ value: 1 });
+    expect(
+      client.getRouter().getWebSocketTransport().getLink('did:somnia:offline')
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  A2AProtocol,
+  MessageValidationError,
+  PaymentPayload,
+  PaymentRequiredError,
+  UACPAgent,
+  decodePaymentHeader,
+  encodePaymentHeader,
+} from '../src/index.js';
+import { HttpAgents } from './helpers.js';
+
+const payload: PaymentPayload = {
+  x402Version: 1,
+  scheme: 'exact',
+  network: 'somnia',
+  payload: {
+    signature: '0x1234',
+    authorization: {
+      from: '0x00000000000000000000000000000000000000bb',
+      to: '0x00000000000000000000000000000000000000cc',
+      value: '1000',
+      validAfter: 0,
+      validBefore: 2_000_000_000,
+      nonce: '0x01',
+    },
+  },
+};
+
+describe('X-Payment header', () => {
+  it('round-trips payloads as base64 and accepts raw JSON', () => {
+    expect(decodePaymentHeader(encodePaymentHeader(payload))).toEqual(payload);
+    expect(decodePaymentHeader(JSON.stringify(payload))).toEqual(payload);
+  });
+
+  it('rejects other versions and payloads that do not match the schema', () => {
+    const decode = (value: unknown) => () =>
+      decodePaymentHeader(Buffer.from(JSON.stringify(value)).toString('base64'));
+
+    expect(decode({ ...payload, x402Version: 2 })).toThrow(/Unsupported x402 version/);
+    expect(decode({ ...payload, scheme: 'stream' })).toThrow(MessageValidationError);
+    expect(() => decodePaymentHeader('{not json')).toThrow(/Malformed/);
+  });
+});
+
+describe('priced intents', () => {
+  let agents: HttpAgents;
+  let server: UACPAgent;
+  let calls: number;
+
+  beforeEach(async () => {
+    agents = new HttpAgents();
+    calls = 0;
+    server = await agents.create('server');
+    server.onIntent(
+      'render',
+      async () => {
+        calls++;
+        return { success: true };
+      },
+      {
+        pricing: {
+          amount: '1000',
+          asset: '0x00000000000000000000000000000000000000aa',
+          payTo: '0x00000000000000000000000000000000000000cc',
+        },
+      }
+    );
+  });
+
+  afterEach(() => agents.shutdown());
+
+  it('answers unpaid messages with the requirements of the price', async () => {
+    const client = await agents.create('client');
+
+    const error = await client
+      .sendMessage({ recipient: 'did:somnia:server', intent: 'render', task: {} })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PaymentRequiredError);
+    expect((error as PaymentRequiredError).paymentRequirements).toMatchObject({
+      scheme: 'exact',
+      network: 'somnia',
+      maxAmountRequired: '1000',
+      resource: `${server.getAgentCard().endpoint}/a2a/render`,
+      mimeType: 'application/json',
+      maxTimeoutSeconds: 1200,
+    });
+    expect(calls).toBe(0);
+  });
+
+  it('refuses X-Payment headers it cannot decode without running the handler', async () => {
+    const post = (header: string) =>
+      axios.post(
+        `${server.getAgentCard().endpoint}/a2a`,
+        new A2AProtocol('did:somnia:client').createMessage({
+          recipient: 'did:somnia:server',
+          intent: 'render',
+          task: {},
+        }),
+        { headers: { 'X-Payment': header }, validateStatus: () => true }
+      );
+
+    const malformed = await post('not a payload');
+    expect(malformed.status).toBe(402);
+    expect(malformed.data.error.message).toMatch(/Malformed/);
+
+    const unsupported = await post(encodePaymentHeader({ ...payload, x402Version: 2 } as never));
+    expect(unsupported.data.error.message).toMatch(/Unsupported x402 version/);
+    expect(calls).toBe(0);
+  });
+});